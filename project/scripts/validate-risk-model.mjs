@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+// Calibration and discrimination of stored risk predictions against recorded graft outcomes.
+//
+// Input is the JSON exported from Allocations > Export outcomes: one record per completed
+// transplant with predicted_probability (0..1) and failed_within_1_year (null while
+// follow-up is shorter than a year). Records without either are skipped, including
+// allocations scored with heuristic points, which are not a probability.
+//
+//   npm run validate:risk -- allocation-outcomes.json [--by-organ] [--bins 10] [--json]
+import { readFileSync } from 'node:fs';
+
+const EPSILON = 1e-6;
+
+const args = process.argv.slice(2);
+const file = args.find(a => !a.startsWith('--') && args[args.indexOf(a) - 1] !== '--bins');
+if (!file) {
+  console.error('Usage: validate-risk-model.mjs <allocation-outcomes.json> [--by-organ] [--bins N] [--json]');
+  process.exit(1);
+}
+const byOrgan = args.includes('--by-organ');
+const asJson = args.includes('--json');
+const binsArg = args.indexOf('--bins');
+const binCount = binsArg >= 0 ? Number(args[binsArg + 1]) : 10;
+if (!Number.isInteger(binCount) || binCount < 2) {
+  console.error('--bins must be a whole number of at least 2');
+  process.exit(1);
+}
+
+const clamp = p => Math.min(1 - EPSILON, Math.max(EPSILON, p));
+const logit = p => Math.log(p / (1 - p));
+
+// Concordance of predictions with events (area under the ROC curve), ties counting half,
+// with the Hanley-McNeil standard error
+function cStatistic(rows) {
+  const events = rows.filter(r => r.y === 1).map(r => r.p);
+  const nonEvents = rows.filter(r => r.y === 0).map(r => r.p);
+  if (events.length === 0 || nonEvents.length === 0) return null;
+
+  const sorted = rows.map(r => r.p).sort((a, b) => a - b);
+  const rank = new Map();
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j < sorted.length && sorted[j] === sorted[i]) j++;
+    rank.set(sorted[i], (i + j + 1) / 2); // average rank of ties, 1-based
+    i = j;
+  }
+  const n1 = events.length;
+  const n0 = nonEvents.length;
+  const rankSum = events.reduce((sum, p) => sum + rank.get(p), 0);
+  const auc = (rankSum - n1 * (n1 + 1) / 2) / (n1 * n0);
+
+  const q1 = auc / (2 - auc);
+  const q2 = 2 * auc * auc / (1 + auc);
+  const se = Math.sqrt((auc * (1 - auc) + (n1 - 1) * (q1 - auc * auc) + (n0 - 1) * (q2 - auc * auc)) / (n1 * n0));
+  return { auc, ci_low: Math.max(0, auc - 1.96 * se), ci_high: Math.min(1, auc + 1.96 * se) };
+}
+
+// Logistic recalibration y ~ a + b * logit(p) by Newton-Raphson: a perfectly calibrated
+// model has intercept 0 and slope 1; a slope below 1 means predictions are too extreme
+function calibrationLine(rows) {
+  let a = 0;
+  let b = 1;
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let g0 = 0, g1 = 0, h00 = 0, h01 = 0, h11 = 0;
+    for (const { p, y } of rows) {
+      const x = logit(clamp(p));
+      const mu = 1 / (1 + Math.exp(-(a + b * x)));
+      const w = mu * (1 - mu);
+      g0 += y - mu;
+      g1 += (y - mu) * x;
+      h00 += w;
+      h01 += w * x;
+      h11 += w * x * x;
+    }
+    const det = h00 * h11 - h01 * h01;
+    if (Math.abs(det) < 1e-12) return null;
+    const da = (h11 * g0 - h01 * g1) / det;
+    const db = (h00 * g1 - h01 * g0) / det;
+    a += da;
+    b += db;
+    if (Math.abs(da) < 1e-8 && Math.abs(db) < 1e-8) return { intercept: a, slope: b };
+  }
+  return { intercept: a, slope: b };
+}
+
+// Upper tail of the chi-square distribution via the regularized incomplete gamma function
+function chiSquareSurvival(x, df) {
+  if (x <= 0) return 1;
+  const s = df / 2;
+  const z = x / 2;
+  const lnGamma = v => {
+    const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = v;
+    const tmp = v + 5.5 - (v + 0.5) * Math.log(v + 5.5);
+    let ser = 1.000000000190015;
+    for (const coefficient of c) ser += coefficient / ++y;
+    return -tmp + Math.log(2.5066282746310005 * ser / v);
+  };
+  if (z < s + 1) {
+    let term = 1 / s;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= z / (s + n);
+      sum += term;
+      if (term < sum * 1e-12) break;
+    }
+    return 1 - sum * Math.exp(-z + s * Math.log(z) - lnGamma(s));
+  }
+  // continued fraction for the upper tail
+  let b = z + 1 - s;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - s);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.exp(-z + s * Math.log(z) - lnGamma(s)) * h;
+}
+
+// Observed against predicted failure in groups of equal size ordered by prediction,
+// with the Hosmer-Lemeshow statistic over those groups
+function calibrationTable(rows, bins) {
+  const sorted = [...rows].sort((a, b) => a.p - b.p);
+  const groups = Math.min(bins, sorted.length);
+  const table = [];
+  for (let g = 0; g < groups; g++) {
+    const slice = sorted.slice(Math.floor(g * sorted.length / groups), Math.floor((g + 1) * sorted.length / groups));
+    if (slice.length === 0) continue;
+    const expected = slice.reduce((sum, r) => sum + r.p, 0);
+    const observed = slice.reduce((sum, r) => sum + r.y, 0);
+    table.push({ n: slice.length, mean_predicted: expected / slice.length, observed_rate: observed / slice.length, expected, observed });
+  }
+  let hl = 0;
+  for (const row of table) {
+    const meanP = clamp(row.mean_predicted);
+    hl += (row.observed - row.expected) ** 2 / (row.n * meanP * (1 - meanP));
+  }
+  const df = Math.max(1, table.length - 2);
+  return { table, hosmer_lemeshow: { chi_square: hl, df, p_value: chiSquareSurvival(hl, df) } };
+}
+
+function evaluate(rows) {
+  const n = rows.length;
+  const events = rows.reduce((sum, r) => sum + r.y, 0);
+  const meanPredicted = rows.reduce((sum, r) => sum + r.p, 0) / n;
+  const brier = rows.reduce((sum, r) => sum + (r.p - r.y) ** 2, 0) / n;
+  return {
+    n,
+    events,
+    observed_rate: events / n,
+    mean_predicted: meanPredicted,
+    observed_expected_ratio: meanPredicted > 0 ? (events / n) / meanPredicted : null,
+    brier,
+    c_statistic: cStatistic(rows),
+    calibration: calibrationLine(rows),
+    ...calibrationTable(rows, binCount),
+  };
+}
+
+const records = JSON.parse(readFileSync(file, 'utf8'));
+if (!Array.isArray(records)) {
+  console.error(`${file} is not an exported list of allocation outcomes`);
+  process.exit(1);
+}
+
+const groups = new Map();
+let skipped = 0;
+for (const record of records) {
+  if (record.failed_within_1_year == null || typeof record.predicted_probability !== 'number') {
+    skipped++;
+    continue;
+  }
+  const key = `${record.model_id}@${record.model_version}${byOrgan ? ` ${record.organ_type}` : ''}`;
+  if (!groups.has(key)) groups.set(key, []);
+  groups.get(key).push({ p: record.predicted_probability, y: record.failed_within_1_year ? 1 : 0 });
+}
+
+const results = [...groups.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([group, rows]) => ({ group, ...evaluate(rows) }));
+
+if (asJson) {
+  console.log(JSON.stringify({ file, skipped, results }, null, 2));
+  process.exit(0);
+}
+
+const pct = v => `${(v * 100).toFixed(1)}%`;
+const num = (v, digits = 3) => (v == null || Number.isNaN(v) ? 'n/a' : v.toFixed(digits));
+
+console.log(`${file}: ${records.length} records, ${skipped} without a 1-year outcome or prediction`);
+if (results.length === 0) {
+  console.log('Nothing to validate.');
+}
+for (const r of results) {
+  console.log(`\n== ${r.group} ==`);
+  console.log(`Transplants ${r.n}, failures ${r.events} (${pct(r.observed_rate)}), mean predicted ${pct(r.mean_predicted)}, O/E ${num(r.observed_expected_ratio, 2)}`);
+  console.log(`Brier score ${num(r.brier, 4)}`);
+  console.log(r.c_statistic
+    ? `C-statistic ${num(r.c_statistic.auc)} (95% CI ${num(r.c_statistic.ci_low)}-${num(r.c_statistic.ci_high)})`
+    : 'C-statistic n/a (needs both failures and functioning grafts)');
+  console.log(r.calibration
+    ? `Calibration intercept ${num(r.calibration.intercept)}, slope ${num(r.calibration.slope)} (ideal 0 and 1)`
+    : 'Calibration line n/a (predictions do not vary)');
+  console.log(`Hosmer-Lemeshow chi-square ${num(r.hosmer_lemeshow.chi_square, 2)} on ${r.hosmer_lemeshow.df} df, p = ${num(r.hosmer_lemeshow.p_value)}`);
+  console.log('  group      n   predicted   observed');
+  r.table.forEach((row, i) => {
+    console.log(`  ${String(i + 1).padStart(5)} ${String(row.n).padStart(6)} ${pct(row.mean_predicted).padStart(11)} ${pct(row.observed_rate).padStart(10)}`);
+  });
+}
@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { ClockProvider } from './context/ClockContext';
 import { LoginForm } from './components/Auth/LoginForm';
 import { SignupForm } from './components/Auth/SignupForm';
 import { Sidebar } from './components/Layout/Sidebar';
+import { ReplayBar } from './components/Layout/ReplayBar';
 import { Dashboard } from './components/Dashboard/Dashboard';
 import { DonorList } from './components/Donors/DonorList';
 import { RecipientList } from './components/Recipients/RecipientList';
 import { MatchingDashboard } from './components/Matching/MatchingDashboard';
+import { BatchAllocation } from './components/Matching/BatchAllocation';
 import { AllocationsList } from './components/Allocations/AllocationsList';
+import { PairedDonationDashboard } from './components/PairedDonation/PairedDonationDashboard';
+import { PolicyManager } from './components/Policy/PolicyManager';
 import { BrowserRouter as Router, Routes, Route, Navigate, Outlet, useNavigate } from 'react-router-dom';
 import LandingPage from './pages/LandingPage';
 
@@ -65,6 +70,12 @@ function MainApp() {
         return <MatchingDashboard />;
       case 'allocations':
         return <AllocationsList />;
+      case 'batch':
+        return <BatchAllocation />;
+      case 'kpd':
+        return <PairedDonationDashboard />;
+      case 'policy':
+        return <PolicyManager />;
       default:
         return <Dashboard />;
     }
@@ -76,6 +87,7 @@ function MainApp() {
         <Sidebar currentView={currentView} onViewChange={setCurrentView} />
       </div>
       <div className="flex-1 overflow-auto">
+        <ReplayBar />
         {renderView()}
       </div>
     </div>
@@ -91,23 +103,25 @@ function ProtectedApp() {
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <Routes>
-          {/* Public routes */}
-          <Route path="/" element={<LandingPage />} />
-          <Route path="/login" element={<AuthWrapper />} />
-          <Route path="/get-started" element={<Navigate to="/login" replace />} />
-          {/* Protected routes */}
-          <Route element={<ProtectedApp />}>
-            <Route path="/dashboard" element={<MainApp />} />
-            <Route path="/donors" element={<DonorList />} />
-            <Route path="/recipients" element={<RecipientList />} />
-            <Route path="/allocations" element={<AllocationsList />} />
-          </Route>
-          {/* Fallback */}
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
-      </Router>
+      <ClockProvider>
+        <Router>
+          <Routes>
+            {/* Public routes */}
+            <Route path="/" element={<LandingPage />} />
+            <Route path="/login" element={<AuthWrapper />} />
+            <Route path="/get-started" element={<Navigate to="/login" replace />} />
+            {/* Protected routes */}
+            <Route element={<ProtectedApp />}>
+              <Route path="/dashboard" element={<MainApp />} />
+              <Route path="/donors" element={<DonorList />} />
+              <Route path="/recipients" element={<RecipientList />} />
+              <Route path="/allocations" element={<AllocationsList />} />
+            </Route>
+            {/* Fallback */}
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </Router>
+      </ClockProvider>
     </AuthProvider>
   );
 }
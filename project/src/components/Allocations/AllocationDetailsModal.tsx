@@ -1,7 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { X, Calendar, User, Heart, Activity, AlertTriangle, Clock, FileText, Edit2, Save } from 'lucide-react';
-import { Allocation, Donor, Recipient } from '../../types';
+import { Allocation, Donor, GraftOutcome, Recipient } from '../../types';
 import { apiService } from '../../services/api.service';
+import { hlaService } from '../../services/hla.service';
+import { aboService, BLOOD_COMPATIBILITY_LABELS } from '../../services/abo.service';
+import { sizeMatchingService } from '../../services/sizeMatching.service';
+import { useViability } from '../../hooks/useViability';
+import { ScoreWaterfall } from '../Common/ScoreWaterfall';
+import { RiskBreakdown } from '../Common/RiskBreakdown';
 
 type AllocationWithDetails = Allocation & {
   donor: Donor;
@@ -23,35 +29,15 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
       : '',
     notes: allocation.notes || '',
     status: allocation.status,
+    graft_outcome: (allocation.graft_outcome ?? '') as GraftOutcome | '',
+    graft_outcome_date: allocation.graft_outcome_date ?? '',
   });
 
-  // Real-time remaining viability calculation
-  const VIABILITY_DEFAULTS: Record<string, number> = { kidney: 24, heart: 6, liver: 12 };
-  const getIschemiaStartAt = () => {
-    const anyDonor = allocation.donor as any;
-    return anyDonor.ischemia_start_at || anyDonor.updated_at || anyDonor.created_at;
-  };
-  const computeRemaining = () => {
-    const organ = allocation.organ_type as keyof typeof VIABILITY_DEFAULTS;
-    const limit = allocation.donor.cold_ischemia_time_hours ?? VIABILITY_DEFAULTS[organ] ?? 24;
-    const startIso = getIschemiaStartAt();
-    if (!startIso) return limit;
-    const elapsedHrs = Math.max(0, (Date.now() - new Date(startIso).getTime()) / (1000 * 60 * 60));
-    return Math.max(0, Math.round((limit - elapsedHrs) * 10) / 10);
-  };
-  const [remainingViability, setRemainingViability] = useState<number>(() => computeRemaining());
-  useEffect(() => {
-    setRemainingViability(computeRemaining());
-    const id = setInterval(() => setRemainingViability(computeRemaining()), 30000);
-    return () => clearInterval(id);
-  }, [
-    allocation.donor.cold_ischemia_time_hours,
-    (allocation.donor as any).ischemia_start_at,
-    (allocation.donor as any).updated_at,
-    allocation.organ_type,
-  ]);
-  const isExpired = remainingViability <= 0;
-  const isNearExpiry = !isExpired && remainingViability <= 1;
+  // Remaining viability on the shared clock
+  const viability = useViability(allocation.donor, allocation.organ_type);
+  const remainingViability = viability.remaining_hours;
+  const isExpired = viability.expired;
+  const isNearExpiry = viability.near_expiry;
 
   const handleSave = async () => {
     setLoading(true);
@@ -61,6 +47,8 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
         transplant_scheduled: formData.transplant_scheduled 
           ? new Date(formData.transplant_scheduled).toISOString() 
           : null,
+        graft_outcome: formData.graft_outcome || null,
+        graft_outcome_date: formData.graft_outcome ? formData.graft_outcome_date || null : null,
       };
       
       await apiService.updateAllocation(allocation.id, updateData);
@@ -254,6 +242,18 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
                     <p className="font-medium text-gray-900">{allocation.donor.cause_of_death}</p>
                   </div>
                 )}
+                {(allocation.donor.conditions || []).length > 0 && (
+                  <div>
+                    <p className="text-sm text-gray-500">Coded Conditions</p>
+                    <ul className="space-y-0.5">
+                      {allocation.donor.conditions.map(condition => (
+                        <li key={condition.code} className="text-sm text-gray-900">
+                          <span className="font-mono font-medium mr-2">{condition.code}</span>{condition.label}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {allocation.donor.medical_history && (
                   <div>
                     <p className="text-sm text-gray-500">Medical History</p>
@@ -302,6 +302,18 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
                     </div>
                   )}
                 </div>
+                {(allocation.recipient.conditions || []).length > 0 && (
+                  <div>
+                    <p className="text-sm text-gray-500">Coded Conditions</p>
+                    <ul className="space-y-0.5">
+                      {allocation.recipient.conditions.map(condition => (
+                        <li key={condition.code} className="text-sm text-gray-900">
+                          <span className="font-mono font-medium mr-2">{condition.code}</span>{condition.label}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {allocation.recipient.medical_history && (
                   <div>
                     <p className="text-sm text-gray-500">Medical History</p>
@@ -330,15 +342,28 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
                   )}
                 </div>
                 <p className="text-xs text-gray-600">Blood Compatible</p>
+                {aboService.usesPathway(allocation.compatibility_factors.abo) && (
+                  <p className="text-xs text-yellow-700" title={allocation.compatibility_factors.abo?.detail}>
+                    {allocation.compatibility_factors.abo && BLOOD_COMPATIBILITY_LABELS[allocation.compatibility_factors.abo.class]}
+                  </p>
+                )}
               </div>
               
               <div className="text-center">
                 <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center mx-auto mb-2">
                   <span className="text-blue-600 font-bold text-xs">
-                    {Math.round(allocation.compatibility_factors.hla_compatibility * 100)}%
+                    {allocation.compatibility_factors.hla_compatibility === null
+                      ? 'N/A'
+                      : `${Math.round(allocation.compatibility_factors.hla_compatibility * 100)}%`}
                   </span>
                 </div>
                 <p className="text-xs text-gray-600">HLA Match</p>
+                {allocation.compatibility_factors.hla_mismatch && (
+                  <p className="text-xs text-gray-500">
+                    MM {hlaService.formatMismatch(allocation.compatibility_factors.hla_mismatch)}
+                    {allocation.compatibility_factors.hla_mismatch.zero_mismatch && ' · 0-MM'}
+                  </p>
+                )}
               </div>
               
               <div className="text-center">
@@ -377,6 +402,47 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
               </div>
               
             </div>
+
+            {allocation.compatibility_factors.score_breakdown && allocation.compatibility_factors.score_breakdown.length > 0 && (
+              <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">Score Breakdown</h4>
+                <ScoreWaterfall components={allocation.compatibility_factors.score_breakdown} finalScore={allocation.match_score} maxScore={allocation.compatibility_factors.max_score} />
+              </div>
+            )}
+
+            {/* Allocations made before graded size models were introduced have no assessment */}
+            {allocation.compatibility_factors.size && (
+              <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-900 mb-1">Size Match</h4>
+                <p className="text-sm text-gray-700">
+                  {allocation.compatibility_factors.size.summary} — {(allocation.compatibility_factors.size.score * 100).toFixed(0)}% of size points
+                  {allocation.compatibility_factors.size.split_graft && ' (split graft)'}
+                  {!allocation.compatibility_factors.size.complete && ' (incomplete measurements)'}
+                </p>
+                <p className="text-xs text-gray-500 mb-2">{allocation.compatibility_factors.size.rule}</p>
+                <dl className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+                  {allocation.compatibility_factors.size.metrics.map(m => (
+                    <div key={m.key}>
+                      <dt className="text-xs text-gray-500">{m.label}</dt>
+                      <dd className="font-medium text-gray-900">{sizeMatchingService.formatMetric(m)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+
+            {/* Allocations made before the risk breakdown was recorded have none */}
+            {allocation.compatibility_factors.risk_breakdown && (
+              <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">Risk Breakdown</h4>
+                <RiskBreakdown
+                  components={allocation.compatibility_factors.risk_breakdown}
+                  riskPercentage={allocation.risk_percentage}
+                  viralSerostatus={allocation.compatibility_factors.viral_serostatus}
+                  prediction={allocation.compatibility_factors.risk_prediction}
+                />
+              </div>
+            )}
           </div>
 
           {/* Scheduling and Notes */}
@@ -392,6 +458,12 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
                   <p className="text-sm text-gray-500 mb-2">Allocated At</p>
                   <p className="font-medium text-gray-900">{formatDate(allocation.allocated_at)}</p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-500 mb-2">Allocation Policy</p>
+                  <p className="font-medium text-gray-900 font-mono text-xs">
+                    {allocation.policy_version_id || 'Built-in default'}
+                  </p>
+                </div>
                 <div>
                   <p className="text-sm text-gray-500 mb-2">Scheduled Transplant</p>
                   {isEditing ? (
@@ -416,12 +488,44 @@ export function AllocationDetailsModal({ allocation, onClose, onUpdate }: Alloca
                     {isExpired ? 'Expired' : `${remainingViability.toFixed(1)} hours`}
                   </p>
                 </div>
+                <div>
+                  <p className="text-sm text-gray-500 mb-2">Graft Outcome</p>
+                  {isEditing ? (
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        value={formData.graft_outcome}
+                        onChange={(e) => setFormData({ ...formData, graft_outcome: e.target.value as GraftOutcome | '' })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="">Not recorded</option>
+                        <option value="functioning">Functioning</option>
+                        <option value="failed">Failed</option>
+                      </select>
+                      <input
+                        type="date"
+                        value={formData.graft_outcome_date}
+                        onChange={(e) => setFormData({ ...formData, graft_outcome_date: e.target.value })}
+                        disabled={!formData.graft_outcome}
+                        title={formData.graft_outcome === 'failed' ? 'Date of graft failure' : 'Date of last follow-up'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                      />
+                    </div>
+                  ) : (
+                    <p className="font-medium text-gray-900">
+                      {allocation.graft_outcome === 'failed' && `Failed${allocation.graft_outcome_date ? ` on ${allocation.graft_outcome_date}` : ''}`}
+                      {allocation.graft_outcome === 'functioning' && `Functioning${allocation.graft_outcome_date ? ` as of ${allocation.graft_outcome_date}` : ''}`}
+                      {!allocation.graft_outcome && 'Not recorded'}
+                    </p>
+                  )}
+                </div>
                 {allocation.risk_percentage && (
                   <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
                     <div className="flex items-center space-x-2">
                       <AlertTriangle className="h-4 w-4 text-yellow-600" />
                       <span className="text-sm font-medium text-yellow-800">
-                        Risk Assessment: {allocation.risk_percentage.toFixed(1)}%
+                        {allocation.compatibility_factors.risk_prediction
+                          ? `Predicted ${allocation.compatibility_factors.risk_prediction.outcome}: ${allocation.risk_percentage.toFixed(1)}% (95% CI ${allocation.compatibility_factors.risk_prediction.ci_low.toFixed(1)}–${allocation.compatibility_factors.risk_prediction.ci_high.toFixed(1)}%)`
+                          : `Risk Assessment: ${allocation.risk_percentage.toFixed(1)}%`}
                       </span>
                     </div>
                   </div>
@@ -1,7 +1,8 @@
 import React, { useEffect, useState } from 'react';
-import { Search, Calendar, User, Heart, Clock, Edit, Trash2, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { Search, Calendar, User, Heart, Clock, Edit, Trash2, CheckCircle, XCircle, AlertTriangle, Download } from 'lucide-react';
 import { Allocation, Donor, Recipient } from '../../types';
 import { apiService } from '../../services/api.service';
+import { riskModelService } from '../../services/riskModel.service';
 import { AllocationDetailsModal } from './AllocationDetailsModal';
 
 type AllocationWithDetails = Allocation & {
@@ -90,6 +91,19 @@ export function AllocationsList() {
     }
   };
 
+  // Completed transplants with their stored risk prediction and graft outcome,
+  // the input of `npm run validate:risk`
+  const handleExportOutcomes = () => {
+    const records = allocations.filter(a => a.status === 'completed').map(a => riskModelService.toOutcomeRecord(a));
+    const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `allocation-outcomes-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
@@ -158,9 +172,19 @@ export function AllocationsList() {
 
   return (
     <div className="p-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Allocations</h1>
-        <p className="text-gray-600 mt-2">Manage organ allocations and transplant scheduling</p>
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Allocations</h1>
+          <p className="text-gray-600 mt-2">Manage organ allocations and transplant scheduling</p>
+        </div>
+        <button
+          onClick={handleExportOutcomes}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          title="Predicted risk and recorded graft outcome of completed transplants"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export outcomes</span>
+        </button>
       </div>
 
       {/* Stats Overview */}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { geoService } from '../../services/geo.service';
+
+interface CenterSelectProps {
+  centerId: string | null;
+  location: string;
+  onChange: (value: { center_id: string | null; location: string }) => void;
+  accent?: 'red' | 'blue'; // focus ring colour of the surrounding form
+}
+
+const OTHER = '__other__';
+
+// Pick a transplant center from the directory; "Other" keeps a free-text location
+// that is still matched against center names and cities when scoring distance.
+export function CenterSelect({ centerId, location, onChange, accent = 'blue' }: CenterSelectProps) {
+  const [other, setOther] = useState(!centerId && !!location);
+  const focus = accent === 'red' ? 'focus:ring-red-500 focus:border-red-500' : 'focus:ring-blue-500 focus:border-blue-500';
+  const resolved = !centerId && location ? geoService.resolveCenter({ center_id: null, location }) : null;
+
+  const states = Array.from(new Set(geoService.getCenters().map(c => c.state))).sort();
+
+  const handleSelect = (value: string) => {
+    if (value === OTHER) {
+      setOther(true);
+      onChange({ center_id: null, location: '' });
+      return;
+    }
+    setOther(false);
+    const center = geoService.getCenter(value);
+    onChange({ center_id: center?.id ?? null, location: center ? `${center.name}, ${center.city}` : '' });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={centerId ?? (other ? OTHER : '')}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 ${focus}`}
+      >
+        <option value="">Select transplant center</option>
+        {states.map(state => (
+          <optgroup key={state} label={state}>
+            {geoService.getCenters().filter(c => c.state === state).map(center => (
+              <option key={center.id} value={center.id}>{center.name}, {center.city}</option>
+            ))}
+          </optgroup>
+        ))}
+        <option value={OTHER}>Other / not listed</option>
+      </select>
+      {other && (
+        <>
+          <input
+            type="text"
+            value={location}
+            onChange={(e) => onChange({ center_id: null, location: e.target.value })}
+            className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 ${focus}`}
+            placeholder="Hospital/City"
+          />
+          <p className="text-xs text-gray-500">
+            {resolved ? `Distance is estimated from ${resolved.name}, ${resolved.city}.` : 'Not matched to a center; no distance will be computed.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { CodedCondition } from '../../types';
+import { icd10Service } from '../../services/icd10.service';
+
+interface ConditionPickerProps {
+  conditions: CodedCondition[];
+  onChange: (conditions: CodedCondition[]) => void;
+  accent?: 'red' | 'blue'; // focus ring colour of the surrounding form
+}
+
+// ICD-10-CM autocomplete over the bundled code subset; search by code or by words of the label
+export function ConditionPicker({ conditions, onChange, accent = 'blue' }: ConditionPickerProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const focus = accent === 'red' ? 'focus:ring-red-500 focus:border-red-500' : 'focus:ring-blue-500 focus:border-blue-500';
+  const chip = accent === 'red' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800';
+
+  const results = icd10Service.search(query).filter(c => !conditions.some(existing => existing.code === c.code));
+
+  const add = (condition: CodedCondition) => {
+    onChange([...conditions, condition]);
+    setQuery('');
+    setOpen(false);
+  };
+
+  const remove = (code: string) => {
+    onChange(conditions.filter(c => c.code !== code));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (results[0]) add(results[0]);
+            }
+            if (e.key === 'Escape') setOpen(false);
+          }}
+          className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 ${focus}`}
+          placeholder="Search ICD-10 code or diagnosis, e.g. E11.22 or cirrhosis"
+        />
+        {open && query.trim() && (
+          <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg">
+            {results.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">No matching code in the bundled ICD-10 subset</li>
+            ) : (
+              results.map(condition => (
+                <li key={condition.code}>
+                  <button
+                    type="button"
+                    // mousedown fires before the input loses focus and closes the list
+                    onMouseDown={(e) => { e.preventDefault(); add(condition); }}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                  >
+                    <span className="font-mono font-medium text-gray-900 mr-2">{condition.code}</span>
+                    <span className="text-gray-700">{condition.label}</span>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {conditions.map(condition => (
+          <span key={condition.code} className={`inline-flex items-center px-3 py-1 rounded-full text-sm ${chip}`} title={condition.label}>
+            <span className="font-mono font-medium mr-1">{condition.code}</span>
+            <span className="truncate max-w-xs">{condition.label}</span>
+            <button type="button" onClick={() => remove(condition.code)} className="ml-2 hover:opacity-70">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {conditions.length === 0 && (
+          <p className="text-sm text-gray-400 italic">No coded conditions</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+interface HighlightedExcerptProps {
+  text: string;
+  start: number;
+  end: number;
+  context?: number; // characters shown either side of the span
+}
+
+// The part of a free-text field around a matched span, with the span highlighted
+export function HighlightedExcerpt({ text, start, end, context = 40 }: HighlightedExcerptProps) {
+  const from = Math.max(0, start - context);
+  const to = Math.min(text.length, end + context);
+
+  return (
+    <span className="text-xs text-gray-600">
+      {from > 0 && '…'}
+      {text.slice(from, start)}
+      <mark className="bg-yellow-200 text-gray-900 rounded px-0.5">{text.slice(start, end)}</mark>
+      {text.slice(end, to)}
+      {to < text.length && '…'}
+    </span>
+  );
+}
@@ -0,0 +1,79 @@
+import { RiskComponent, RiskPrediction, ViralSerostatus } from '../../types';
+
+interface RiskBreakdownProps {
+  components: RiskComponent[];
+  riskPercentage: number; // as stored, i.e. after the 80% cap
+  viralSerostatus?: ViralSerostatus[];
+  prediction?: RiskPrediction | null; // set when a probability model scored the match
+}
+
+const formatSerostatus = (status: ViralSerostatus) => {
+  const sign = (result: ViralSerostatus['donor']) => result === 'positive' ? '+' : result === 'negative' ? '-' : '?';
+  return `${status.virus.toUpperCase()} D${sign(status.donor)}/R${sign(status.recipient)}`;
+};
+
+// Risk contributors largest first, with the viral serostatus pairs used for prophylaxis planning.
+// Model predictions list their drivers as odds ratios against the reference patient.
+export function RiskBreakdown({ components, riskPercentage, viralSerostatus = [], prediction }: RiskBreakdownProps) {
+  const rawTotal = components.reduce((sum, c) => sum + c.points, 0);
+
+  return (
+    <div className="space-y-2 text-xs">
+      {viralSerostatus.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-1">
+          {viralSerostatus.map(status => (
+            <span
+              key={status.virus}
+              className={`inline-flex items-center px-2 py-0.5 rounded font-medium ${status.high_risk ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {formatSerostatus(status)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {prediction ? (
+        prediction.drivers.length === 0 ? (
+          <p className="text-gray-500">No features moved the prediction from the reference patient.</p>
+        ) : (
+          prediction.drivers.map(driver => (
+            <div key={driver.key} className="flex items-center justify-between">
+              <div>
+                <span className="font-medium text-gray-900">{driver.label}</span>
+                <span className="text-gray-500 ml-2">{driver.detail}</span>
+              </div>
+              <span className={`font-medium ${driver.contribution > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                ×{Math.exp(driver.contribution).toFixed(2)}
+              </span>
+            </div>
+          ))
+        )
+      ) : components.length === 0 ? (
+        <p className="text-gray-500">No risk contributors.</p>
+      ) : (
+        [...components].sort((a, b) => b.points - a.points).map(component => (
+          <div key={component.key} className="flex items-center justify-between">
+            <div>
+              <span className="font-medium text-gray-900">{component.label}</span>
+              <span className="text-gray-500 ml-2">{component.detail}</span>
+            </div>
+            <span className="font-medium text-gray-900">+{component.points.toFixed(1)}</span>
+          </div>
+        ))
+      )}
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-2 font-semibold text-gray-900">
+        <span>{prediction ? `Predicted ${prediction.outcome}` : 'Risk'}</span>
+        <span className="text-right">
+          {riskPercentage.toFixed(1)}%
+          {prediction && (
+            <span className="block font-normal text-gray-500">95% CI {prediction.ci_low.toFixed(1)}–{prediction.ci_high.toFixed(1)}%</span>
+          )}
+          {!prediction && rawTotal > riskPercentage + 0.005 && (
+            <span className="block font-normal text-gray-500">capped from {rawTotal.toFixed(1)}</span>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { ScoreComponent } from '../../types';
+
+interface ScoreWaterfallProps {
+  components: ScoreComponent[];
+  finalScore: number; // match score as stored, a percentage of maxScore
+  maxScore?: number; // achievable points; absent on allocations saved before it was recorded
+}
+
+// Each factor is drawn as a bar starting where the previous one ended, so the
+// bars add up left to right to the points earned, drawn against the achievable maximum.
+export function ScoreWaterfall({ components, finalScore, maxScore }: ScoreWaterfallProps) {
+  const rawTotal = components.reduce((sum, c) => sum + c.points, 0);
+  const scale = Math.max(maxScore ?? 100, rawTotal);
+  let running = 0;
+
+  return (
+    <div className="space-y-2">
+      {components.map(component => {
+        const start = running;
+        running += component.points;
+        const earnedAll = component.points >= component.max_points;
+
+        return (
+          <div key={component.key} className="grid grid-cols-12 gap-2 items-center text-xs">
+            <div className="col-span-3">
+              <p className="font-medium text-gray-900">{component.label}</p>
+              <p className="text-gray-500 truncate" title={component.raw_input}>{component.raw_input}</p>
+            </div>
+            <div className="col-span-6 relative h-4 bg-gray-100 rounded">
+              <div
+                className={`absolute h-4 rounded ${component.points === 0 ? 'bg-gray-300' : earnedAll ? 'bg-green-500' : 'bg-blue-500'}`}
+                style={{ left: `${(start / scale) * 100}%`, width: `${Math.max(0.5, (component.points / scale) * 100)}%` }}
+              />
+            </div>
+            <div className="col-span-3 text-right">
+              <p className="font-medium text-gray-900">
+                +{component.points.toFixed(1)} <span className="text-gray-400">/ {component.max_points}</span>
+              </p>
+              <p className="text-gray-500 truncate" title={component.rule}>{component.rule}</p>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-12 gap-2 items-center text-xs border-t border-gray-200 pt-2">
+        <div className="col-span-9 font-semibold text-gray-900">Match score</div>
+        <div className="col-span-3 text-right font-semibold text-gray-900">
+          {maxScore ? `${finalScore.toFixed(1)}%` : finalScore.toFixed(1)}
+          {maxScore ? (
+            <span className="block font-normal text-gray-500">{rawTotal.toFixed(1)} of {maxScore} points</span>
+          ) : rawTotal > finalScore + 0.005 && (
+            <span className="block font-normal text-gray-500">capped from {rawTotal.toFixed(1)}</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import React, { useState } from 'react';
 import { X, Plus, Minus } from 'lucide-react';
-import { Donor, BloodType, OrganType, Gender } from '../../types';
+import { Donor, AboSubtype, BloodType, OrganType, Gender, DonorEthnicity, DonorType, Recipient, SerologyResult } from '../../types';
+import { kdpiService } from '../../services/kdpi.service';
+import { DONOR_TYPE_LABELS, livingDonorService } from '../../services/livingDonor.service';
+import { SEROLOGY_MARKERS, serologyService } from '../../services/serology.service';
+import { icd10Service } from '../../services/icd10.service';
+import { aboService } from '../../services/abo.service';
+import { CenterSelect } from '../Common/CenterSelect';
+import { ConditionPicker } from '../Common/ConditionPicker';
 
 interface DonorFormProps {
   donor?: Donor;
+  recipients: Recipient[]; // intended recipient options for living donors
   onSubmit: (donor: Omit<Donor, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
   onCancel: () => void;
   loading: boolean;
@@ -18,13 +26,28 @@ const COLD_ISCHEMIA_TIMES: Record<OrganType, string> = {
   heart: 'Recommended < 6 hours',
 };
 
-export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps) {
+const ETHNICITIES: { value: DonorEthnicity; label: string }[] = [
+  { value: 'african_american', label: 'African American' },
+  { value: 'white', label: 'White' },
+  { value: 'hispanic', label: 'Hispanic' },
+  { value: 'asian', label: 'Asian' },
+  { value: 'other', label: 'Other' },
+];
+
+// Yes/No/Unknown select values for nullable history flags
+const toTriState = (value: boolean | null | undefined) => value == null ? '' : value ? 'yes' : 'no';
+const fromTriState = (value: string) => value === '' ? null : value === 'yes';
+
+export function DonorForm({ donor, recipients, onSubmit, onCancel, loading }: DonorFormProps) {
   const [formData, setFormData] = useState({
+    donor_type: donor?.donor_type || 'deceased_dbd' as DonorType,
     name: donor?.name || '',
     age: donor?.age?.toString() || '',
     gender: donor?.gender || 'male' as Gender,
     blood_type: donor?.blood_type || 'O+' as BloodType,
-    organs_available: donor?.organs_available?.[0] || null as OrganType | null,
+    abo_subtype: donor?.abo_subtype || '' as AboSubtype | '',
+    split_liver_eligible: donor?.split_liver_eligible || false,
+    organs_available: donor?.organs_available || [] as OrganType[],
     hla_typing: donor?.hla_typing || {
       'HLA-A': [],
       'HLA-B': [],
@@ -34,33 +57,59 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
       'HLA-DP': [],
     },
     medical_history: donor?.medical_history || '',
+    conditions: icd10Service.normalize(donor?.conditions),
     height_cm: donor?.height_cm?.toString() || '',
     weight_kg: donor?.weight_kg?.toString() || '',
     cause_of_death: donor?.cause_of_death || '',
     cold_ischemia_time_hours: donor?.cold_ischemia_time_hours?.toString() || '',
     location: donor?.location || '',
+    center_id: donor?.center_id || null as string | null,
+    ethnicity: donor?.ethnicity || '' as DonorEthnicity | '',
+    hypertension: toTriState(donor?.hypertension),
+    diabetes: toTriState(donor?.diabetes),
+    creatinine_mg_dl: donor?.creatinine_mg_dl?.toString() || '',
+    serology: serologyService.normalize(donor?.serology),
+    intended_recipient_id: donor?.intended_recipient_id || '',
+    evaluation_checklist: donor?.evaluation_checklist || [] as string[],
+    planned_surgery_date: donor?.planned_surgery_date || '',
   });
 
+  const isLiving = formData.donor_type === 'living';
+
   const [hlaInput, setHlaInput] = useState('');
   const [selectedHlaType, setSelectedHlaType] = useState('HLA-A');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Only the fields of the chosen donor type are kept
     const dataToSubmit = {
+      donor_type: formData.donor_type,
       name: formData.name,
       age: Number(formData.age),
       gender: formData.gender,
       blood_type: formData.blood_type,
-      organs_available: formData.organs_available ? [formData.organs_available] : [],
+      abo_subtype: formData.abo_subtype || null,
+      split_liver_eligible: formData.organs_available.includes('liver') && formData.split_liver_eligible,
+      organs_available: formData.organs_available,
       hla_typing: formData.hla_typing,
       medical_history: formData.medical_history,
+      conditions: formData.conditions,
       height_cm: formData.height_cm ? Number(formData.height_cm) : null,
       weight_kg: formData.weight_kg ? Number(formData.weight_kg) : null,
-      cause_of_death: formData.cause_of_death,
-      cold_ischemia_time_hours: formData.cold_ischemia_time_hours ? Number(formData.cold_ischemia_time_hours) : null,
+      cause_of_death: isLiving ? '' : formData.cause_of_death,
+      cold_ischemia_time_hours: !isLiving && formData.cold_ischemia_time_hours ? Number(formData.cold_ischemia_time_hours) : null,
       location: formData.location,
+      center_id: formData.center_id,
       status: 'available' as const,
+      ethnicity: formData.ethnicity || null,
+      hypertension: fromTriState(formData.hypertension),
+      diabetes: fromTriState(formData.diabetes),
+      creatinine_mg_dl: formData.creatinine_mg_dl ? Number(formData.creatinine_mg_dl) : null,
+      serology: formData.serology,
+      intended_recipient_id: isLiving ? formData.intended_recipient_id || null : null,
+      evaluation_checklist: isLiving ? formData.evaluation_checklist : [],
+      planned_surgery_date: isLiving ? formData.planned_surgery_date || null : null,
     };
 
     try {
@@ -71,8 +120,57 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
     }
   };
 
-  const handleOrganChange = (organ: OrganType) => {
-    setFormData({ ...formData, organs_available: organ, cold_ischemia_time_hours: '' });
+  // A1/A2 subtyping only applies to A and AB donors
+  const subtypeOptions = aboService.getSubtypeOptions(formData.blood_type);
+
+  const handleBloodTypeChange = (bloodType: BloodType) => {
+    const keepSubtype = formData.abo_subtype && aboService.getSubtypeOptions(bloodType).includes(formData.abo_subtype);
+    setFormData({ ...formData, blood_type: bloodType, abo_subtype: keepSubtype ? formData.abo_subtype : '' });
+  };
+
+  // One entry per organ unit; a kidney may be listed twice when both are offered
+  const kidneyCount = formData.organs_available.filter(o => o === 'kidney').length;
+
+  const setOrganUnits = (organ: OrganType, count: number) => {
+    const organs = ORGAN_TYPES.flatMap(o => {
+      const units = o === organ ? count : formData.organs_available.filter(existing => existing === o).length;
+      return Array<OrganType>(units).fill(o);
+    });
+    setFormData({ ...formData, organs_available: organs });
+  };
+
+  const handleOrganToggle = (organ: OrganType) => {
+    setOrganUnits(organ, formData.organs_available.includes(organ) ? 0 : 1);
+  };
+
+  // Shortest recommended window among the selected organs
+  const citHintOrgan = (['heart', 'liver', 'kidney'] as OrganType[]).find(o => formData.organs_available.includes(o));
+
+  // Live KDPI preview while the kidney donor profile is filled in (deceased donors only)
+  const kdpiPreview = kidneyCount > 0
+    ? kdpiService.calculate({
+        donor_type: formData.donor_type,
+        age: Number(formData.age),
+        height_cm: formData.height_cm ? Number(formData.height_cm) : null,
+        weight_kg: formData.weight_kg ? Number(formData.weight_kg) : null,
+        cause_of_death: formData.cause_of_death,
+        ethnicity: formData.ethnicity || null,
+        hypertension: fromTriState(formData.hypertension),
+        diabetes: fromTriState(formData.diabetes),
+        creatinine_mg_dl: formData.creatinine_mg_dl ? Number(formData.creatinine_mg_dl) : null,
+        serology: formData.serology,
+      })
+    : null;
+
+  // Candidates a living donor can be directed to: active, or already chosen when editing
+  const intendedRecipientOptions = recipients.filter(r => r.status === 'active' || r.id === formData.intended_recipient_id);
+  const evaluation = livingDonorService.getEvaluation(formData);
+
+  const toggleChecklistItem = (code: string) => {
+    const checklist = formData.evaluation_checklist.includes(code)
+      ? formData.evaluation_checklist.filter(c => c !== code)
+      : [...formData.evaluation_checklist, code];
+    setFormData({ ...formData, evaluation_checklist: checklist });
   };
 
   const addHlaAllele = () => {
@@ -117,6 +215,28 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Donor Type */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Donor Type *
+            </label>
+            <div className="flex items-center space-x-6">
+              {(Object.keys(DONOR_TYPE_LABELS) as DonorType[]).map(type => (
+                <label key={type} className="flex items-center">
+                  <input
+                    type="radio"
+                    name="donor_type"
+                    value={type}
+                    checked={formData.donor_type === type}
+                    onChange={() => setFormData({ ...formData, donor_type: type })}
+                    className="text-red-500 focus:ring-red-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">{DONOR_TYPE_LABELS[type]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
           {/* Basic Information */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div>
@@ -188,25 +308,36 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
               <select
                 required
                 value={formData.blood_type}
-                onChange={(e) => setFormData({ ...formData, blood_type: e.target.value as BloodType })}
+                onChange={(e) => handleBloodTypeChange(e.target.value as BloodType)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
               >
                 {BLOOD_TYPES.map(type => (
                   <option key={type} value={type}>{type}</option>
                 ))}
               </select>
+              {subtypeOptions.length > 0 && (
+                <select
+                  value={formData.abo_subtype}
+                  onChange={(e) => setFormData({ ...formData, abo_subtype: e.target.value as AboSubtype | '' })}
+                  className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="">Subtype not determined</option>
+                  {subtypeOptions.map(subtype => (
+                    <option key={subtype} value={subtype}>{subtype}</option>
+                  ))}
+                </select>
+              )}
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Location
               </label>
-              <input
-                type="text"
-                value={formData.location}
-                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                placeholder="Hospital/City"
+              <CenterSelect
+                centerId={formData.center_id}
+                location={formData.location}
+                onChange={(value) => setFormData({ ...formData, ...value })}
+                accent="red"
               />
             </div>
           </div>
@@ -247,21 +378,43 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
           {/* Organs Available */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">
-              Available Organ *
+              Available Organs *
             </label>
             <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
               {ORGAN_TYPES.map(organ => (
-                <label key={organ} className="flex items-center space-x-2">
-                  <input
-                    type="radio"
-                    name="organ"
-                    value={organ}
-                    checked={formData.organs_available === organ}
-                    onChange={() => handleOrganChange(organ)}
-                    className="text-red-500 focus:ring-red-500"
-                  />
-                  <span className="text-sm text-gray-700 capitalize">{organ}</span>
-                </label>
+                <div key={organ} className="flex items-center space-x-2">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      value={organ}
+                      checked={formData.organs_available.includes(organ)}
+                      onChange={() => handleOrganToggle(organ)}
+                      className="rounded text-red-500 focus:ring-red-500"
+                    />
+                    <span className="text-sm text-gray-700 capitalize">{organ}</span>
+                  </label>
+                  {organ === 'kidney' && kidneyCount > 0 && (
+                    <select
+                      value={kidneyCount}
+                      onChange={(e) => setOrganUnits('kidney', Number(e.target.value))}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    >
+                      <option value={1}>1</option>
+                      <option value={2}>2</option>
+                    </select>
+                  )}
+                  {organ === 'liver' && formData.organs_available.includes('liver') && (
+                    <label className="flex items-center space-x-1 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={formData.split_liver_eligible}
+                        onChange={(e) => setFormData({ ...formData, split_liver_eligible: e.target.checked })}
+                        className="rounded text-red-500 focus:ring-red-500"
+                      />
+                      <span>Split eligible</span>
+                    </label>
+                  )}
+                </div>
               ))}
             </div>
           </div>
@@ -326,42 +479,206 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
             </div>
           </div>
 
-          {/* Medical Details */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Cause of Death
-              </label>
-              <input
-                type="text"
-                value={formData.cause_of_death}
-                onChange={(e) => setFormData({ ...formData, cause_of_death: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                placeholder="e.g., Brain death, Cardiac arrest"
-              />
-            </div>
-
-            {formData.organs_available && (
+          {/* Deceased Donor Details */}
+          {!isLiving && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Cold Ischemia Time (hours) *
+                  Cause of Death
                 </label>
                 <input
-                  type="number"
-                  required
-                  min="1"
-                  value={formData.cold_ischemia_time_hours}
-                  onChange={(e) => setFormData({ ...formData, cold_ischemia_time_hours: e.target.value })}
+                  type="text"
+                  value={formData.cause_of_death}
+                  onChange={(e) => setFormData({ ...formData, cause_of_death: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                  placeholder={COLD_ISCHEMIA_TIMES[formData.organs_available]}
+                  placeholder="e.g., Brain death, Cardiac arrest"
                 />
               </div>
-            )}
+
+              {citHintOrgan && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cold Ischemia Time (hours) *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="1"
+                    value={formData.cold_ischemia_time_hours}
+                    onChange={(e) => setFormData({ ...formData, cold_ischemia_time_hours: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    placeholder={COLD_ISCHEMIA_TIMES[citHintOrgan]}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Living Donor Evaluation */}
+          {isLiving && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">Living Donor Evaluation</h3>
+                <span className={`text-sm ${evaluation.cleared ? 'text-green-700 font-medium' : 'text-gray-600'}`}>
+                  {evaluation.cleared ? 'Work-up complete' : `${evaluation.completed.length} of ${livingDonorService.getChecklist().length} items complete`}
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Intended Recipient *
+                  </label>
+                  <select
+                    required
+                    value={formData.intended_recipient_id}
+                    onChange={(e) => setFormData({ ...formData, intended_recipient_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="">Select recipient</option>
+                    {intendedRecipientOptions.map(r => (
+                      <option key={r.id} value={r.id}>{r.name} ({r.blood_type}, {r.organ_needed})</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Planned Surgery Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.planned_surgery_date}
+                    onChange={(e) => setFormData({ ...formData, planned_surgery_date: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {livingDonorService.getChecklist().map(item => (
+                  <label key={item.code} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={formData.evaluation_checklist.includes(item.code)}
+                      onChange={() => toggleChecklistItem(item.code)}
+                      className="rounded text-red-500 focus:ring-red-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{item.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Kidney Donor Profile (KDPI inputs) */}
+          {kidneyCount > 0 && !isLiving && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">Kidney Donor Profile</h3>
+                <span className="text-sm text-gray-600">
+                  {kdpiPreview
+                    ? <>KDPI <span className="font-semibold text-gray-900">{kdpiPreview.kdpi}%</span> • KDRI {kdpiPreview.kdri_median.toFixed(2)}</>
+                    : 'KDPI needs height, weight and creatinine'}
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Ethnicity
+                  </label>
+                  <select
+                    value={formData.ethnicity}
+                    onChange={(e) => setFormData({ ...formData, ethnicity: e.target.value as DonorEthnicity | '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="">Not recorded</option>
+                    {ETHNICITIES.map(e => (
+                      <option key={e.value} value={e.value}>{e.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Terminal Creatinine (mg/dL)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={formData.creatinine_mg_dl}
+                    onChange={(e) => setFormData({ ...formData, creatinine_mg_dl: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    placeholder="e.g., 1.1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    History of Hypertension
+                  </label>
+                  <select
+                    value={formData.hypertension}
+                    onChange={(e) => setFormData({ ...formData, hypertension: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="">Unknown</option>
+                    <option value="yes">Yes</option>
+                    <option value="no">No</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    History of Diabetes
+                  </label>
+                  <select
+                    value={formData.diabetes}
+                    onChange={(e) => setFormData({ ...formData, diabetes: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="">Unknown</option>
+                    <option value="yes">Yes</option>
+                    <option value="no">No</option>
+                  </select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Infectious Disease Serology */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Infectious Disease Serology
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {SEROLOGY_MARKERS.map(({ marker, label }) => (
+                <div key={marker}>
+                  <label className="block text-xs text-gray-600 mb-1">{label}</label>
+                  <select
+                    value={formData.serology[marker]}
+                    onChange={(e) => setFormData({ ...formData, serology: { ...formData.serology, [marker]: e.target.value as SerologyResult } })}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 ${formData.serology[marker] === 'positive' ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
+                  >
+                    <option value="pending">Pending</option>
+                    <option value="negative">Negative</option>
+                    <option value="positive">Positive</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Coded Conditions (ICD-10-CM)
+            </label>
+            <ConditionPicker
+              conditions={formData.conditions}
+              onChange={(conditions) => setFormData({ ...formData, conditions })}
+              accent="red"
+            />
+            <p className="text-xs text-gray-500 mt-1">Exclusion and comorbidity rules are applied to these codes; the notes below are screened by keyword.</p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Medical History
+              Medical History Notes
             </label>
             <textarea
               rows={4}
@@ -383,7 +700,7 @@ export function DonorForm({ donor, onSubmit, onCancel, loading }: DonorFormProps
             </button>
             <button
               type="submit"
-              disabled={loading || !formData.organs_available}
+              disabled={loading || formData.organs_available.length === 0}
               className="px-6 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Saving...' : (donor ? 'Update Donor' : 'Add Donor')}
@@ -1,11 +1,17 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Search, Heart, Clock, Edit, Trash2, AlertCircle } from 'lucide-react';
-import { Donor } from '../../types';
+import { Donor, Recipient } from '../../types';
 import { apiService } from '../../services/api.service';
+import { kdpiService } from '../../services/kdpi.service';
+import { DONOR_TYPE_LABELS, livingDonorService } from '../../services/livingDonor.service';
+import { serologyService } from '../../services/serology.service';
+import { viabilityService } from '../../services/viability.service';
+import { useClock } from '../../context/ClockContext';
 import { DonorForm } from './DonorForm';
 
 export function DonorList() {
   const [donors, setDonors] = useState<Donor[]>([]);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [filteredDonors, setFilteredDonors] = useState<Donor[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -14,13 +20,10 @@ export function DonorList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [bloodTypeFilter, setBloodTypeFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
 
-  // Real-time viability ticker to force re-render every 30s
-  const [viabilityTick, setViabilityTick] = useState(0);
-  useEffect(() => {
-    const id = setInterval(() => setViabilityTick((t) => t + 1), 30000);
-    return () => clearInterval(id);
-  }, []);
+  // Countdowns render from the shared clock tick
+  const { now, viabilityHours } = useClock();
 
   useEffect(() => {
     loadDonors();
@@ -28,12 +31,14 @@ export function DonorList() {
 
   useEffect(() => {
     filterDonors();
-  }, [donors, searchTerm, statusFilter, bloodTypeFilter]);
+  }, [donors, searchTerm, statusFilter, bloodTypeFilter, typeFilter]);
 
   const loadDonors = async () => {
     try {
-      const data = await apiService.getDonors();
+      // Recipients are needed to name and choose living donors' intended recipients
+      const [data, recipientData] = await Promise.all([apiService.getDonors(), apiService.getRecipients()]);
       setDonors(data);
+      setRecipients(recipientData);
     } catch (error) {
       console.error('Error loading donors:', error);
     } finally {
@@ -59,6 +64,10 @@ export function DonorList() {
       filtered = filtered.filter(donor => donor.blood_type === bloodTypeFilter);
     }
 
+    if (typeFilter !== 'all') {
+      filtered = filtered.filter(donor => donor.donor_type === typeFilter);
+    }
+
     setFilteredDonors(filtered);
   };
 
@@ -96,6 +105,42 @@ export function DonorList() {
     }
   };
 
+  const renderKdpi = (donor: Donor) => {
+    const result = kdpiService.calculate(donor);
+    if (!result) {
+      return <div className="text-xs text-gray-400 mt-1">KDPI incomplete</div>;
+    }
+    const high = kdpiService.isHighKdpi(result.kdpi);
+    return (
+      <div className={`text-xs mt-1 ${high ? 'text-yellow-700 font-medium' : 'text-gray-500'}`}>
+        <span title={`KDRI ${result.kdri_median.toFixed(2)} (Rao ${result.kdri_rao.toFixed(2)})`}>
+          KDPI {result.kdpi}%
+        </span>
+      </div>
+    );
+  };
+
+  // Living donors: surgery date and work-up progress instead of an ischemia countdown
+  const renderLivingDonorStatus = (donor: Donor) => {
+    const evaluation = livingDonorService.getEvaluation(donor);
+    const recipient = recipients.find(r => r.id === donor.intended_recipient_id);
+    return (
+      <div className="text-sm">
+        <div className="text-gray-700">
+          {donor.planned_surgery_date ? `Surgery ${donor.planned_surgery_date}` : 'Surgery not scheduled'}
+        </div>
+        <div className={`text-xs ${evaluation.cleared ? 'text-green-700 font-medium' : 'text-gray-500'}`}>
+          {evaluation.cleared
+            ? 'Evaluation complete'
+            : `Evaluation ${evaluation.completed.length}/${evaluation.completed.length + evaluation.outstanding.length}`}
+        </div>
+        <div className="text-xs text-gray-500">
+          For {recipient ? recipient.name : 'no recipient selected'}
+        </div>
+      </div>
+    );
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-green-100 text-green-800';
@@ -106,21 +151,6 @@ export function DonorList() {
     }
   };
 
-  // Helpers to compute remaining viability per donor
-  const VIABILITY_DEFAULTS: Record<string, number> = { kidney: 24, heart: 6, liver: 12 };
-  const getIschemiaStartAt = (donor: Donor) => {
-    const anyDonor = donor as any;
-    return anyDonor.ischemia_start_at || anyDonor.updated_at || anyDonor.created_at;
-  };
-  const computeRemaining = (donor: Donor) => {
-    const firstOrgan = donor.organs_available?.[0] as keyof typeof VIABILITY_DEFAULTS | undefined;
-    const limit = donor.cold_ischemia_time_hours ?? (firstOrgan ? VIABILITY_DEFAULTS[firstOrgan] : 24);
-    const startIso = getIschemiaStartAt(donor);
-    if (!startIso) return limit;
-    const elapsedHrs = Math.max(0, (Date.now() - new Date(startIso).getTime()) / (1000 * 60 * 60));
-    return Math.max(0, Math.round((limit - elapsedHrs) * 10) / 10);
-  };
-
   if (loading) {
     return (
       <div className="p-8">
@@ -154,7 +184,7 @@ export function DonorList() {
 
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
             <div className="relative">
@@ -203,6 +233,20 @@ export function DonorList() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Donor Type</label>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            >
+              <option value="all">All Types</option>
+              {Object.entries(DONOR_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+
           <div className="flex items-end">
             <div className="text-sm text-gray-600">
               <span className="font-medium">{filteredDonors.length}</span> of{' '}
@@ -237,7 +281,7 @@ export function DonorList() {
                     Organs Available
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Cold Ischemia Time
+                    Ischemia / Surgery
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
@@ -249,12 +293,12 @@ export function DonorList() {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredDonors.map((donor) => {
-                  // Recompute on each render; viabilityTick triggers periodic refresh
-                  void viabilityTick;
-                  const citSet = donor.cold_ischemia_time_hours != null;
-                  const remaining = computeRemaining(donor);
-                  const isExpired = citSet && remaining <= 0;
-                  const isNearExpiry = citSet && remaining > 0 && remaining <= 1;
+                  const isLiving = livingDonorService.isLiving(donor);
+                  const viability = viabilityService.getDonorStatus(donor, now, viabilityHours);
+                  const citSet = viability.counting_down;
+                  const remaining = viability.remaining_hours;
+                  const isExpired = viability.expired;
+                  const isNearExpiry = viability.near_expiry;
 
                   return (
                     <tr key={donor.id} className="hover:bg-gray-50">
@@ -262,34 +306,46 @@ export function DonorList() {
                         <div>
                           <div className="text-sm font-medium text-gray-900">{donor.name}</div>
                           <div className="text-sm text-gray-500">
-                            Age {donor.age} • {donor.location || 'Location not specified'}
+                            {DONOR_TYPE_LABELS[donor.donor_type]} • Age {donor.age} • {donor.location || 'Location not specified'}
                           </div>
+                          {serologyService.getPositiveMarkers(donor.serology).length > 0 && (
+                            <div className="text-xs text-red-600 font-medium">
+                              {serologyService.getPositiveMarkers(donor.serology).map(m => `${serologyService.getLabel(m)}+`).join(' • ')}
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                           {donor.blood_type}
                         </span>
+                        {donor.abo_subtype && (
+                          <span className="ml-1 text-xs text-gray-500">{donor.abo_subtype}</span>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex flex-wrap gap-1">
-                          {donor.organs_available.map(organ => (
-                            <span key={organ} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 capitalize">
+                          {donor.organs_available.map((organ, i) => (
+                            <span key={`${organ}-${i}`} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 capitalize">
                               {organ}
+                              {organ === 'liver' && donor.split_liver_eligible && <span className="ml-1 normal-case">(split)</span>}
                             </span>
                           ))}
                         </div>
+                        {donor.organs_available.includes('kidney') && renderKdpi(donor)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="flex items-center space-x-1 text-gray-700">
-                          <Clock className="h-4 w-4" />
-                          <span className={`text-sm font-medium ${isExpired ? 'text-red-600' : isNearExpiry ? 'text-yellow-600' : ''}`}>
-                            {citSet ? (isExpired ? 'Expired' : `${remaining.toFixed(1)} hours`) : 'N/A'}
-                          </span>
-                          {citSet && (isExpired || isNearExpiry) && (
-                            <AlertCircle className={`h-4 w-4 ${isExpired ? 'text-red-500' : 'text-yellow-500'}`} />
-                          )}
-                        </div>
+                        {isLiving ? renderLivingDonorStatus(donor) : (
+                          <div className="flex items-center space-x-1 text-gray-700">
+                            <Clock className="h-4 w-4" />
+                            <span className={`text-sm font-medium ${isExpired ? 'text-red-600' : isNearExpiry ? 'text-yellow-600' : ''}`}>
+                              {citSet ? (isExpired ? 'Expired' : `${remaining.toFixed(1)} hours`) : 'N/A'}
+                            </span>
+                            {citSet && (isExpired || isNearExpiry) && (
+                              <AlertCircle className={`h-4 w-4 ${isExpired ? 'text-red-500' : 'text-yellow-500'}`} />
+                            )}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(donor.status)}`}>
@@ -325,6 +381,7 @@ export function DonorList() {
       {showForm && (
         <DonorForm
           donor={editingDonor ?? undefined}
+          recipients={recipients}
           onSubmit={handleSubmit}
           onCancel={() => {
             setShowForm(false);
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { History, Radio } from 'lucide-react';
+import { useClock } from '../../context/ClockContext';
+
+// datetime-local value in the browser's time zone
+const toLocalInput = (at: number) => {
+  const date = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Switches every countdown and match ranking between live time and a replayed moment
+export function ReplayBar() {
+  const { now, replayAt, setReplayAt } = useClock();
+  const [input, setInput] = useState('');
+
+  const startReplay = () => {
+    const at = new Date(input).getTime();
+    if (!Number.isNaN(at)) setReplayAt(at);
+  };
+
+  if (replayAt !== null) {
+    return (
+      <div className="bg-amber-50 border-b border-amber-200 px-8 py-3 flex items-center justify-between">
+        <div className="flex items-center text-amber-800 text-sm">
+          <History className="h-4 w-4 mr-2" />
+          <span>
+            Replaying as of <span className="font-semibold">{new Date(replayAt).toLocaleString()}</span>.
+            Countdowns and rankings use this time; donor and recipient records are current. Allocation is disabled.
+          </span>
+        </div>
+        <button
+          onClick={() => setReplayAt(null)}
+          className="flex items-center px-3 py-1.5 text-sm font-medium text-amber-800 border border-amber-300 rounded-lg hover:bg-amber-100 transition-colors"
+        >
+          <Radio className="h-4 w-4 mr-1.5" />
+          Back to live
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-8 py-2 flex items-center justify-end space-x-2 text-sm">
+      <label htmlFor="replay-at" className="text-gray-600">Replay as of</label>
+      <input
+        id="replay-at"
+        type="datetime-local"
+        value={input}
+        max={toLocalInput(now)}
+        onChange={(e) => setInput(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+      />
+      <button
+        onClick={startReplay}
+        disabled={!input}
+        className="flex items-center px-3 py-1 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+      >
+        <History className="h-4 w-4 mr-1.5" />
+        Replay
+      </button>
+    </div>
+  );
+}
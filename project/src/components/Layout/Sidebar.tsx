@@ -6,7 +6,10 @@ import {
   Activity, 
   BarChart3, 
   LogOut,
-  Settings
+  Settings,
+  FileText,
+  GitMerge,
+  Repeat
 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
 
@@ -23,7 +26,10 @@ export function Sidebar({ currentView, onViewChange }: SidebarProps) {
     { id: 'donors', label: 'Donors', icon: Heart },
     { id: 'recipients', label: 'Recipients', icon: Users },
     { id: 'matching', label: 'Matching', icon: Activity },
+    { id: 'batch', label: 'Batch Allocation', icon: GitMerge },
+    { id: 'kpd', label: 'Paired Donation', icon: Repeat },
     { id: 'allocations', label: 'Allocations', icon: UserPlus },
+    { id: 'policy', label: 'Policy', icon: FileText },
   ];
 
   return (
@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { X, AlertTriangle, Calendar, FileText, User, Heart } from 'lucide-react';
 import { Donor, MatchResult, Allocation } from '../../types';
 import { apiService } from '../../services/api.service';
+import { hlaService } from '../../services/hla.service';
+import { aboService, BLOOD_COMPATIBILITY_LABELS } from '../../services/abo.service';
 import { useAuth } from '../../context/AuthContext';
+import { useClock } from '../../context/ClockContext';
+import { useViability } from '../../hooks/useViability';
 
 interface AllocationModalProps {
   donor: Donor;
@@ -19,40 +23,16 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
     notes: '',
   });
 
-  // Real-time remaining viability calculation
-  const VIABILITY_DEFAULTS: Record<string, number> = { kidney: 24, heart: 6, liver: 12 };
-  const getIschemiaStartAt = () => {
-    const anyDonor = donor as any;
-    return anyDonor.ischemia_start_at || anyDonor.updated_at || anyDonor.created_at;
-  };
-  const computeRemaining = () => {
-    const organ = match.recipient.organ_needed as keyof typeof VIABILITY_DEFAULTS;
-    const limit = donor.cold_ischemia_time_hours ?? VIABILITY_DEFAULTS[organ] ?? 24;
-    const startIso = getIschemiaStartAt();
-    if (!startIso) return limit;
-    const elapsedHrs = Math.max(0, (Date.now() - new Date(startIso).getTime()) / (1000 * 60 * 60));
-    return Math.max(0, Math.round((limit - elapsedHrs) * 10) / 10);
-  };
-
-  // Replace static viability read with live state
-  const [remainingViability, setRemainingViability] = useState<number>(() => computeRemaining());
-  useEffect(() => {
-    setRemainingViability(computeRemaining());
-    const id = setInterval(() => setRemainingViability(computeRemaining()), 30000); // update every 30s
-    return () => clearInterval(id);
-  }, [
-    donor.cold_ischemia_time_hours,
-    (donor as any).ischemia_start_at,
-    (donor as any).updated_at,
-    match.recipient.organ_needed,
-  ]);
-
-  const isExpired = remainingViability <= 0;
-  const isNearExpiry = !isExpired && remainingViability <= 1;
+  // Remaining viability on the shared clock; allocations cannot be made while replaying a past moment
+  const { replayAt } = useClock();
+  const viability = useViability(donor, match.organ);
+  const remainingViability = viability.remaining_hours;
+  const isExpired = viability.expired;
+  const isNearExpiry = viability.near_expiry;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (isExpired) {
+    if (isExpired || replayAt !== null) {
       // Prevent allocation if organ is no longer viable
       return;
     }
@@ -62,7 +42,7 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
       const allocationData: Omit<Allocation, 'id' | 'created_at'> = {
         donor_id: donor.id,
         recipient_id: match.recipient.id,
-        organ_type: match.recipient.organ_needed,
+        organ_type: match.organ,
         match_score: match.match_score,
         risk_level: match.risk_level,
         risk_percentage: match.risk_percentage,
@@ -73,6 +53,10 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
         status: 'pending',
         notes: formData.notes || null,
         allocated_by: user?.id || null,
+        policy_version_id: match.policy_version_id,
+        exchange_id: null,
+        graft_outcome: null,
+        graft_outcome_date: null,
       };
 
       await apiService.createAllocation(allocationData);
@@ -146,6 +130,7 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
                   <p><span className="font-medium">Name:</span> {donor.name}</p>
                   <p><span className="font-medium">Age:</span> {donor.age}</p>
                   <p><span className="font-medium">Blood Type:</span> {donor.blood_type}</p>
+                  <p><span className="font-medium">Organ:</span> <span className="capitalize">{match.organ}</span></p>
                   <p><span className="font-medium">Location:</span> {donor.location || 'Not specified'}</p>
                 </div>
               </div>
@@ -246,14 +231,27 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
               <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
                 <div>
                   <span className="text-gray-600">Blood Compatibility:</span>
-                  <span className={`ml-2 font-medium ${match.compatibility_factors.blood_compatibility ? 'text-green-600' : 'text-red-600'}`}>
-                    {match.compatibility_factors.blood_compatibility ? 'Yes' : 'No'}
+                  <span className={`ml-2 font-medium ${aboService.usesPathway(match.compatibility_factors.abo) ? 'text-yellow-600' : match.compatibility_factors.blood_compatibility ? 'text-green-600' : 'text-red-600'}`}>
+                    {BLOOD_COMPATIBILITY_LABELS[match.compatibility_factors.abo.class]}
                   </span>
+                  {aboService.usesPathway(match.compatibility_factors.abo) && (
+                    <p className="text-xs text-gray-500">{match.compatibility_factors.abo.detail}</p>
+                  )}
                 </div>
                 <div>
                   <span className="text-gray-600">HLA Compatibility:</span>
                   <span className="ml-2 font-medium text-blue-600">
-                    {(match.compatibility_factors.hla_compatibility * 100).toFixed(0)}%
+                    {match.compatibility_factors.hla_compatibility === null
+                      ? 'Typing incomplete'
+                      : `${(match.compatibility_factors.hla_compatibility * 100).toFixed(0)}%`}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-gray-600">HLA Mismatch (A-B-DR):</span>
+                  <span className="ml-2 font-medium text-blue-600">
+                    {hlaService.formatMismatch(match.compatibility_factors.hla_mismatch)}
+                    {match.compatibility_factors.hla_mismatch.total !== null && ` (${match.compatibility_factors.hla_mismatch.total}/6)`}
+                    {match.compatibility_factors.hla_mismatch.zero_mismatch && ' · 0-MM'}
                   </span>
                 </div>
                 <div>
@@ -263,9 +261,11 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
                   </span>
                 </div>
                 <div>
-                  <span className="text-gray-600">Size Compatibility:</span>
+                  <span className="text-gray-600">Size:</span>
                   <span className={`ml-2 font-medium ${match.compatibility_factors.size_compatibility ? 'text-green-600' : 'text-red-600'}`}>
-                    {match.compatibility_factors.size_compatibility ? 'Yes' : 'No'}
+                    {match.compatibility_factors.size
+                      ? `${match.compatibility_factors.size.summary} (${(match.compatibility_factors.size.score * 100).toFixed(0)}%)`
+                      : match.compatibility_factors.size_compatibility ? 'Yes' : 'No'}
                   </span>
                 </div>
                 <div>
@@ -288,9 +288,9 @@ export function AllocationModal({ donor, match, onClose, onComplete }: Allocatio
               </button>
               <button
                 type="submit"
-                disabled={loading || isExpired}
+                disabled={loading || isExpired || replayAt !== null}
                 className={`px-6 py-2 rounded-lg text-white ${isExpired ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'} disabled:opacity-50 disabled:cursor-not-allowed`}
-                title={isExpired ? 'Organ is no longer viable' : undefined}
+                title={isExpired ? 'Organ is no longer viable' : replayAt !== null ? 'Return to live time to allocate' : undefined}
               >
                 {loading ? 'Creating Allocation...' : 'Confirm Allocation'}
               </button>
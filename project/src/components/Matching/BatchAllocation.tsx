@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { GitMerge, RefreshCw, AlertTriangle, MapPin } from 'lucide-react';
+import { BatchAllocationPair, BatchAllocationProposal } from '../../types';
+import { apiService } from '../../services/api.service';
+import { AllocationModal } from './AllocationModal';
+import { useClock } from '../../context/ClockContext';
+
+const getUrgencyColor = (urgency: string) => {
+  switch (urgency) {
+    case 'critical': return 'bg-red-100 text-red-800';
+    case 'urgent': return 'bg-yellow-100 text-yellow-800';
+    default: return 'bg-green-100 text-green-800';
+  }
+};
+
+// Proposed allocation across all available donors; pairs are only saved one at a
+// time through the allocation modal, after which the proposal is recomputed.
+export function BatchAllocation() {
+  const [proposal, setProposal] = useState<BatchAllocationProposal | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPair, setSelectedPair] = useState<BatchAllocationPair | null>(null);
+  const { clock } = useClock();
+
+  // A proposal computed at another moment no longer applies
+  useEffect(() => {
+    setProposal(null);
+  }, [clock]);
+
+  const computeProposal = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProposal(await apiService.proposeBatchAllocation(clock));
+    } catch (err) {
+      console.error('Error computing batch allocation:', err);
+      setError('Could not compute a batch allocation.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAllocationComplete = async () => {
+    setSelectedPair(null);
+    await computeProposal();
+  };
+
+  const gain = proposal ? proposal.total_score - proposal.sequential_total_score : 0;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Batch Allocation</h1>
+          <p className="text-gray-600 mt-2">
+            Propose recipients for all available donors together, so no recipient is offered two organs
+          </p>
+        </div>
+        <button
+          onClick={computeProposal}
+          disabled={loading}
+          className="flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          {proposal ? 'Recompute' : 'Compute proposal'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">{error}</div>
+      )}
+
+      {!proposal && !loading && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <GitMerge className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No proposal yet</h3>
+          <p className="text-gray-500">Compute a proposal to review it before allocating.</p>
+        </div>
+      )}
+
+      {proposal && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <p className="text-sm font-medium text-gray-600">Proposed Pairs</p>
+              <p className="text-3xl font-bold text-gray-900 mt-2">{proposal.pairs.length}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <p className="text-sm font-medium text-gray-600">Total Points</p>
+              <p className="text-3xl font-bold text-gray-900 mt-2">{proposal.total_score.toFixed(1)}</p>
+            </div>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <p className="text-sm font-medium text-gray-600">vs. One Donor at a Time</p>
+              <p className={`text-3xl font-bold mt-2 ${gain > 0.005 ? 'text-green-600' : 'text-gray-900'}`}>
+                {gain > 0.005 ? `+${gain.toFixed(1)}` : '±0'}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">Sequential total {proposal.sequential_total_score.toFixed(1)}</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">Proposed Pairs</h3>
+              <span className="text-xs text-gray-500">
+                Generated {new Date(proposal.generated_at).toLocaleString()} • Policy {proposal.policy_version_id ?? 'built-in default'}
+              </span>
+            </div>
+            {proposal.pairs.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No donor has an eligible recipient.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Donor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Organ</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Urgency</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {proposal.pairs.map(pair => (
+                    <tr key={`${pair.donor.id}-${pair.match.organ}-${pair.match.recipient.id}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{pair.donor.name}</div>
+                        <div className="text-xs text-gray-500">{pair.donor.blood_type} • Age {pair.donor.age}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 capitalize">
+                          {pair.match.organ}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{pair.match.recipient.name}</div>
+                        <div className="text-xs text-gray-500 flex items-center">
+                          {pair.match.recipient.blood_type} • Age {pair.match.recipient.age}
+                          {pair.match.distance_km !== null && (
+                            <span className="inline-flex items-center ml-2">
+                              <MapPin className="h-3 w-3 mr-0.5" />
+                              {pair.match.distance_km} km
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                        {pair.match.compatibility_factors.raw_score.toFixed(1)}
+                        <span className="block text-xs font-normal text-gray-500">{pair.match.match_score.toFixed(1)}%</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getUrgencyColor(pair.match.urgency_level)}`}>
+                          {pair.match.urgency_level.toUpperCase()}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button
+                          onClick={() => setSelectedPair(pair)}
+                          className="bg-green-500 text-white px-3 py-1.5 rounded-lg hover:bg-green-600 text-sm font-medium"
+                        >
+                          Allocate
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {proposal.unfilled.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+              <div className="p-4 border-b border-gray-200 flex items-center space-x-2">
+                <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                <h3 className="font-semibold text-gray-900">Organs Without a Recipient</h3>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {proposal.unfilled.map((unit, i) => (
+                  <li key={`${unit.donor.id}-${unit.organ}-${i}`} className="px-6 py-3 flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{unit.donor.name}</p>
+                      <p className="text-xs text-gray-600">{unit.reason}</p>
+                    </div>
+                    <span className="ml-4 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 capitalize">
+                      {unit.organ}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      {selectedPair && (
+        <AllocationModal
+          donor={selectedPair.donor}
+          match={selectedPair.match}
+          onClose={() => setSelectedPair(null)}
+          onComplete={handleAllocationComplete}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Search, Heart, Clock, MapPin } from 'lucide-react';
 import { Donor } from '../../types';
+import { kdpiService } from '../../services/kdpi.service';
 
 interface DonorSelectorProps {
   donors: Donor[];
@@ -67,6 +68,7 @@ export function DonorSelector({ donors, selectedDonor, onDonorSelect, loading }:
           <div className="divide-y divide-gray-200">
             {filteredDonors.map((donor) => {
               const isSelected = selectedDonor?.id === donor.id;
+              const kdpi = donor.organs_available.includes('kidney') ? kdpiService.calculate(donor) : null;
               
               return (
                 <button
@@ -91,19 +93,33 @@ export function DonorSelector({ donors, selectedDonor, onDonorSelect, loading }:
                       </div>
                       
                       <div className="flex flex-wrap gap-1 mb-2">
-                        {donor.organs_available.map(organ => (
-                          <span key={organ} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 capitalize">
+                        {donor.organs_available.map((organ, i) => (
+                          <span key={`${organ}-${i}`} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 capitalize">
                             {organ}
                           </span>
                         ))}
+                        {kdpi && (
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${kdpiService.isHighKdpi(kdpi.kdpi) ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'}`}>
+                            KDPI {kdpi.kdpi}%
+                          </span>
+                        )}
                       </div>
                       
-                      <div className={`flex items-center space-x-1 ${donor.cold_ischemia_time_hours && donor.cold_ischemia_time_hours <= 6 ? 'text-red-600' : 'text-gray-600'}`}>
-                        <Clock className="h-3 w-3" />
-                        <span className="text-xs font-medium">
-                          {donor.cold_ischemia_time_hours ? `${donor.cold_ischemia_time_hours}h ischemia time` : 'Ischemia time not set'}
-                        </span>
-                      </div>
+                      {donor.donor_type === 'living' ? (
+                        <div className="flex items-center space-x-1 text-gray-600">
+                          <Clock className="h-3 w-3" />
+                          <span className="text-xs font-medium">
+                            Living donor • {donor.planned_surgery_date ? `surgery ${donor.planned_surgery_date}` : 'surgery not scheduled'}
+                          </span>
+                        </div>
+                      ) : (
+                        <div className={`flex items-center space-x-1 ${donor.cold_ischemia_time_hours && donor.cold_ischemia_time_hours <= 6 ? 'text-red-600' : 'text-gray-600'}`}>
+                          <Clock className="h-3 w-3" />
+                          <span className="text-xs font-medium">
+                            {donor.cold_ischemia_time_hours ? `${donor.cold_ischemia_time_hours}h ischemia time` : 'Ischemia time not set'}
+                          </span>
+                        </div>
+                      )}
                     </div>
                     
                     {isSelected && loading && (
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, UserX } from 'lucide-react';
+import { ExclusionReason, OrganMatchResults } from '../../types';
+import { HighlightedExcerpt } from '../Common/HighlightedExcerpt';
+
+interface ExcludedCandidatesPanelProps {
+  organResults: OrganMatchResults[];
+}
+
+const REASON_LABELS: Record<ExclusionReason, string> = {
+  inactive: 'Inactive',
+  blood_type: 'Blood type',
+  recipient_ineligible: 'Not eligible',
+  unacceptable_antigens: 'Unacceptable antigen',
+  age_difference: 'Age difference',
+  transport_time: 'Too far',
+  serology_consent: 'No serology consent',
+  below_threshold: 'Score too low',
+  scoring_error: 'Scoring error',
+};
+
+const getReasonColor = (reason: ExclusionReason) => {
+  switch (reason) {
+    case 'blood_type':
+    case 'unacceptable_antigens':
+      return 'bg-red-100 text-red-800';
+    case 'recipient_ineligible':
+    case 'age_difference':
+    case 'transport_time':
+    case 'serology_consent':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export function ExcludedCandidatesPanel({ organResults }: ExcludedCandidatesPanelProps) {
+  const [open, setOpen] = useState(false);
+  const groups = organResults.filter(group => group.excluded.length > 0);
+  const total = groups.reduce((sum, group) => sum + group.excluded.length, 0);
+
+  if (total === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full p-4 flex items-center justify-between text-left"
+      >
+        <div className="flex items-center space-x-2">
+          <UserX className="h-5 w-5 text-gray-500" />
+          <span className="font-semibold text-gray-900">Not eligible</span>
+          <span className="text-sm text-gray-500">
+            {total} candidate{total !== 1 ? 's' : ''} waiting for these organs
+          </span>
+        </div>
+        {open ? <ChevronDown className="h-5 w-5 text-gray-400" /> : <ChevronRight className="h-5 w-5 text-gray-400" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200 divide-y divide-gray-200">
+          {groups.map(group => (
+            <div key={group.organ}>
+              <div className="px-6 py-2 bg-gray-50 text-sm font-semibold text-gray-900 capitalize">{group.organ}</div>
+              <ul className="divide-y divide-gray-100">
+                {group.excluded.map(candidate => (
+                  <li key={candidate.recipient.id} className="px-6 py-3 flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{candidate.recipient.name}</p>
+                      <p className="text-xs text-gray-600">{candidate.detail}</p>
+                      {candidate.trigger && (
+                        <HighlightedExcerpt text={candidate.recipient.medical_history} start={candidate.trigger.start} end={candidate.trigger.end} />
+                      )}
+                    </div>
+                    <span className={`ml-4 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${getReasonColor(candidate.reason)}`}>
+                      {REASON_LABELS[candidate.reason]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,25 @@
-import { Users, AlertTriangle, Clock, Activity, CheckCircle, XCircle, Heart } from 'lucide-react';
-import { Donor, MatchResult } from '../../types';
+import { useState } from 'react';
+import { Users, AlertTriangle, Clock, Activity, CheckCircle, XCircle, Heart, ChevronDown, ChevronUp, MapPin } from 'lucide-react';
+import { Donor, HeartStatusAssessment, MatchResult, OrganMatchResults, SizeAssessment } from '../../types';
+import { hlaService } from '../../services/hla.service';
+import { heartStatusService } from '../../services/heartStatus.service';
+import { aboService, BLOOD_COMPATIBILITY_LABELS } from '../../services/abo.service';
+import { sizeMatchingService } from '../../services/sizeMatching.service';
+import { ScoreWaterfall } from '../Common/ScoreWaterfall';
+import { RiskBreakdown } from '../Common/RiskBreakdown';
+import { HighlightedExcerpt } from '../Common/HighlightedExcerpt';
 
 interface MatchResultsProps {
-  matches: MatchResult[];
+  organResults: OrganMatchResults[];
   selectedDonor: Donor | null;
   loading: boolean;
   onCreateAllocation: (match: MatchResult) => void;
 }
 
-export function MatchResults({ matches, selectedDonor, loading, onCreateAllocation }: MatchResultsProps) {
+export function MatchResults({ organResults, selectedDonor, loading, onCreateAllocation }: MatchResultsProps) {
+  const matches = organResults.flatMap(group => group.matches);
+  const [expandedBreakdown, setExpandedBreakdown] = useState<string | null>(null);
+
   const getUrgencyColor = (urgencyLevel: string) => {
     switch (urgencyLevel) {
       case 'critical': return 'text-red-600 bg-red-50';
@@ -33,6 +44,234 @@ export function MatchResults({ matches, selectedDonor, loading, onCreateAllocati
     return 'text-red-600';
   };
 
+  // Tier and the criterion/justification it was listed under
+  const renderHeartStatus = (heartStatus: HeartStatusAssessment) => (
+    <div className="mb-3 text-xs bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+      <p className={`font-semibold ${heartStatus.expired ? 'text-yellow-700' : 'text-red-800'}`}>
+        {heartStatusService.formatStatus(heartStatus)}
+        {heartStatus.criterion && <span className="font-normal text-gray-700"> — {heartStatus.criterion.label}</span>}
+      </p>
+      {heartStatus.justification && <p className="text-gray-600 mt-0.5">{heartStatus.justification}</p>}
+      {heartStatus.expires_at && (
+        <p className="text-gray-500 mt-0.5">
+          {heartStatus.expired ? 'Expired' : 'Expires'} {heartStatus.expires_at}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderSize = (size: SizeAssessment) => (
+    <div className="mb-4 text-xs bg-gray-50 border border-gray-100 rounded-lg px-3 py-2" title={size.rule}>
+      <div className="flex items-center space-x-2">
+        <span className="text-gray-600">Size:</span>
+        <span className={`font-semibold ${size.score >= 1 ? 'text-green-600' : size.score > 0 ? 'text-yellow-600' : 'text-red-600'}`}>
+          {size.summary} ({(size.score * 100).toFixed(0)}%)
+        </span>
+        {size.split_graft && (
+          <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+            Split graft
+          </span>
+        )}
+        {!size.complete && <span className="text-yellow-700">Incomplete measurements</span>}
+      </div>
+      {size.metrics.length > 0 && (
+        <p className="text-gray-500 mt-0.5">
+          {size.metrics.map(m => `${m.label} ${sizeMatchingService.formatMetric(m)}`).join(' • ')}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderMatch = (group: OrganMatchResults, match: MatchResult, unitsRemaining: number) => {
+    const matchKey = `${group.organ}-${match.recipient.id}`;
+    return (
+    <div key={matchKey} className="p-6 hover:bg-gray-50">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex-1">
+          <div className="flex items-center space-x-3 mb-2">
+            <h4 className="font-semibold text-gray-900">{match.recipient.name}</h4>
+            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getUrgencyColor(match.urgency_level)}`}>
+              {match.urgency_level === 'critical' && <AlertTriangle className="h-3 w-3 mr-1" />}
+              {match.urgency_level.toUpperCase()}
+            </span>
+            {match.compatibility_factors.longevity_priority && (
+              <span
+                className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                title="Top-EPTS candidate ranked first for a top-KDPI kidney"
+              >
+                Longevity match
+              </span>
+            )}
+            {match.compatibility_factors.pediatric_priority && (
+              <span
+                className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                title="Pediatric candidate offered a young donor"
+              >
+                Pediatric priority
+              </span>
+            )}
+          </div>
+          
+          <div className="text-sm text-gray-600 mb-3">
+            Age {match.recipient.age} • {match.recipient.location || 'Location not specified'}
+            {match.distance_km !== null && (
+              <span className="inline-flex items-center ml-2 text-gray-500">
+                <MapPin className="h-3 w-3 mr-1" />
+                {match.distance_km} km • ~{match.transport_eta_hours}h transport
+              </span>
+            )}
+          </div>
+          {match.compatibility_factors.heart_status && renderHeartStatus(match.compatibility_factors.heart_status)}
+
+          {/* Match Details */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Match Score</p>
+              <p className={`text-lg font-bold ${getMatchScoreColor(match.match_score)}`}>
+                {match.match_score.toFixed(1)}%
+              </p>
+            </div>
+            
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Risk Level</p>
+              <p className={`text-sm font-semibold capitalize ${getRiskColor(match.risk_level)}`}>
+                {match.risk_level}
+              </p>
+              {aboService.usesPathway(match.compatibility_factors.abo) && (
+                <span className="inline-flex items-center mr-1 px-1.5 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800" title={match.compatibility_factors.abo.detail}>
+                  {BLOOD_COMPATIBILITY_LABELS[match.compatibility_factors.abo.class]}
+                </span>
+              )}
+              {match.compatibility_factors.viral_serostatus.filter(v => v.high_risk).map(v => (
+                <span key={v.virus} className="inline-flex items-center mr-1 px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                  {v.virus.toUpperCase()} D+/R-
+                </span>
+              ))}
+            </div>
+            
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Cold Ischemia Time</p>
+              <div className="flex items-center space-x-1">
+                <Clock className="h-3 w-3 text-gray-400" />
+                <span className="text-sm font-medium text-gray-700">
+                  {match.cold_ischemia_time}
+                </span>
+              </div>
+            </div>
+            
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Organ</p>
+              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                {match.recipient.organ_needed}
+              </span>
+            </div>
+          </div>
+
+          {/* Compatibility Factors */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
+            <div className="flex items-center space-x-2">
+              {aboService.usesPathway(match.compatibility_factors.abo) ? (
+                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+              ) : match.compatibility_factors.blood_compatibility ? (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-red-500" />
+              )}
+              <span className="text-xs text-gray-600">{BLOOD_COMPATIBILITY_LABELS[match.compatibility_factors.abo.class]}</span>
+            </div>
+            
+            <div className="flex items-center space-x-2">
+              <Activity className="h-4 w-4 text-blue-500" />
+              <span className="text-xs text-gray-600">
+                HLA: {match.compatibility_factors.hla_compatibility === null
+                  ? 'Typing incomplete'
+                  : `${(match.compatibility_factors.hla_compatibility * 100).toFixed(0)}%`}
+              </span>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Activity className="h-4 w-4 text-indigo-500" />
+              <span className="text-xs text-gray-600">
+                MM {hlaService.formatMismatch(match.compatibility_factors.hla_mismatch)}
+                {match.compatibility_factors.hla_mismatch.total !== null && ` (${match.compatibility_factors.hla_mismatch.total}/6)`}
+              </span>
+              {match.compatibility_factors.hla_mismatch.zero_mismatch && (
+                <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                  0-MM
+                </span>
+              )}
+            </div>
+            
+            <div className="flex items-center space-x-2">
+              {match.compatibility_factors.age_compatibility ? (
+                <CheckCircle className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-red-500" />
+              )}
+              <span className="text-xs text-gray-600">Age Compatible</span>
+            </div>
+          </div>
+          {match.compatibility_factors.size && renderSize(match.compatibility_factors.size)}
+        </div>
+
+        <div className="ml-4">
+          <button
+            onClick={() => onCreateAllocation(match)}
+            disabled={unitsRemaining <= 0}
+            className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Allocate
+          </button>
+        </div>
+      </div>
+
+      {/* Additional Info */}
+      <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          <span>Urgency Score: {match.recipient.urgency_score}/10</span>
+          <span>
+            Risk: {match.risk_percentage?.toFixed(1)}%
+            {match.compatibility_factors.risk_prediction && ` (CI ${match.compatibility_factors.risk_prediction.ci_low.toFixed(1)}–${match.compatibility_factors.risk_prediction.ci_high.toFixed(1)}%)`}
+          </span>
+          <span>Urgency Bonus: +{match.compatibility_factors.urgency_bonus.toFixed(1)}</span>
+          <span>Waiting: {(match.compatibility_factors.waiting_days / 365.25).toFixed(1)} yrs</span>
+          {match.compatibility_factors.epts != null && (
+            <span>EPTS: {match.compatibility_factors.epts}%</span>
+          )}
+          <span>
+            cPRA: {match.compatibility_factors.cpra.toFixed(1)}%
+            {match.compatibility_factors.sensitization_bonus > 0 && ` (+${match.compatibility_factors.sensitization_bonus})`}
+          </span>
+        </div>
+      </div>
+
+      {/* Score Breakdown */}
+      <button
+        onClick={() => setExpandedBreakdown(expandedBreakdown === matchKey ? null : matchKey)}
+        className="mt-3 flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+      >
+        {expandedBreakdown === matchKey ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+        Score and risk breakdown
+      </button>
+      {expandedBreakdown === matchKey && (
+        <div className="mt-3 grid grid-cols-1 lg:grid-cols-3 gap-3">
+          <div className="lg:col-span-2 border border-gray-200 rounded-lg p-3">
+            <ScoreWaterfall components={match.compatibility_factors.score_breakdown} finalScore={match.match_score} maxScore={match.compatibility_factors.max_score} />
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <RiskBreakdown
+              components={match.compatibility_factors.risk_breakdown}
+              riskPercentage={match.risk_percentage}
+              viralSerostatus={match.compatibility_factors.viral_serostatus}
+              prediction={match.compatibility_factors.risk_prediction}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+    );
+  };
+
   if (!selectedDonor) {
     return (
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
@@ -74,8 +313,8 @@ export function MatchResults({ matches, selectedDonor, loading, onCreateAllocati
               {selectedDonor.blood_type}
             </span>
             <div className="flex space-x-1">
-              {selectedDonor.organs_available.map(organ => (
-                <span key={organ} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 capitalize">
+              {selectedDonor.organs_available.map((organ, i) => (
+                <span key={`${organ}-${i}`} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 capitalize">
                   {organ}
                 </span>
               ))}
@@ -85,7 +324,7 @@ export function MatchResults({ matches, selectedDonor, loading, onCreateAllocati
       </div>
 
       <div className="max-h-96 overflow-y-auto">
-        {matches.length === 0 ? (
+        {organResults.length === 0 ? (
           <div className="p-8 text-center">
             <Heart className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No Compatible Matches</h3>
@@ -95,105 +334,41 @@ export function MatchResults({ matches, selectedDonor, loading, onCreateAllocati
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
-            {matches.map((match, index) => (
-              <div key={match.recipient.id} className="p-6 hover:bg-gray-50">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h4 className="font-semibold text-gray-900">{match.recipient.name}</h4>
-                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getUrgencyColor(match.urgency_level)}`}>
-                        {match.urgency_level === 'critical' && <AlertTriangle className="h-3 w-3 mr-1" />}
-                        {match.urgency_level.toUpperCase()}
-                      </span>
-                    </div>
-                    
-                    <div className="text-sm text-gray-600 mb-3">
-                      Age {match.recipient.age} • {match.recipient.location || 'Location not specified'}
-                    </div>
-
-                    {/* Match Details */}
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-                      <div>
-                        <p className="text-xs text-gray-500 mb-1">Match Score</p>
-                        <p className={`text-lg font-bold ${getMatchScoreColor(match.match_score)}`}>
-                          {match.match_score.toFixed(1)}%
-                        </p>
-                      </div>
-                      
-                      <div>
-                        <p className="text-xs text-gray-500 mb-1">Risk Level</p>
-                        <p className={`text-sm font-semibold capitalize ${getRiskColor(match.risk_level)}`}>
-                          {match.risk_level}
-                        </p>
-                      </div>
-                      
-                      <div>
-                        <p className="text-xs text-gray-500 mb-1">Cold Ischemia Time</p>
-                        <div className="flex items-center space-x-1">
-                          <Clock className="h-3 w-3 text-gray-400" />
-                          <span className="text-sm font-medium text-gray-700">
-                            {match.cold_ischemia_time}
-                          </span>
+            {organResults.map(group => {
+              const unitsRemaining = group.units_available - group.units_allocated;
+              return (
+                <div key={group.organ}>
+                  <div className="px-6 py-3 bg-gray-50 flex items-center justify-between">
+                    <h4 className="text-sm font-semibold text-gray-900 capitalize">{group.organ}</h4>
+                    <span className="text-xs text-gray-600">
+                      {unitsRemaining} of {group.units_available} available • {group.matches.length} match{group.matches.length !== 1 ? 'es' : ''}
+                    </span>
+                  </div>
+                  {group.donor_ineligible_reason ? (
+                    <div className="px-6 py-4 text-sm text-red-700 bg-red-50">
+                      Donor not eligible: {group.donor_ineligible_reason}
+                      {group.donor_ineligible_trigger && (
+                        <div className="mt-1">
+                          <HighlightedExcerpt
+                            text={selectedDonor[group.donor_ineligible_trigger.field]}
+                            start={group.donor_ineligible_trigger.start}
+                            end={group.donor_ineligible_trigger.end}
+                          />
                         </div>
-                      </div>
-                      
-                      <div>
-                        <p className="text-xs text-gray-500 mb-1">Organ</p>
-                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
-                          {match.recipient.organ_needed}
-                        </span>
-                      </div>
+                      )}
                     </div>
-
-                    {/* Compatibility Factors */}
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
-                      <div className="flex items-center space-x-2">
-                        {match.compatibility_factors.blood_compatibility ? (
-                          <CheckCircle className="h-4 w-4 text-green-500" />
-                        ) : (
-                          <XCircle className="h-4 w-4 text-red-500" />
-                        )}
-                        <span className="text-xs text-gray-600">Blood Compatible</span>
-                      </div>
-                      
-                      <div className="flex items-center space-x-2">
-                        <Activity className="h-4 w-4 text-blue-500" />
-                        <span className="text-xs text-gray-600">
-                          HLA: {(match.compatibility_factors.hla_compatibility * 100).toFixed(0)}%
-                        </span>
-                      </div>
-                      
-                      <div className="flex items-center space-x-2">
-                        {match.compatibility_factors.age_compatibility ? (
-                          <CheckCircle className="h-4 w-4 text-green-500" />
-                        ) : (
-                          <XCircle className="h-4 w-4 text-red-500" />
-                        )}
-                        <span className="text-xs text-gray-600">Age Compatible</span>
-                      </div>
+                  ) : unitsRemaining <= 0 ? (
+                    <div className="px-6 py-4 text-sm text-gray-500">All {group.organ} units have been allocated.</div>
+                  ) : group.matches.length === 0 ? (
+                    <div className="px-6 py-4 text-sm text-gray-500">No compatible recipients for this organ.</div>
+                  ) : (
+                    <div className="divide-y divide-gray-200">
+                      {group.matches.map(match => renderMatch(group, match, unitsRemaining))}
                     </div>
-                  </div>
-
-                  <div className="ml-4">
-                    <button
-                      onClick={() => onCreateAllocation(match)}
-                      className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors text-sm font-medium"
-                    >
-                      Allocate
-                    </button>
-                  </div>
+                  )}
                 </div>
-
-                {/* Additional Info */}
-                <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                    <span>Urgency Score: {match.recipient.urgency_score}/10</span>
-                    <span>Risk: {match.risk_percentage?.toFixed(1)}%</span>
-                    <span>Urgency Bonus: +{match.compatibility_factors.urgency_bonus.toFixed(1)}</span>
-                  </div>
-                </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -1,32 +1,47 @@
 import React, { useEffect, useState } from 'react';
-import { Search, Heart, Users, Activity, AlertTriangle, Clock, CheckCircle } from 'lucide-react';
-import { Donor, Recipient, MatchResult } from '../../types';
+import { Heart, Users, Activity, AlertTriangle } from 'lucide-react';
+import { Donor, MatchResult, OrganMatchResults } from '../../types';
 import { apiService } from '../../services/api.service';
 import { DonorSelector } from './DonorSelector';
 import { MatchResults } from './MatchResults';
 import { AllocationModal } from './AllocationModal';
+import { ExcludedCandidatesPanel } from './ExcludedCandidatesPanel';
+import { useClock } from '../../context/ClockContext';
 
 export function MatchingDashboard() {
   const [donors, setDonors] = useState<Donor[]>([]);
   const [selectedDonor, setSelectedDonor] = useState<Donor | null>(null);
-  const [matches, setMatches] = useState<MatchResult[]>([]);
+  const [organResults, setOrganResults] = useState<OrganMatchResults[]>([]);
   const [loading, setLoading] = useState(false);
   const [matchingLoading, setMatchingLoading] = useState(false);
   const [showAllocationModal, setShowAllocationModal] = useState(false);
   const [selectedMatch, setSelectedMatch] = useState<MatchResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { clock } = useClock();
+
+  const matches = organResults.flatMap(group => group.matches);
 
   useEffect(() => {
     loadDonors();
   }, []);
 
-  const loadDonors = async () => {
+  // Results were ranked at another moment; pick the donor again to re-match
+  useEffect(() => {
+    setSelectedDonor(null);
+    setOrganResults([]);
+  }, [clock]);
+
+  const loadDonors = async (): Promise<Donor[]> => {
     setLoading(true);
     try {
       const data = await apiService.getDonors();
       const availableDonors = data.filter(d => d.status === 'available');
       setDonors(availableDonors);
+      return availableDonors;
     } catch (error) {
       console.error('Error loading donors:', error);
+      return [];
     } finally {
       setLoading(false);
     }
@@ -35,12 +50,14 @@ export function MatchingDashboard() {
   const handleDonorSelect = async (donor: Donor) => {
     setSelectedDonor(donor);
     setMatchingLoading(true);
+    setError(null);
     try {
-      const matchResults = await apiService.findMatches(donor.id);
-      setMatches(matchResults);
-    } catch (error) {
-      console.error('Error finding matches:', error);
-      setMatches([]);
+      const results = await apiService.findMatches(donor.id, clock);
+      setOrganResults(results);
+    } catch (err) {
+      console.error('Error finding matches:', err);
+      setError('Could not find matches. The active allocation policy or candidate data could not be loaded.');
+      setOrganResults([]);
     } finally {
       setMatchingLoading(false);
     }
@@ -51,14 +68,20 @@ export function MatchingDashboard() {
     setShowAllocationModal(true);
   };
 
-  const handleAllocationComplete = () => {
+  const handleAllocationComplete = async () => {
     setShowAllocationModal(false);
     setSelectedMatch(null);
     // Refresh donors list to update status
-    loadDonors();
-    // Clear current matches
-    setMatches([]);
-    setSelectedDonor(null);
+    const availableDonors = await loadDonors();
+    // A multi-organ donor stays available until every organ is allocated, so
+    // re-run matching for the remaining organs instead of clearing the view
+    const remainingDonor = availableDonors.find(d => d.id === selectedDonor?.id);
+    if (remainingDonor) {
+      await handleDonorSelect(remainingDonor);
+    } else {
+      setOrganResults([]);
+      setSelectedDonor(null);
+    }
   };
 
   if (loading) {
@@ -83,6 +106,10 @@ export function MatchingDashboard() {
         <p className="text-gray-600 mt-2">Find compatible recipients for available donors</p>
       </div>
 
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">{error}</div>
+      )}
+
       {/* Stats Overview */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -152,11 +179,14 @@ export function MatchingDashboard() {
         {/* Match Results */}
         <div className="lg:col-span-2">
           <MatchResults
-            matches={matches}
+            organResults={organResults}
             selectedDonor={selectedDonor}
             loading={matchingLoading}
             onCreateAllocation={handleCreateAllocation}
           />
+          {selectedDonor && !matchingLoading && (
+            <ExcludedCandidatesPanel organResults={organResults} />
+          )}
         </div>
       </div>
 
@@ -0,0 +1,331 @@
+import { useEffect, useState } from 'react';
+import { Repeat, Plus, Search, Lock, Unlock, CheckCircle, ArrowRight, AlertTriangle } from 'lucide-react';
+import { Donor, KpdExchange, KpdExchangeCandidate, KpdPair, Recipient } from '../../types';
+import { apiService } from '../../services/api.service';
+import { kpdService } from '../../services/kpd.service';
+import { useAuth } from '../../context/AuthContext';
+import { useClock } from '../../context/ClockContext';
+
+// Candidates shown after a search; the list can grow quickly with many pairs
+const MAX_CANDIDATES = 25;
+
+const getPairStatusColor = (status: KpdPair['status']) => {
+  switch (status) {
+    case 'active': return 'bg-green-100 text-green-800';
+    case 'locked': return 'bg-yellow-100 text-yellow-800';
+    case 'matched': return 'bg-blue-100 text-blue-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export function PairedDonationDashboard() {
+  const { user } = useAuth();
+  const { clock, replayAt } = useClock();
+  const [pairs, setPairs] = useState<KpdPair[]>([]);
+  const [exchanges, setExchanges] = useState<KpdExchange[]>([]);
+  const [donors, setDonors] = useState<Donor[]>([]);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [candidates, setCandidates] = useState<KpdExchangeCandidate[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newPair, setNewPair] = useState({ donor_id: '', recipient_id: '', notes: '' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [pairData, exchangeData, donorData, recipientData] = await Promise.all([
+        kpdService.getPairs(),
+        kpdService.getExchanges(),
+        apiService.getDonors(),
+        apiService.getRecipients(),
+      ]);
+      setPairs(pairData);
+      setExchanges(exchangeData);
+      setDonors(donorData);
+      setRecipients(recipientData);
+    } catch (err) {
+      console.error('Error loading paired donation data:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run an action, then reload; errors are shown above the lists
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await loadData();
+    } catch (err) {
+      console.error('Paired donation action failed:', err);
+      setError(err instanceof Error ? err.message : 'The action failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const registeredDonorIds = new Set(pairs.map(p => p.donor_id));
+  const donorOptions = donors.filter(d => d.donor_type === 'living' && d.status === 'available' && d.organs_available.includes('kidney') && !registeredDonorIds.has(d.id));
+  const recipientOptions = recipients.filter(r => r.status === 'active' && r.organ_needed === 'kidney');
+  const pairById = new Map(pairs.map(p => [p.id, p]));
+
+  const handleRegister = () => run(async () => {
+    await kpdService.createPair(newPair.donor_id, newPair.recipient_id || null, newPair.notes || null);
+    setNewPair({ donor_id: '', recipient_id: '', notes: '' });
+    setCandidates(null);
+  });
+
+  const handleSearch = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setCandidates(await kpdService.withClock(clock).findExchanges(pairs));
+    } catch (err) {
+      console.error('Error searching exchanges:', err);
+      setError('Could not search for exchanges.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLock = (candidate: KpdExchangeCandidate) => run(async () => {
+    await kpdService.lockExchange(candidate, user?.id || null);
+    setCandidates(null);
+  });
+
+  const describePair = (id: string) => {
+    const pair = pairById.get(id);
+    if (!pair) return 'Unknown pair';
+    return pair.recipient ? `${pair.donor?.name ?? 'Donor'} / ${pair.recipient.name}` : `${pair.donor?.name ?? 'Donor'} (non-directed)`;
+  };
+
+  const renderCandidate = (candidate: KpdExchangeCandidate, index: number) => (
+    <div key={`${candidate.kind}-${candidate.pair_ids.join('-')}`} className="p-4 flex items-start justify-between">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-gray-900">
+          #{index + 1} · {candidate.transplants.length}-way {candidate.kind}
+          <span className="ml-2 font-normal text-gray-500">total {candidate.total_score.toFixed(1)} points</span>
+        </p>
+        {candidate.transplants.map(t => (
+          <p key={`${t.from_pair_id}-${t.to_pair_id}`} className="text-xs text-gray-600 flex items-center">
+            {pairById.get(t.from_pair_id)?.donor?.name ?? 'Donor'}
+            <ArrowRight className="h-3 w-3 mx-1" />
+            {t.match.recipient.name}
+            <span className="ml-2 text-gray-400">{t.match.match_score.toFixed(1)} · MM {t.match.compatibility_factors.hla_mismatch.total ?? '?'}/6</span>
+          </p>
+        ))}
+        {candidate.kind === 'chain' && (
+          <p className="text-xs text-gray-500">
+            Chain ends with {pairById.get(candidate.pair_ids[candidate.pair_ids.length - 1])?.donor?.name ?? 'the last donor'} as a bridge donor.
+          </p>
+        )}
+      </div>
+      <button
+        onClick={() => handleLock(candidate)}
+        disabled={busy}
+        className="ml-4 flex items-center px-3 py-1.5 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 text-sm disabled:opacity-50"
+      >
+        <Lock className="h-4 w-4 mr-1" />
+        Lock
+      </button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-40 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Paired Kidney Donation</h1>
+        <p className="text-gray-600 mt-2">Register incompatible living donor pairs and arrange exchanges between them</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm flex items-center">
+          <AlertTriangle className="h-4 w-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {/* Register Pair */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Register Pair</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Living donor *</label>
+            <select
+              value={newPair.donor_id}
+              onChange={(e) => setNewPair({ ...newPair, donor_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Select donor</option>
+              {donorOptions.map(d => (
+                <option key={d.id} value={d.id}>{d.name} ({d.blood_type})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Intended recipient</label>
+            <select
+              value={newPair.recipient_id}
+              onChange={(e) => setNewPair({ ...newPair, recipient_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">None (non-directed donor)</option>
+              {recipientOptions.map(r => (
+                <option key={r.id} value={r.id}>{r.name} ({r.blood_type})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <input
+              type="text"
+              value={newPair.notes}
+              onChange={(e) => setNewPair({ ...newPair, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g., ABO incompatible, positive crossmatch"
+            />
+          </div>
+          <button
+            onClick={handleRegister}
+            disabled={busy || !newPair.donor_id}
+            className="flex items-center justify-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Register
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Pairs */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">Pairs ({pairs.filter(p => p.status === 'active').length} active)</h3>
+            <button
+              onClick={handleSearch}
+              disabled={busy}
+              className="flex items-center px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm disabled:opacity-50"
+            >
+              <Search className="h-4 w-4 mr-1" />
+              Find exchanges
+            </button>
+          </div>
+          {pairs.length === 0 ? (
+            <div className="p-6 text-center">
+              <Repeat className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No pairs registered yet.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {pairs.map(pair => (
+                <li key={pair.id} className="px-4 py-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {pair.donor?.name ?? 'Unknown donor'} ({pair.donor?.blood_type})
+                      <ArrowRight className="inline h-3 w-3 mx-1 text-gray-400" />
+                      {pair.recipient ? `${pair.recipient.name} (${pair.recipient.blood_type})` : 'Non-directed'}
+                    </p>
+                    {pair.notes && <p className="text-xs text-gray-500">{pair.notes}</p>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getPairStatusColor(pair.status)}`}>
+                      {pair.status}
+                    </span>
+                    {pair.status === 'active' && (
+                      <button
+                        onClick={() => run(() => kpdService.withdrawPair(pair.id))}
+                        disabled={busy}
+                        className="text-xs text-gray-500 hover:text-red-600"
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Candidate Exchanges */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-900">Candidate Exchanges</h3>
+          </div>
+          {candidates === null ? (
+            <p className="p-6 text-sm text-gray-500">Search to list possible 2-/3-way cycles and chains.</p>
+          ) : candidates.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No compatible cycle or chain among the active pairs.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {candidates.slice(0, MAX_CANDIDATES).map(renderCandidate)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Locked Exchanges */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-6">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">Exchanges</h3>
+        </div>
+        {exchanges.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No exchange has been locked.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {exchanges.map(exchange => (
+              <li key={exchange.id} className="px-4 py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 capitalize">
+                    {exchange.kind} · {exchange.status}
+                    <span className="ml-2 font-normal text-gray-500 normal-case">
+                      locked {new Date(exchange.locked_at).toLocaleString()} · score {Number(exchange.total_score).toFixed(1)}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-600">{exchange.pair_ids.map(describePair).join(' → ')}</p>
+                </div>
+                {exchange.status === 'locked' && (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => run(() => kpdService.withClock(clock).allocateExchange(exchange, user?.id || null))}
+                      disabled={busy || replayAt !== null}
+                      title={replayAt !== null ? 'Return to live time to allocate' : undefined}
+                      className="flex items-center px-3 py-1.5 bg-green-500 text-white rounded-lg hover:bg-green-600 text-sm disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Create allocations
+                    </button>
+                    <button
+                      onClick={() => run(() => kpdService.releaseExchange(exchange))}
+                      disabled={busy}
+                      className="flex items-center px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm disabled:opacity-50"
+                    >
+                      <Unlock className="h-4 w-4 mr-1" />
+                      Release
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
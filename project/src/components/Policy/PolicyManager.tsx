@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { FileText, CheckCircle, Edit2, Save, X, GitCompare, Lock } from 'lucide-react';
+import { AllocationPolicy, AllocationPolicyDocument } from '../../types';
+import { policyService } from '../../services/policy.service';
+import { DEFAULT_ALLOCATION_POLICY } from '../../data/defaultAllocationPolicy';
+import { useAuth } from '../../context/AuthContext';
+import { useClock } from '../../context/ClockContext';
+
+// Pseudo-version id for the built-in default document
+const DEFAULT_ID = 'default';
+
+export function PolicyManager() {
+  const { user } = useAuth();
+  const { reloadPolicy } = useClock();
+  const canEdit = user?.role === 'supervisor';
+
+  const [policies, setPolicies] = useState<AllocationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_ID);
+  const [compareId, setCompareId] = useState<string>('');
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ name: '', notes: '', json: '' });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async (selectAfterLoad?: string) => {
+    try {
+      const data = await policyService.getPolicies();
+      setPolicies(data);
+      const active = data.find(p => p.is_active);
+      setSelectedId(selectAfterLoad || active?.id || data[0]?.id || DEFAULT_ID);
+    } catch (error) {
+      console.error('Error loading allocation policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getDocument = (id: string): AllocationPolicyDocument => {
+    const policy = policies.find(p => p.id === id);
+    return policy ? policyService.mergeWithDefaults(policy.document) : DEFAULT_ALLOCATION_POLICY;
+  };
+
+  const getLabel = (id: string) => {
+    const policy = policies.find(p => p.id === id);
+    return policy ? `v${policy.version} · ${policy.name}` : 'Built-in default';
+  };
+
+  const selectedPolicy = policies.find(p => p.id === selectedId) || null;
+  const selectedDocument = getDocument(selectedId);
+  const diff = compareId ? policyService.diff(getDocument(compareId), selectedDocument) : [];
+
+  const startEditing = () => {
+    setDraft({
+      name: selectedPolicy ? `${selectedPolicy.name} (edited)` : 'New policy',
+      notes: '',
+      json: JSON.stringify(selectedDocument, null, 2),
+    });
+    setErrors([]);
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    let document: AllocationPolicyDocument;
+    try {
+      document = JSON.parse(draft.json);
+    } catch (error) {
+      setErrors([`Policy document is not valid JSON: ${(error as Error).message}`]);
+      return;
+    }
+
+    const validationErrors = policyService.validate(document);
+    if (!draft.name.trim()) validationErrors.unshift('Name is required');
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const created = await policyService.createVersion(draft.name.trim(), draft.notes.trim() || null, document, user?.id || null);
+      setEditing(false);
+      await loadPolicies(created.id);
+    } catch (error) {
+      console.error('Error saving allocation policy:', error);
+      setErrors([(error as Error).message]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (policy: AllocationPolicy) => {
+    if (!window.confirm(`Activate policy v${policy.version}? All new matching runs will use it.`)) return;
+    try {
+      await policyService.activateVersion(policy.id);
+      await Promise.all([loadPolicies(policy.id), reloadPolicy()]);
+    } catch (error) {
+      console.error('Error activating allocation policy:', error);
+    }
+  };
+
+  const formatValue = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Allocation Policy</h1>
+        <p className="text-gray-600 mt-2">Versioned rules used by the matching engine</p>
+      </div>
+
+      {!canEdit && (
+        <div className="mb-6 flex items-center space-x-2 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-600">
+          <Lock className="h-4 w-4" />
+          <span>Only supervisors can edit or activate policy versions.</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Versions */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Versions</h2>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {policies.map(policy => (
+              <li
+                key={policy.id}
+                className={`p-4 cursor-pointer ${selectedId === policy.id ? 'bg-red-50' : 'hover:bg-gray-50'}`}
+                onClick={() => { setSelectedId(policy.id); setEditing(false); }}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">v{policy.version} · {policy.name}</p>
+                    <p className="text-xs text-gray-500">{formatDate(policy.created_at)}</p>
+                  </div>
+                  {policy.is_active ? (
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Active
+                    </span>
+                  ) : canEdit && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleActivate(policy); }}
+                      className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                    >
+                      Activate
+                    </button>
+                  )}
+                </div>
+                {policy.notes && <p className="text-xs text-gray-600 mt-1">{policy.notes}</p>}
+              </li>
+            ))}
+            <li
+              className={`p-4 cursor-pointer ${selectedId === DEFAULT_ID ? 'bg-red-50' : 'hover:bg-gray-50'}`}
+              onClick={() => { setSelectedId(DEFAULT_ID); setEditing(false); }}
+            >
+              <p className="font-medium text-gray-900">Built-in default</p>
+              <p className="text-xs text-gray-500">
+                {policies.some(p => p.is_active) ? 'Used when no version is active' : 'Currently in use (no version is active)'}
+              </p>
+            </li>
+          </ul>
+        </div>
+
+        {/* Document */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <FileText className="h-5 w-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">{getLabel(selectedId)}</h2>
+              </div>
+              {canEdit && !editing && (
+                <button
+                  onClick={startEditing}
+                  className="flex items-center px-3 py-1.5 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                >
+                  <Edit2 className="h-4 w-4 mr-1" />
+                  Edit as new version
+                </button>
+              )}
+            </div>
+
+            {editing ? (
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Change notes</label>
+                    <input
+                      type="text"
+                      value={draft.notes}
+                      onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+                <textarea
+                  value={draft.json}
+                  onChange={(e) => setDraft({ ...draft, json: e.target.value })}
+                  rows={24}
+                  spellCheck={false}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+                {errors.length > 0 && (
+                  <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 list-disc list-inside">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => setEditing(false)}
+                    className="flex items-center px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    {saving ? 'Saving...' : 'Save version'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <pre className="p-4 text-xs text-gray-800 overflow-auto max-h-[32rem]">
+                {JSON.stringify(selectedDocument, null, 2)}
+              </pre>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <GitCompare className="h-5 w-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Compare</h2>
+              </div>
+              <select
+                value={compareId}
+                onChange={(e) => setCompareId(e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              >
+                <option value="">Select a version…</option>
+                {policies.filter(p => p.id !== selectedId).map(p => (
+                  <option key={p.id} value={p.id}>v{p.version} · {p.name}</option>
+                ))}
+                {selectedId !== DEFAULT_ID && <option value={DEFAULT_ID}>Built-in default</option>}
+              </select>
+            </div>
+            {compareId && (
+              diff.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">No differences.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Setting</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{getLabel(compareId)}</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{getLabel(selectedId)}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {diff.map(entry => (
+                        <tr key={entry.path}>
+                          <td className="px-4 py-2 font-mono text-xs text-gray-900">{entry.path}</td>
+                          <td className="px-4 py-2 font-mono text-xs text-red-700 bg-red-50">{formatValue(entry.before)}</td>
+                          <td className="px-4 py-2 font-mono text-xs text-green-700 bg-green-50">{formatValue(entry.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
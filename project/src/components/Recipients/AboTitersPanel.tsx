@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Plus, Minus } from 'lucide-react';
+import { AboAntibody, AboTiter, BloodType } from '../../types';
+import { aboService, ABO_ANTIBODY_LABELS, TITER_DILUTIONS } from '../../services/abo.service';
+
+interface AboTitersPanelProps {
+  bloodType: BloodType;
+  titers: AboTiter[];
+  onChange: (titers: AboTiter[]) => void;
+}
+
+// Isoagglutinin titers a candidate can have: anti-A unless group A or AB, anti-B unless group B or AB
+const getAntibodies = (bloodType: BloodType): AboAntibody[] => {
+  const antigens = aboService.getAntigens(bloodType);
+  return (['anti_a', 'anti_b'] as AboAntibody[]).filter(antibody => !antigens.includes(antibody === 'anti_a' ? 'A' : 'B'));
+};
+
+export function AboTitersPanel({ bloodType, titers, onChange }: AboTitersPanelProps) {
+  const antibodies = getAntibodies(bloodType);
+  const [input, setInput] = useState({
+    antibody: antibodies[0] ?? 'anti_a' as AboAntibody,
+    titer: '8',
+    measured_at: new Date().toISOString().slice(0, 10),
+  });
+
+  if (antibodies.length === 0) {
+    return <p className="text-sm text-gray-500">Group AB candidates have no anti-A or anti-B to titrate.</p>;
+  }
+
+  const antibody = antibodies.includes(input.antibody) ? input.antibody : antibodies[0];
+
+  const addTiter = () => {
+    if (!input.measured_at) return;
+    const titer: AboTiter = { antibody, titer: Number(input.titer), measured_at: input.measured_at };
+    onChange([...titers.filter(t => t.antibody !== titer.antibody || t.measured_at !== titer.measured_at), titer]);
+  };
+
+  const removeTiter = (removed: AboTiter) => {
+    onChange(titers.filter(t => t !== removed));
+  };
+
+  const sorted = [...titers].sort((a, b) => new Date(b.measured_at).getTime() - new Date(a.measured_at).getTime());
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {antibodies.map(a => {
+          const latest = aboService.getLatestTiter(titers, a);
+          return (
+            <span key={a} className="text-sm text-gray-600 mr-4">
+              Latest {ABO_ANTIBODY_LABELS[a]}:{' '}
+              <span className="font-semibold text-gray-900">{latest ? aboService.formatTiter(latest.titer) : '—'}</span>
+              {latest && <span className="text-xs text-gray-500"> ({latest.measured_at})</span>}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Antibody</label>
+          <select
+            value={antibody}
+            onChange={(e) => setInput({ ...input, antibody: e.target.value as AboAntibody })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {antibodies.map(a => (
+              <option key={a} value={a}>{ABO_ANTIBODY_LABELS[a]} IgG</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Titer</label>
+          <select
+            value={input.titer}
+            onChange={(e) => setInput({ ...input, titer: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {TITER_DILUTIONS.map(d => (
+              <option key={d} value={d}>{aboService.formatTiter(d)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Measured</label>
+          <input
+            type="date"
+            value={input.measured_at}
+            onChange={(e) => setInput({ ...input, measured_at: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <button
+            type="button"
+            onClick={addTiter}
+            disabled={!input.measured_at}
+            className="px-2 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {sorted.length > 0 && (
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left py-1">Measured</th>
+              <th className="text-left py-1">Antibody</th>
+              <th className="text-left py-1">Titer</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {sorted.map(t => (
+              <tr key={`${t.antibody}-${t.measured_at}`}>
+                <td className="py-1">{t.measured_at}</td>
+                <td className="py-1">{ABO_ANTIBODY_LABELS[t.antibody]}</td>
+                <td className="py-1 font-medium text-gray-900">{aboService.formatTiter(t.titer)}</td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeTiter(t)}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <Minus className="h-3 w-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Plus, Minus, AlertTriangle } from 'lucide-react';
+import { MeldLabResult } from '../../types';
+import { meldService } from '../../services/meld.service';
+import { useClock } from '../../context/ClockContext';
+
+interface MeldLabsPanelProps {
+  labs: MeldLabResult[];
+  onChange: (labs: MeldLabResult[]) => void;
+}
+
+const emptyLab = () => ({
+  drawn_at: new Date().toISOString().slice(0, 10),
+  bilirubin_mg_dl: '',
+  inr: '',
+  creatinine_mg_dl: '',
+  sodium_mmol_l: '',
+  dialysis_twice_in_week: false,
+});
+
+// MELD-Na over time as a small inline chart (6-40 scale)
+function MeldTrend({ labs }: { labs: MeldLabResult[] }) {
+  if (labs.length < 2) return null;
+
+  const width = 240;
+  const height = 48;
+  const scores = labs.map(lab => meldService.calculate(lab));
+  const points = scores.map((score, i) => {
+    const x = (i / (scores.length - 1)) * width;
+    const y = height - ((score - 6) / (40 - 6)) * height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <polyline points={points.join(' ')} fill="none" stroke="#3b82f6" strokeWidth={2} />
+      {points.map((point, i) => {
+        const [x, y] = point.split(',');
+        return <circle key={i} cx={x} cy={y} r={2.5} fill="#3b82f6" />;
+      })}
+    </svg>
+  );
+}
+
+export function MeldLabsPanel({ labs, onChange }: MeldLabsPanelProps) {
+  const [labInput, setLabInput] = useState(emptyLab);
+  const { now } = useClock();
+
+  const sortedLabs = meldService.sortLabs(labs);
+  const assessment = meldService.assess({ meld_labs: labs, meld_score: null }, now);
+
+  const canAdd = labInput.drawn_at && labInput.bilirubin_mg_dl && labInput.inr && labInput.creatinine_mg_dl && labInput.sodium_mmol_l;
+
+  const addLab = () => {
+    if (!canAdd) return;
+    const lab: MeldLabResult = {
+      drawn_at: labInput.drawn_at,
+      bilirubin_mg_dl: Number(labInput.bilirubin_mg_dl),
+      inr: Number(labInput.inr),
+      creatinine_mg_dl: Number(labInput.creatinine_mg_dl),
+      sodium_mmol_l: Number(labInput.sodium_mmol_l),
+      dialysis_twice_in_week: labInput.dialysis_twice_in_week,
+    };
+    onChange([...labs.filter(l => l.drawn_at !== lab.drawn_at), lab]);
+    setLabInput(emptyLab());
+  };
+
+  const removeLab = (drawnAt: string) => {
+    onChange(labs.filter(l => l.drawn_at !== drawnAt));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-gray-600">
+            MELD-Na:{' '}
+            <span className="font-semibold text-gray-900">{assessment.score ?? '—'}</span>
+            {assessment.recertification_days != null && (
+              <span className="text-xs text-gray-500"> • recertify every {assessment.recertification_days} days</span>
+            )}
+          </p>
+          {assessment.stale && (
+            <p className="flex items-center text-xs text-yellow-700 mt-1">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Latest labs are {assessment.lab_age_days} days old — recertification overdue
+            </p>
+          )}
+        </div>
+        <MeldTrend labs={sortedLabs} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Drawn</label>
+          <input
+            type="date"
+            value={labInput.drawn_at}
+            onChange={(e) => setLabInput({ ...labInput, drawn_at: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Bilirubin (mg/dL)</label>
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={labInput.bilirubin_mg_dl}
+            onChange={(e) => setLabInput({ ...labInput, bilirubin_mg_dl: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">INR</label>
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={labInput.inr}
+            onChange={(e) => setLabInput({ ...labInput, inr: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Creatinine (mg/dL)</label>
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={labInput.creatinine_mg_dl}
+            onChange={(e) => setLabInput({ ...labInput, creatinine_mg_dl: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Sodium (mmol/L)</label>
+          <input
+            type="number"
+            min="100"
+            max="160"
+            value={labInput.sodium_mmol_l}
+            onChange={(e) => setLabInput({ ...labInput, sodium_mmol_l: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={labInput.dialysis_twice_in_week}
+              onChange={(e) => setLabInput({ ...labInput, dialysis_twice_in_week: e.target.checked })}
+              className="mr-1 text-blue-500 focus:ring-blue-500"
+            />
+            Dialysis ≥2×/wk
+          </label>
+          <button
+            type="button"
+            onClick={addLab}
+            disabled={!canAdd}
+            className="px-2 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {sortedLabs.length > 0 && (
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left py-1">Drawn</th>
+              <th className="text-left py-1">Bili</th>
+              <th className="text-left py-1">INR</th>
+              <th className="text-left py-1">Cr</th>
+              <th className="text-left py-1">Na</th>
+              <th className="text-left py-1">Dialysis</th>
+              <th className="text-left py-1">MELD-Na</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {[...sortedLabs].reverse().map(lab => (
+              <tr key={lab.drawn_at}>
+                <td className="py-1">{lab.drawn_at}</td>
+                <td className="py-1">{lab.bilirubin_mg_dl}</td>
+                <td className="py-1">{lab.inr}</td>
+                <td className="py-1">{lab.creatinine_mg_dl}</td>
+                <td className="py-1">{lab.sodium_mmol_l}</td>
+                <td className="py-1">{lab.dialysis_twice_in_week ? 'Yes' : 'No'}</td>
+                <td className="py-1 font-medium text-gray-900">{meldService.calculate(lab)}</td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeLab(lab.drawn_at)}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <Minus className="h-3 w-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
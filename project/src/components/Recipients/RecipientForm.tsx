@@ -1,6 +1,16 @@
 import React, { useState } from 'react';
 import { X, Plus, Minus } from 'lucide-react';
-import { Recipient, BloodType, OrganType, UNOSStatus, Gender } from '../../types';
+import { Recipient, BloodType, OrganType, UNOSStatus, Gender, MeldLabResult, HeartStatus, SerologyResult, AboTiter } from '../../types';
+import { cpraService } from '../../services/cpra.service';
+import { meldService } from '../../services/meld.service';
+import { eptsService } from '../../services/epts.service';
+import { heartStatusService, HEART_STATUSES } from '../../services/heartStatus.service';
+import { icd10Service } from '../../services/icd10.service';
+import { MeldLabsPanel } from './MeldLabsPanel';
+import { AboTitersPanel } from './AboTitersPanel';
+import { CenterSelect } from '../Common/CenterSelect';
+import { ConditionPicker } from '../Common/ConditionPicker';
+import { useClock } from '../../context/ClockContext';
 
 interface RecipientFormProps {
   recipient?: Recipient;
@@ -11,9 +21,10 @@ interface RecipientFormProps {
 
 const BLOOD_TYPES: BloodType[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
 const ORGAN_TYPES: OrganType[] = ['kidney', 'liver', 'heart'];
-const UNOS_STATUSES: UNOSStatus[] = ['1A', '1B', '2', '3', '4', '7'];
+const UNOS_STATUSES: UNOSStatus[] = ['1A', '1B'];
 
 export function RecipientForm({ recipient, onSubmit, onCancel, loading }: RecipientFormProps) {
+  const { clock } = useClock();
   const [formData, setFormData] = useState({
     name: recipient?.name || '',
     age: recipient?.age?.toString() || '',
@@ -28,29 +39,66 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
       'HLA-DQ': [],
       'HLA-DP': [],
     },
+    unacceptable_antigens: recipient?.unacceptable_antigens || [] as string[],
     urgency_score: recipient?.urgency_score?.toString() || '1',
     medical_history: recipient?.medical_history || '',
+    conditions: icd10Service.normalize(recipient?.conditions),
     height_cm: recipient?.height_cm?.toString() || '',
     weight_kg: recipient?.weight_kg?.toString() || '',
-    meld_score: recipient?.meld_score?.toString() || '',
+    meld_labs: recipient?.meld_labs || [] as MeldLabResult[],
     unos_status: recipient?.unos_status || '',
     location: recipient?.location || '',
+    center_id: recipient?.center_id || null as string | null,
+    listing_date: recipient?.listing_date || new Date().toISOString().slice(0, 10),
+    dialysis_start_date: recipient?.dialysis_start_date || '',
+    heart_status: recipient?.heart_status || '' as HeartStatus | '',
+    heart_status_criterion: recipient?.heart_status_criterion || '',
+    heart_status_justification: recipient?.heart_status_justification || '',
+    heart_status_expires_at: recipient?.heart_status_expires_at || '',
+    diabetes: recipient?.diabetes || false,
+    prior_transplant: recipient?.prior_transplant || false,
+    accepts_hcv_positive: recipient?.accepts_hcv_positive || false,
+    accepts_hbcab_positive: recipient?.accepts_hbcab_positive || false,
+    cmv_serostatus: recipient?.cmv_serostatus || 'pending' as SerologyResult,
+    ebv_serostatus: recipient?.ebv_serostatus || 'pending' as SerologyResult,
+    abo_titers: recipient?.abo_titers || [] as AboTiter[],
+    accepts_abo_incompatible: recipient?.accepts_abo_incompatible || false,
   });
 
   const [hlaInput, setHlaInput] = useState('');
   const [selectedHlaType, setSelectedHlaType] = useState('HLA-A');
+  const [antigenInput, setAntigenInput] = useState('');
+
+  const cpra = cpraService.calculate(formData.unacceptable_antigens);
+  const epts = formData.organ_needed === 'kidney'
+    ? eptsService.calculate({
+        age: Number(formData.age),
+        diabetes: formData.diabetes,
+        prior_transplant: formData.prior_transplant,
+        dialysis_start_date: formData.dialysis_start_date || null,
+      }, clock.now())
+    : null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    const isHeart = formData.organ_needed === 'heart';
+
     const submitData = {
       ...formData,
       age: Number(formData.age),
       urgency_score: Number(formData.urgency_score),
       height_cm: formData.height_cm ? Number(formData.height_cm) : null,
       weight_kg: formData.weight_kg ? Number(formData.weight_kg) : null,
-      meld_score: formData.meld_score ? Number(formData.meld_score) : null,
+      // MELD-Na is derived from the labs; a reported score is kept only until labs are entered
+      meld_score: formData.organ_needed === 'liver'
+        ? meldService.assess({ meld_labs: formData.meld_labs, meld_score: recipient?.meld_score ?? null }, clock.now()).score
+        : null,
       unos_status: (formData.unos_status as UNOSStatus) || null,
+      dialysis_start_date: formData.organ_needed === 'kidney' && formData.dialysis_start_date ? formData.dialysis_start_date : null,
+      heart_status: isHeart && formData.heart_status ? formData.heart_status : null,
+      heart_status_criterion: isHeart && formData.heart_status_criterion ? formData.heart_status_criterion : null,
+      heart_status_justification: isHeart && formData.heart_status_justification ? formData.heart_status_justification : null,
+      heart_status_expires_at: isHeart && formData.heart_status_expires_at ? formData.heart_status_expires_at : null,
       status: 'active' as const,
     };
 
@@ -61,8 +109,23 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
     setFormData({
       ...formData,
       organ_needed: organ,
-      meld_score: '',
+      meld_labs: organ === 'liver' ? formData.meld_labs : [],
       unos_status: '',
+      dialysis_start_date: organ === 'kidney' ? formData.dialysis_start_date : '',
+    });
+  };
+
+  // A new tier needs a criterion of that tier; choosing a criterion restarts its validity period
+  const handleHeartStatusChange = (status: HeartStatus | '') => {
+    setFormData({ ...formData, heart_status: status, heart_status_criterion: '', heart_status_expires_at: '' });
+  };
+
+  const handleHeartCriterionChange = (code: string) => {
+    const criterion = formData.heart_status ? heartStatusService.getCriterion(formData.heart_status, code) : null;
+    setFormData({
+      ...formData,
+      heart_status_criterion: code,
+      heart_status_expires_at: criterion ? heartStatusService.getExpiryDate(criterion, clock.now()) : '',
     });
   };
 
@@ -92,6 +155,24 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
     });
   };
 
+  const addUnacceptableAntigen = () => {
+    const antigen = antigenInput.trim().toUpperCase();
+    if (antigen && !formData.unacceptable_antigens.includes(antigen)) {
+      setFormData({
+        ...formData,
+        unacceptable_antigens: [...formData.unacceptable_antigens, antigen]
+      });
+    }
+    setAntigenInput('');
+  };
+
+  const removeUnacceptableAntigen = (antigen: string) => {
+    setFormData({
+      ...formData,
+      unacceptable_antigens: formData.unacceptable_antigens.filter(a => a !== antigen)
+    });
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
@@ -205,6 +286,133 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
             </div>
           </div>
 
+          {/* Waiting List */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Listing Date *
+              </label>
+              <input
+                type="date"
+                required
+                max={new Date().toISOString().slice(0, 10)}
+                value={formData.listing_date}
+                onChange={(e) => setFormData({ ...formData, listing_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            {formData.organ_needed === 'kidney' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Dialysis Start Date
+                </label>
+                <input
+                  type="date"
+                  max={new Date().toISOString().slice(0, 10)}
+                  value={formData.dialysis_start_date}
+                  onChange={(e) => setFormData({ ...formData, dialysis_start_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Waiting time counts from dialysis start when it is earlier than listing.</p>
+              </div>
+            )}
+          </div>
+
+          {/* EPTS inputs (kidney candidates) */}
+          {epts && (
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.diabetes}
+                  onChange={(e) => setFormData({ ...formData, diabetes: e.target.checked })}
+                  className="rounded text-blue-500 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Diabetes</span>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.prior_transplant}
+                  onChange={(e) => setFormData({ ...formData, prior_transplant: e.target.checked })}
+                  className="rounded text-blue-500 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Prior solid organ transplant</span>
+              </label>
+              <span className="text-sm text-gray-600">
+                EPTS <span className="font-semibold text-gray-900">{epts.epts}%</span>
+                <span className="text-xs text-gray-500"> • {epts.dialysis_years.toFixed(1)} years on dialysis</span>
+              </span>
+            </div>
+          )}
+
+          {/* Viral serostatus and consent to donors with these serologies */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Serology
+            </label>
+            <div className="flex flex-wrap items-center gap-6">
+              {([['cmv_serostatus', 'CMV IgG'], ['ebv_serostatus', 'EBV IgG']] as const).map(([field, label]) => (
+                <label key={field} className="flex items-center text-sm text-gray-700">
+                  {label}
+                  <select
+                    value={formData[field]}
+                    onChange={(e) => setFormData({ ...formData, [field]: e.target.value as SerologyResult })}
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="pending">Pending</option>
+                    <option value="negative">Negative</option>
+                    <option value="positive">Positive</option>
+                  </select>
+                </label>
+              ))}
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.accepts_hcv_positive}
+                  onChange={(e) => setFormData({ ...formData, accepts_hcv_positive: e.target.checked })}
+                  className="rounded text-blue-500 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Accepts organs from HCV-positive donors</span>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.accepts_hbcab_positive}
+                  onChange={(e) => setFormData({ ...formData, accepts_hbcab_positive: e.target.checked })}
+                  className="rounded text-blue-500 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Accepts organs from anti-HBc-positive donors</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Isoagglutinin titers for the A2-to-B and ABO-incompatible kidney pathways */}
+          {formData.organ_needed === 'kidney' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                ABO Antibody Titers
+              </label>
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <AboTitersPanel
+                  bloodType={formData.blood_type}
+                  titers={formData.abo_titers}
+                  onChange={(titers) => setFormData({ ...formData, abo_titers: titers })}
+                />
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={formData.accepts_abo_incompatible}
+                    onChange={(e) => setFormData({ ...formData, accepts_abo_incompatible: e.target.checked })}
+                    className="rounded text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Enrolled in ABO-incompatible living donor desensitization</span>
+                </label>
+              </div>
+            </div>
+          )}
+
           {/* Physical Measurements */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
@@ -257,23 +465,6 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
             </div>
 
             {formData.organ_needed === 'liver' && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  MELD Score (6-40)
-                </label>
-                <input
-                  type="number"
-                  min="6"
-                  max="40"
-                  value={formData.meld_score}
-                  onChange={(e) => setFormData({ ...formData, meld_score: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="For liver recipients"
-                />
-              </div>
-            )}
-
-            {(formData.organ_needed === 'heart' || formData.organ_needed === 'liver') && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   UNOS Status
@@ -285,23 +476,104 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
                 >
                   <option value="">Select status</option>
                   {UNOS_STATUSES.map(status => (
-                    <option key={status} value={status}>{status}</option>
+                    <option key={status} value={status}>Status {status}</option>
                   ))}
                 </select>
               </div>
             )}
           </div>
 
+          {formData.organ_needed === 'heart' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Heart Status
+              </label>
+              <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Tier</label>
+                    <select
+                      value={formData.heart_status}
+                      onChange={(e) => handleHeartStatusChange(e.target.value as HeartStatus | '')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select status</option>
+                      {HEART_STATUSES.map(status => (
+                        <option key={status} value={status}>Status {status}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-xs text-gray-600 mb-1">Qualifying criterion</label>
+                    <select
+                      required={!!formData.heart_status}
+                      disabled={!formData.heart_status}
+                      value={formData.heart_status_criterion}
+                      onChange={(e) => handleHeartCriterionChange(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                    >
+                      <option value="">Select criterion</option>
+                      {formData.heart_status && heartStatusService.getCriteria(formData.heart_status).map(criterion => (
+                        <option key={criterion.code} value={criterion.code}>
+                          {criterion.label} ({criterion.validity_days} days)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="block text-xs text-gray-600 mb-1">Justification</label>
+                    <textarea
+                      rows={2}
+                      value={formData.heart_status_justification}
+                      onChange={(e) => setFormData({ ...formData, heart_status_justification: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                      placeholder="Clinical details supporting the tier (device, hemodynamics, inotropes)"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Expires</label>
+                    <input
+                      type="date"
+                      value={formData.heart_status_expires_at}
+                      onChange={(e) => setFormData({ ...formData, heart_status_expires_at: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Ranked as Status 6 once expired unless extended.</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {formData.organ_needed === 'liver' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                MELD Labs
+              </label>
+              <div className="border border-gray-200 rounded-lg p-4">
+                <MeldLabsPanel
+                  labs={formData.meld_labs}
+                  onChange={(labs) => setFormData({ ...formData, meld_labs: labs })}
+                />
+                {formData.meld_labs.length === 0 && recipient?.meld_score != null && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Reported MELD {recipient.meld_score} is used until labs are recorded.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Location
             </label>
-            <input
-              type="text"
-              value={formData.location}
-              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Hospital/City"
+            <CenterSelect
+              centerId={formData.center_id}
+              location={formData.location}
+              onChange={(value) => setFormData({ ...formData, ...value })}
             />
           </div>
 
@@ -365,9 +637,67 @@ export function RecipientForm({ recipient, onSubmit, onCancel, loading }: Recipi
             </div>
           </div>
 
+          {/* Unacceptable Antigens */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Unacceptable Antigens
+              </label>
+              <span className="text-sm text-gray-600">
+                cPRA: <span className="font-semibold text-gray-900">{cpra.toFixed(1)}%</span>
+              </span>
+            </div>
+            <div className="flex space-x-2 mb-3">
+              <input
+                type="text"
+                value={antigenInput}
+                onChange={(e) => setAntigenInput(e.target.value)}
+                placeholder="Enter antigen (e.g., A2, B44, DR15)"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addUnacceptableAntigen())}
+              />
+              <button
+                type="button"
+                onClick={addUnacceptableAntigen}
+                className="px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {formData.unacceptable_antigens.map(antigen => (
+                <span key={antigen} className="inline-flex items-center bg-gray-50 border border-gray-200 px-2 py-1 rounded text-sm text-gray-700">
+                  {antigen}
+                  <button
+                    type="button"
+                    onClick={() => removeUnacceptableAntigen(antigen)}
+                    className="ml-2 text-red-500 hover:text-red-700"
+                  >
+                    <Minus className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              {formData.unacceptable_antigens.length === 0 && (
+                <p className="text-sm text-gray-400 italic">No unacceptable antigens listed</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Coded Conditions (ICD-10-CM)
+            </label>
+            <ConditionPicker
+              conditions={formData.conditions}
+              onChange={(conditions) => setFormData({ ...formData, conditions })}
+              accent="blue"
+            />
+            <p className="text-xs text-gray-500 mt-1">Exclusion and comorbidity rules are applied to these codes; the notes below are screened by keyword.</p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Medical History
+              Medical History Notes
             </label>
             <textarea
               rows={4}
@@ -2,7 +2,13 @@ import React, { useEffect, useState } from 'react';
 import { Plus, Search, Users, Clock, Edit, Trash2, AlertTriangle } from 'lucide-react';
 import { Recipient } from '../../types';
 import { apiService } from '../../services/api.service';
+import { cpraService } from '../../services/cpra.service';
+import { meldService } from '../../services/meld.service';
+import { eptsService } from '../../services/epts.service';
+import { heartStatusService } from '../../services/heartStatus.service';
+import { pediatricService } from '../../services/pediatric.service';
 import { RecipientForm } from './RecipientForm';
+import { useClock } from '../../context/ClockContext';
 
 export function RecipientList() {
   const [recipients, setRecipients] = useState<Recipient[]>([]);
@@ -15,6 +21,7 @@ export function RecipientList() {
   const [statusFilter, setStatusFilter] = useState('all');
   const [organFilter, setOrganFilter] = useState('all');
   const [urgencyFilter, setUrgencyFilter] = useState('all');
+  const { now } = useClock();
 
   useEffect(() => {
     loadRecipients();
@@ -116,6 +123,46 @@ export function RecipientList() {
     return 'text-green-600';
   };
 
+  const renderMeld = (recipient: Recipient) => {
+    const meld = meldService.assess(recipient, now);
+    if (meld.score == null) return null;
+    return (
+      <div className={`flex items-center text-xs mt-1 ${meld.stale ? 'text-yellow-700' : 'text-gray-500'}`}>
+        {meld.stale && <AlertTriangle className="h-3 w-3 mr-1" />}
+        <span title={meld.stale ? `Labs ${meld.lab_age_days} days old; recertify every ${meld.recertification_days} days` : undefined}>
+          MELD {meld.score}{meld.stale && ' (stale)'}
+        </span>
+      </div>
+    );
+  };
+
+  const renderEpts = (recipient: Recipient) => {
+    const { epts, raw_score } = eptsService.calculate(recipient, now);
+    // Top 20% EPTS is the longevity-matching pool
+    return (
+      <div className={`text-xs mt-1 ${epts <= 20 ? 'text-green-700' : 'text-gray-500'}`}>
+        <span title={`Raw EPTS ${raw_score.toFixed(2)}`}>EPTS {epts}%</span>
+      </div>
+    );
+  };
+
+  const renderHeartStatus = (recipient: Recipient) => {
+    const heartStatus = heartStatusService.assess(recipient, now);
+    if (!heartStatus) return null;
+    return (
+      <div className={`flex items-center text-xs mt-1 ${heartStatus.expired ? 'text-yellow-700' : 'text-gray-500'}`}>
+        {heartStatus.expired && <AlertTriangle className="h-3 w-3 mr-1" />}
+        <span title={heartStatus.criterion?.label}>{heartStatusService.formatStatus(heartStatus)}</span>
+      </div>
+    );
+  };
+
+  const getCpraColor = (cpra: number) => {
+    if (cpra >= 98) return 'text-red-600';
+    if (cpra >= 80) return 'text-yellow-600';
+    return 'text-gray-700';
+  };
+
   const getUrgencyLabel = (score: number) => {
     if (score >= 7) return 'Critical';
     if (score >= 4) return 'Urgent';
@@ -252,6 +299,9 @@ export function RecipientList() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Urgency
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    cPRA
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
@@ -265,7 +315,17 @@ export function RecipientList() {
                   <tr key={recipient.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
-                        <div className="text-sm font-medium text-gray-900">{recipient.name}</div>
+                        <div className="text-sm font-medium text-gray-900 flex items-center">
+                          {recipient.name}
+                          {pediatricService.isPediatric(recipient) && (
+                            <span
+                              className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                              title={`Listed at age ${pediatricService.getAgeAtListing(recipient)}`}
+                            >
+                              Pediatric
+                            </span>
+                          )}
+                        </div>
                         <div className="text-sm text-gray-500">
                           Age {recipient.age} • {recipient.location || 'Location not specified'}
                         </div>
@@ -280,6 +340,9 @@ export function RecipientList() {
                       <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
                         {recipient.organ_needed}
                       </span>
+                      {recipient.organ_needed === 'liver' && renderMeld(recipient)}
+                      {recipient.organ_needed === 'kidney' && renderEpts(recipient)}
+                      {recipient.organ_needed === 'heart' && renderHeartStatus(recipient)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className={`flex items-center space-x-1 ${getUrgencyColor(recipient.urgency_score)}`}>
@@ -289,6 +352,11 @@ export function RecipientList() {
                         </span>
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`text-sm font-medium ${getCpraColor(cpraService.calculate(recipient.unacceptable_antigens))}`}>
+                        {cpraService.calculate(recipient.unacceptable_antigens).toFixed(1)}%
+                      </span>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(recipient.status)}`}>
                         {recipient.status}
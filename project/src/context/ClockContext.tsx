@@ -0,0 +1,68 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { AllocationPolicyDocument } from '../types';
+import { Clock, fixedClock, systemClock } from '../lib/clock';
+import { DEFAULT_ALLOCATION_POLICY } from '../data/defaultAllocationPolicy';
+import { policyService } from '../services/policy.service';
+import { useAuth } from './AuthContext';
+
+interface ClockContextType {
+  clock: Clock; // the system clock, or a fixed one while replaying
+  now: number; // the clock's time at the last tick; countdowns render from this
+  replayAt: number | null; // moment being replayed, null when live
+  setReplayAt: (at: number | null) => void;
+  viabilityHours: AllocationPolicyDocument['organ_viability_hours']; // active policy's, as matching enforces
+  reloadPolicy: () => Promise<void>; // after another policy version is activated
+}
+
+const ClockContext = createContext<ClockContextType | undefined>(undefined);
+
+// One ticker for every countdown on screen, so they all show the same moment, and the
+// active policy's viability hours so they count down the window matching enforces
+export function ClockProvider({ children, clock = systemClock, tickMs = 30000 }: { children: ReactNode; clock?: Clock; tickMs?: number }) {
+  const [replayAt, setReplayAt] = useState<number | null>(null);
+  const active = useMemo(() => (replayAt === null ? clock : fixedClock(replayAt)), [clock, replayAt]);
+  const [now, setNow] = useState(() => active.now());
+  const { user } = useAuth();
+  const [viabilityHours, setViabilityHours] = useState(DEFAULT_ALLOCATION_POLICY.organ_viability_hours);
+
+  const reloadPolicy = useCallback(async () => {
+    const policy = await policyService.getActivePolicy();
+    setViabilityHours(policy.document.organ_viability_hours);
+  }, []);
+
+  // The active policy is readable once signed in
+  useEffect(() => {
+    if (user) reloadPolicy().catch(error => console.error('Error loading active allocation policy:', error));
+  }, [user, reloadPolicy]);
+
+  useEffect(() => {
+    setNow(active.now());
+    // A replayed moment stands still
+    if (replayAt !== null) return;
+    const id = setInterval(() => setNow(active.now()), tickMs);
+    return () => clearInterval(id);
+  }, [active, replayAt, tickMs]);
+
+  const value = {
+    clock: active,
+    now,
+    replayAt,
+    setReplayAt,
+    viabilityHours,
+    reloadPolicy,
+  };
+
+  return (
+    <ClockContext.Provider value={value}>
+      {children}
+    </ClockContext.Provider>
+  );
+}
+
+export function useClock() {
+  const context = useContext(ClockContext);
+  if (context === undefined) {
+    throw new Error('useClock must be used within a ClockProvider');
+  }
+  return context;
+}
@@ -0,0 +1,35 @@
+// Other ways a clinical term is written in free-text history. Keys and synonyms are
+// lowercase and match in any case, except abbreviations that are also ordinary words
+// ("hearing aids", "heating pad"): those are written in capitals and match only in capitals.
+// A keyword without an entry is matched only as written.
+export const CLINICAL_SYNONYMS: Record<string, string[]> = {
+  'cancer': ['malignancy', 'malignant neoplasm', 'carcinoma', 'sarcoma', 'lymphoma', 'leukemia', 'metastatic disease'],
+  'malignancy': ['cancer', 'malignant neoplasm', 'carcinoma', 'sarcoma', 'lymphoma', 'leukemia', 'metastatic disease'],
+  'infection': ['infected', 'bacteremia', 'septicemia'],
+  'sepsis': ['septic shock', 'septic'],
+  'tuberculosis': ['tb', 'pulmonary tb', 'koch\'s disease'],
+  'hiv': ['human immunodeficiency virus', 'AIDS'],
+  'hbv': ['hepatitis b', 'hep b'],
+  'hcv': ['hepatitis c', 'hep c'],
+  'hepatitis b': ['hbv', 'hep b'],
+  'hepatitis c': ['hcv', 'hep c'],
+  'diabetes': ['diabetes mellitus', 'diabetic', 'dm', 't1dm', 't2dm', 'iddm', 'niddm'],
+  'hypertension': ['htn', 'high blood pressure', 'hypertensive'],
+  'coronary artery disease': ['cad', 'ischemic heart disease', 'ihd', 'coronary disease'],
+  'myocardial infarction': ['heart attack', 'mi', 'stemi', 'nstemi'],
+  'heart attack': ['myocardial infarction', 'mi', 'stemi', 'nstemi'],
+  'cardiomyopathy': ['dilated cardiomyopathy', 'dcm', 'hcm'],
+  'cardiac arrest': ['asystole', 'ventricular fibrillation arrest'],
+  'kidney disease': ['renal disease', 'ckd', 'chronic kidney disease'],
+  'renal failure': ['kidney failure', 'esrd', 'end-stage renal disease', 'aki', 'acute kidney injury'],
+  'diabetic nephropathy': ['diabetic kidney disease'],
+  'polycystic kidney disease': ['pkd', 'adpkd'],
+  'cirrhosis': ['cirrhotic', 'end-stage liver disease', 'esld'],
+  'liver failure': ['hepatic failure', 'acute liver failure', 'alf'],
+  'alcohol abuse': ['alcoholism', 'alcohol dependence', 'alcohol use disorder'],
+  'active alcohol abuse': ['active alcoholism', 'current alcohol use disorder'],
+  'drug abuse': ['substance abuse', 'ivdu', 'iv drug use', 'substance use disorder'],
+  'smoker': ['smoking', 'tobacco', 'cigarettes'],
+  'pulmonary hypertension': ['pah', 'pulmonary arterial hypertension'],
+  'peripheral vascular disease': ['pvd', 'peripheral arterial disease', 'PAD'],
+};
@@ -0,0 +1,238 @@
+import { AllocationPolicyDocument } from '../types';
+
+// Built-in allocation policy. Used when no version is active in the database
+// and as the base that stored documents are merged over, so a version saved
+// before a field existed still gets a sensible value for it.
+export const DEFAULT_ALLOCATION_POLICY: AllocationPolicyDocument = {
+  blood_compatibility: {
+    'O-': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'], // Universal donor
+    'O+': ['O+', 'A+', 'B+', 'AB+'],
+    'A-': ['A-', 'A+', 'AB-', 'AB+'],
+    'A+': ['A+', 'AB+'],
+    'B-': ['B-', 'B+', 'AB-', 'AB+'],
+    'B+': ['B+', 'AB+'],
+    'AB-': ['AB-', 'AB+'],
+    'AB+': ['AB+'], // Universal recipient
+  },
+
+  organ_viability_hours: {
+    kidney: 24,
+    heart: 6,
+    liver: 12,
+  },
+
+  // Organ-specific per-locus weights (sum to ~1 per organ)
+  hla_locus_weights: {
+    kidney: { 'HLA-DR': 0.5, 'HLA-B': 0.3, 'HLA-A': 0.2 },
+    heart: { 'HLA-DR': 0.4, 'HLA-B': 0.35, 'HLA-A': 0.25 },
+    liver: { 'HLA-DR': 1.0 },
+  },
+
+  // Credit for antigen pairs related through the split/broad equivalence table
+  hla_equivalence_credit: {
+    identical: 1,
+    split_broad: 1, // e.g. donor B51 vs recipient typed only as B5
+    sibling_splits: 0, // e.g. donor B51 vs recipient B52
+  },
+
+  // HLA points credited when A/B/DR typing is missing on either side
+  hla_incomplete_typing_credit: 0.5,
+
+  // Treat a donor typed only at the broad (B5) as conflicting with an unacceptable split (B51)
+  unacceptable_broad_donor_conflicts: true,
+
+  // Kidney sensitization priority by cPRA band (highest band first)
+  cpra_priority_points: [
+    { min_cpra: 100, points: 10 },
+    { min_cpra: 99, points: 8 },
+    { min_cpra: 98, points: 6 },
+    { min_cpra: 95, points: 4 },
+    { min_cpra: 80, points: 2 },
+    { min_cpra: 50, points: 1 },
+  ],
+
+  age_rules: {
+    kidney: {
+      donor: { min: 18, max: 70 },
+      recipient: { max: 75 },
+      max_diff: 20,
+    },
+    heart: {
+      donor: { max: 65 },
+      recipient: { max: 70 },
+      max_diff: 10,
+    },
+    liver: {
+      donor: { min: 18, max: 70 },
+      recipient: { max: 75 },
+      max_diff: 25,
+    },
+  },
+
+  medical_exclusions: {
+    donor: {
+      general: ['infection', 'malignancy', 'psychiatric illness', 'alcohol abuse', 'drug abuse'],
+      kidney: [
+        'kidney disease', 'low gfr', 'polycystic kidney disease', 'diabetes with organ damage',
+        'hypertension', 'proteinuria', 'hematuria', 'kidney stone',
+        'glomerulonephritis', 'renal infection', 'nephrotoxic', 'ethylene glycol', 'lithium', 'diabetes', 'fatal gunshots',
+        'hypoxic injury', 'Sepsis', 'Diabetic nephropathy', 'renal failure', 'tuberculosis', 'cancer'
+      ],
+      heart: [
+        'coronary artery disease', 'myocardial infarction', 'myocardial infarction', 'heart attack',
+        'valvular disease', 'cardiomyopathy', 'congenital heart disease', 'cardiac arrest',
+        'malignant arrhythmias', 'pulmonary hypertension', 'chest trauma', 'heart trauma', 'diabetes', 'fatal gunshots',
+        'circulatory accident', 'brain dead', 'histological pathalogy', 'tuberculosis', 'cancer'
+      ],
+      liver: [
+        'cirrhosis', 'chronic hepatitis with fibrosis', 'fatty liver >30%', 'alcoholic liver disease',
+        'biliary disease', 'wilson’s disease', 'hemochromatosis', 'alpha-1 antitrypsin deficiency',
+        'portal hypertension', 'liver failure', 'hepatotoxic', 'paracetamol overdose', 'hepatitis b', 'hepatitis c', 'fatal gunshots',
+        'tuberculosis', 'cancer', 'renal trauma'
+      ],
+    },
+    recipient: {
+      general: ['infection', 'malignancy', 'uncontrolled psychiatric illness', 'active alcohol abuse', 'drug abuse', 'non-compliance with therapy'],
+      kidney: [
+        'cancer', 'cardiovascular disease', 'peripheral vascular disease',
+        'neurological impairment', 'non-compliance with dialysis', 'life expectancy <2 years'
+      ],
+      heart: [
+        'irreversible pulmonary hypertension', 'irreversible kidney disease',
+        'irreversible liver disease', 'peripheral vascular disease', 'advanced neurological deficits'
+      ],
+      liver: [
+        'uncontrolled sepsis', 'extrahepatic malignancy', 'heart disease', 'lung disease',
+        'hiv', 'persistent alcohol/drug abuse', 'irreversible brain injury'
+      ],
+    },
+  },
+
+  // Coded counterparts of the keyword lists; C44 (non-melanoma skin cancer) is left out
+  // of the malignancy ranges as it does not usually rule out donation
+  coded_exclusions: {
+    donor: {
+      general: ['B20', 'A15-A19', 'A40-A41', 'B37.7', 'C00-C43', 'C45-C97', 'F11-F16', 'F18-F19'],
+      kidney: ['N03-N05', 'N17-N18', 'E10.2', 'E11.2', 'I12', 'Q61', 'N20', 'S37.0', 'T51'],
+      heart: ['I21-I25', 'I27', 'I34-I37', 'I42', 'I46', 'I47.2', 'Q20-Q24', 'S26'],
+      liver: ['K70', 'K72', 'K74', 'K76.0', 'K76.6', 'K83.01', 'E83.01', 'E83.11', 'E88.01', 'B18.1', 'B18.2', 'T39.1'],
+    },
+    recipient: {
+      general: ['A40-A41', 'B37.7', 'C00-C43', 'C45-C97', 'Z91.1'],
+      kidney: ['I73.9', 'G30'],
+      heart: ['I73.9', 'G30'],
+      liver: ['B20', 'C00-C21', 'C23-C43', 'C45-C97', 'G93.1'],
+    },
+  },
+
+  // Donor/recipient weight ratio accepted for each organ; a sanity check when a size
+  // model cannot be computed
+  size_ratio_bounds: {
+    heart: { min_ratio: 0.7, max_ratio: 1.3 },
+    liver: { min_ratio: 0.6, max_ratio: 1.5 },
+    kidney: { min_ratio: 0.5, max_ratio: 2.0 },
+  },
+
+  // Common factors (45 points total)
+  common_points: {
+    blood_compatibility: 30,
+    urgency_max: 15,
+  },
+
+  // Organ-specific factors (55 points total); kidney sensitization comes on top
+  organ_points: {
+    heart: { hla: 25, size: 25, gender: 5 },
+    liver: { meld: 20, hla: 10, size: 20, gender: 5 },
+    kidney: { hla: 35, size: 15, gender: 5 },
+  },
+
+  // Waiting-time priority: one point per year waited, up to ten
+  waiting_time: {
+    points_per_year: 1,
+    max_points: 10,
+    use_dialysis_start_for_kidney: true,
+  },
+
+  // Longevity matching: top-20% EPTS candidates first for top-20% KDPI kidneys
+  longevity_matching: {
+    enabled: true,
+    max_kdpi: 20,
+    max_epts: 20,
+  },
+
+  // Road transport within 150 km, otherwise a flight plus transfers at both ends
+  transport: {
+    ground_max_km: 150,
+    ground_speed_kmh: 50,
+    ground_overhead_hours: 0.5,
+    air_speed_kmh: 500,
+    air_overhead_hours: 2.5,
+  },
+
+  // Up to 5 points for nearby centers, none beyond 1000 km
+  proximity_points: {
+    max_points: 5,
+    full_points_km: 50,
+    zero_points_km: 1000,
+  },
+
+  // Paired donation: 2- and 3-way cycles, chains of up to three transplants
+  paired_donation: {
+    max_cycle_length: 3,
+    max_chain_length: 3,
+  },
+
+  // Serology: HIV+ and HBsAg+ donors excluded; offers may go out before all results are final
+  serology: {
+    exclude_hiv_positive: true,
+    exclude_hbsag_positive: true,
+    block_pending_results: false,
+  },
+
+  // CMV D+/R- carries the higher risk of the two in adult recipients
+  viral_mismatch_penalties: {
+    cmv: 6,
+    ebv: 4,
+  },
+
+  // Pediatric candidates: priority for donors under 35. Children tolerate oversized hearts;
+  // larger livers are reduced or split, so split-eligible livers have no size ceiling
+  pediatric: {
+    priority_max_donor_age: 35,
+    priority_points: 10,
+    size_bounds: {
+      heart: {
+        weight: { min_ratio: 0.8, ideal_min: 1.0, ideal_max: 2.0, max_ratio: 2.5 },
+        height: { min_ratio: 0.85, ideal_min: 0.95, ideal_max: 1.2, max_ratio: 1.3 },
+        bsa: { min_ratio: 0.8, ideal_min: 0.95, ideal_max: 1.6, max_ratio: 2.0 },
+      },
+      liver: {
+        weight: { min_ratio: 0.5, ideal_min: 0.8, ideal_max: 1.5, max_ratio: 2.0 },
+        height: { min_ratio: 0.8, ideal_min: 0.9, ideal_max: 1.15, max_ratio: 1.3 },
+        bsa: { min_ratio: 0.6, ideal_min: 0.8, ideal_max: 1.3, max_ratio: 1.6 },
+      },
+    },
+  },
+
+  // PHM ratio below 0.86 is the undersizing threshold for hearts; GRWR under 0.8% risks
+  // small-for-size liver syndrome; kidneys from much smaller donors under-dose nephrons
+  size_models: {
+    heart: { phm_ratio: { min_ratio: 0.8, ideal_min: 0.86, ideal_max: 1.25, max_ratio: 1.5 } },
+    liver: { grwr_percent: { min_ratio: 0.6, ideal_min: 0.8, ideal_max: 3.0, max_ratio: 5.0 }, split_segment_fraction: 0.25 },
+    kidney: { bsa_ratio: { min_ratio: 0.6, ideal_min: 0.8, ideal_max: 1.5, max_ratio: 2.5 } },
+    incomplete_credit: 0.5,
+  },
+
+  // A2/A2B kidneys to B candidates with an anti-A IgG titer of 1:8 or less; desensitized
+  // ABO-incompatible living donation for enrolled candidates with a baseline titer up to 1:256
+  abo_pathways: {
+    a2_to_b: { enabled: true, max_anti_a_titer: 8, max_titer_age_days: 90, risk_penalty: 2 },
+    abo_incompatible_living: { enabled: true, max_baseline_titer: 256, max_titer_age_days: 30, risk_penalty: 8 },
+  },
+
+  // Calibrated 1-year graft failure; heuristic_points restores the original penalty points
+  risk_model: 'graft_failure_logistic',
+
+  // Minimum viable match, in points earned (raw_score)
+  min_match_score: 30,
+};
@@ -0,0 +1,30 @@
+// Raw EPTS score -> EPTS percentile mapping for adult kidney candidates.
+//
+// Approximation of the published mapping table sampled every 5 percentiles:
+// each entry is the highest raw score at that EPTS. Replace with the current
+// yearly table when it is updated.
+export const EPTS_REFERENCE_YEAR = 2023;
+
+export const EPTS_MAPPING: { epts: number; max_raw_score: number }[] = [
+  { epts: 0, max_raw_score: 0.0 },
+  { epts: 5, max_raw_score: 0.90 },
+  { epts: 10, max_raw_score: 1.30 },
+  { epts: 15, max_raw_score: 1.60 },
+  { epts: 20, max_raw_score: 1.83 },
+  { epts: 25, max_raw_score: 2.00 },
+  { epts: 30, max_raw_score: 2.15 },
+  { epts: 35, max_raw_score: 2.28 },
+  { epts: 40, max_raw_score: 2.40 },
+  { epts: 45, max_raw_score: 2.50 },
+  { epts: 50, max_raw_score: 2.60 },
+  { epts: 55, max_raw_score: 2.70 },
+  { epts: 60, max_raw_score: 2.80 },
+  { epts: 65, max_raw_score: 2.90 },
+  { epts: 70, max_raw_score: 3.00 },
+  { epts: 75, max_raw_score: 3.10 },
+  { epts: 80, max_raw_score: 3.22 },
+  { epts: 85, max_raw_score: 3.35 },
+  { epts: 90, max_raw_score: 3.50 },
+  { epts: 95, max_raw_score: 3.70 },
+  { epts: 100, max_raw_score: 4.60 },
+];
@@ -0,0 +1,108 @@
+import { OrganType } from '../types';
+
+// Logistic model of graft failure within a year of transplant.
+//
+// Each organ has an intercept (log-odds of failure for the reference patient: donor 40,
+// recipient 50, DBD donor, no ischemia or mismatch recorded) and the terms it was fit
+// with. Coefficients approximate published registry associations and are bundled until
+// a local refit is available; the standard errors give an approximate confidence
+// interval (no covariance matrix is bundled, so terms are treated as independent).
+// Check calibration on exported outcomes with `npm run validate:risk` before relying on
+// the probabilities, and bump the version with any change to the coefficients.
+//
+// Viral mismatches and ABO pathways enter as 0/1 indicators; the policy's penalties for
+// them weigh the ranking only.
+export const GRAFT_FAILURE_MODEL_VERSION = '1.2';
+
+export type GraftFailureFeature =
+  | 'donor_age' // per decade over 40
+  | 'recipient_age' // per decade over 50
+  | 'donor_dcd'
+  | 'living_donor'
+  | 'kdri' // natural log of KDRI_median
+  | 'hla_mismatches' // A/B/DR, 0-6
+  | 'cpra_80' // cPRA of 80% or more
+  | 'prior_transplant'
+  | 'recipient_diabetes'
+  | 'ischemia_hours' // elapsed cold ischemia plus transport, per hour
+  | 'size_mismatch' // 1 - graded size score, 0..1
+  | 'split_graft'
+  | 'meld' // per 10 points over 20
+  | 'heart_status_1'
+  | 'abo_pathway' // A2-to-B or desensitized ABO-incompatible
+  | 'cmv_mismatch' // CMV D+/R-
+  | 'ebv_mismatch' // EBV D+/R-
+  | 'comorbidity'; // comorbidity points of donor and recipient, 0-15
+
+export interface LogisticTerm {
+  beta: number;
+  se: number;
+}
+
+export interface GraftFailureOrganModel {
+  intercept: LogisticTerm;
+  terms: Partial<Record<GraftFailureFeature, LogisticTerm>>;
+  kdri_replaces?: GraftFailureFeature[]; // donor terms already captured by the KDRI
+}
+
+export const GRAFT_FAILURE_MODEL: Record<OrganType, GraftFailureOrganModel> = {
+  kidney: {
+    intercept: { beta: -3.05, se: 0.05 },
+    terms: {
+      kdri: { beta: 1.1, se: 0.12 },
+      donor_age: { beta: 0.2, se: 0.03 },
+      donor_dcd: { beta: 0.15, se: 0.06 },
+      living_donor: { beta: -0.6, se: 0.1 },
+      recipient_age: { beta: 0.08, se: 0.03 },
+      hla_mismatches: { beta: 0.07, se: 0.02 },
+      cpra_80: { beta: 0.25, se: 0.08 },
+      prior_transplant: { beta: 0.35, se: 0.08 },
+      recipient_diabetes: { beta: 0.15, se: 0.06 },
+      ischemia_hours: { beta: 0.013, se: 0.004 },
+      size_mismatch: { beta: 0.4, se: 0.15 },
+      abo_pathway: { beta: 0.45, se: 0.18 },
+      cmv_mismatch: { beta: 0.15, se: 0.07 },
+      ebv_mismatch: { beta: 0.1, se: 0.08 },
+      comorbidity: { beta: 0.03, se: 0.01 },
+    },
+    kdri_replaces: ['donor_age', 'donor_dcd'],
+  },
+  liver: {
+    intercept: { beta: -2.45, se: 0.05 },
+    terms: {
+      donor_age: { beta: 0.12, se: 0.03 },
+      donor_dcd: { beta: 0.55, se: 0.1 },
+      living_donor: { beta: 0.1, se: 0.12 },
+      recipient_age: { beta: 0.06, se: 0.03 },
+      meld: { beta: 0.2, se: 0.05 },
+      prior_transplant: { beta: 0.5, se: 0.1 },
+      recipient_diabetes: { beta: 0.1, se: 0.06 },
+      ischemia_hours: { beta: 0.04, se: 0.01 },
+      size_mismatch: { beta: 0.8, se: 0.25 },
+      split_graft: { beta: 0.35, se: 0.12 },
+      cmv_mismatch: { beta: 0.1, se: 0.07 },
+      ebv_mismatch: { beta: 0.08, se: 0.08 },
+      comorbidity: { beta: 0.03, se: 0.01 },
+    },
+  },
+  heart: {
+    intercept: { beta: -2.6, se: 0.06 },
+    terms: {
+      donor_age: { beta: 0.15, se: 0.04 },
+      recipient_age: { beta: 0.1, se: 0.04 },
+      hla_mismatches: { beta: 0.05, se: 0.03 },
+      cpra_80: { beta: 0.3, se: 0.12 },
+      prior_transplant: { beta: 0.4, se: 0.12 },
+      recipient_diabetes: { beta: 0.12, se: 0.07 },
+      ischemia_hours: { beta: 0.1, se: 0.03 },
+      size_mismatch: { beta: 0.9, se: 0.3 },
+      heart_status_1: { beta: 0.3, se: 0.1 },
+      cmv_mismatch: { beta: 0.12, se: 0.07 },
+      ebv_mismatch: { beta: 0.1, se: 0.08 },
+      comorbidity: { beta: 0.03, se: 0.01 },
+    },
+  },
+};
+
+// Predicted 1-year failure (percent) at which a match is shown as medium or high risk
+export const GRAFT_FAILURE_RISK_LEVELS = { medium: 10, high: 20 };
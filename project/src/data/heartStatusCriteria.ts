@@ -0,0 +1,41 @@
+import { HeartStatus, HeartStatusCriterion } from '../types';
+
+// Qualifying criteria of the adult heart allocation tiers (Status 1 most urgent).
+// validity_days is how long a justification holds before it must be extended
+// or the candidate is re-listed; Status 6 covers every other active candidate.
+export const HEART_STATUS_CRITERIA: Record<HeartStatus, HeartStatusCriterion[]> = {
+  '1': [
+    { code: 'va_ecmo', label: 'Veno-arterial ECMO', validity_days: 7 },
+    { code: 'bivad_non_dischargeable', label: 'Non-dischargeable, surgically implanted BiVAD', validity_days: 14 },
+    { code: 'mcsd_arrhythmia', label: 'MCSD with life-threatening ventricular arrhythmia', validity_days: 14 },
+  ],
+  '2': [
+    { code: 'lvad_non_dischargeable', label: 'Non-dischargeable, surgically implanted LVAD', validity_days: 14 },
+    { code: 'iabp', label: 'Intra-aortic balloon pump', validity_days: 14 },
+    { code: 'vt_vf_no_mcs', label: 'Ventricular tachycardia/fibrillation without MCS', validity_days: 14 },
+    { code: 'mcsd_malfunction', label: 'MCSD with device malfunction', validity_days: 14 },
+    { code: 'tah_bivad_rvad', label: 'Total artificial heart, BiVAD, RVAD or VAD for single ventricle', validity_days: 14 },
+    { code: 'percutaneous_mcsd', label: 'Percutaneous endovascular MCSD', validity_days: 14 },
+  ],
+  '3': [
+    { code: 'lvad_discretionary', label: 'Dischargeable LVAD, discretionary 30 days', validity_days: 30 },
+    { code: 'inotropes_monitored', label: 'Multiple or high-dose inotrope with continuous hemodynamic monitoring', validity_days: 14 },
+    { code: 'va_ecmo_extended', label: 'VA-ECMO after 7 days', validity_days: 14 },
+    { code: 'mcsd_complication', label: 'MCSD with device infection, hemolysis, pump thrombosis, RV failure or aortic insufficiency', validity_days: 14 },
+    { code: 'percutaneous_mcsd_extended', label: 'Percutaneous MCSD or IABP after 14 days', validity_days: 14 },
+  ],
+  '4': [
+    { code: 'lvad_dischargeable', label: 'Dischargeable LVAD without discretionary time', validity_days: 90 },
+    { code: 'inotropes_unmonitored', label: 'Inotropes without hemodynamic monitoring', validity_days: 90 },
+    { code: 'congenital', label: 'Congenital heart disease', validity_days: 90 },
+    { code: 'ischemic_angina', label: 'Ischemic heart disease with intractable angina', validity_days: 90 },
+    { code: 'amyloid_hcm_rcm', label: 'Amyloidosis, hypertrophic or restrictive cardiomyopathy', validity_days: 90 },
+    { code: 'retransplant', label: 'Re-transplant', validity_days: 90 },
+  ],
+  '5': [
+    { code: 'multi_organ', label: 'On the waiting list for at least one other organ at the same hospital', validity_days: 180 },
+  ],
+  '6': [
+    { code: 'adult_active', label: 'Adult candidate suitable for transplant', validity_days: 180 },
+  ],
+};
@@ -0,0 +1,36 @@
+// Reference HLA antigen (gene) frequencies used for the calculated PRA.
+// Pooled, approximate values per locus; each entry is the probability that a
+// single haplotype carries the antigen. Antigens missing from the table are
+// treated as frequency 0 by the cPRA calculator.
+export const HLA_ANTIGEN_FREQUENCIES: Record<string, Record<string, number>> = {
+  'HLA-A': {
+    A1: 0.11, A2: 0.24, A3: 0.11, A11: 0.07, A23: 0.04, A24: 0.09, A25: 0.02,
+    A26: 0.04, A29: 0.04, A30: 0.05, A31: 0.03, A32: 0.03, A33: 0.04, A34: 0.01,
+    A36: 0.01, A43: 0.002, A66: 0.005, A68: 0.05, A69: 0.003, A74: 0.01, A80: 0.002,
+  },
+  'HLA-B': {
+    B7: 0.09, B8: 0.08, B13: 0.02, B18: 0.04, B27: 0.03, B35: 0.08, B37: 0.01,
+    B38: 0.02, B39: 0.02, B41: 0.01, B42: 0.01, B44: 0.1, B45: 0.01, B46: 0.01,
+    B47: 0.002, B48: 0.005, B49: 0.01, B50: 0.01, B51: 0.05, B52: 0.01, B53: 0.02,
+    B54: 0.005, B55: 0.01, B56: 0.005, B57: 0.03, B58: 0.03, B59: 0.002, B60: 0.04,
+    B61: 0.02, B62: 0.04, B63: 0.01, B64: 0.01, B65: 0.02, B67: 0.002, B71: 0.005,
+    B72: 0.01, B73: 0.001, B75: 0.01, B76: 0.002, B77: 0.002, B78: 0.002, B81: 0.005,
+    B82: 0.001,
+  },
+  'HLA-C': {
+    C1: 0.04, C2: 0.04, C4: 0.12, C5: 0.07, C6: 0.09, C7: 0.25, C8: 0.04,
+    C9: 0.06, C10: 0.05, C12: 0.04, C14: 0.02, C15: 0.03, C16: 0.03, C17: 0.01,
+    C18: 0.005,
+  },
+  'HLA-DR': {
+    DR1: 0.09, DR4: 0.12, DR7: 0.12, DR8: 0.04, DR9: 0.02, DR10: 0.01, DR11: 0.11,
+    DR12: 0.02, DR13: 0.11, DR14: 0.03, DR15: 0.12, DR16: 0.02, DR17: 0.1, DR18: 0.01,
+  },
+  'HLA-DQ': {
+    DQ2: 0.22, DQ4: 0.04, DQ5: 0.17, DQ6: 0.25, DQ7: 0.2, DQ8: 0.09, DQ9: 0.03,
+  },
+  'HLA-DP': {
+    DP1: 0.06, DP2: 0.13, DP3: 0.1, DP4: 0.55, DP5: 0.05, DP6: 0.02, DP9: 0.02,
+    DP10: 0.01, DP11: 0.02, DP13: 0.02, DP14: 0.02, DP17: 0.01,
+  },
+};
@@ -0,0 +1,48 @@
+// HLA serologic equivalences used to normalize typings to antigen level.
+//
+// SPLIT_TO_BROAD lists every split antigen together with the broad antigen it
+// was split from (e.g. B51 and B52 are both splits of B5). Antigens that are
+// not listed have no broad and are their own equivalence class.
+export const SPLIT_TO_BROAD: Record<string, string> = {
+  // HLA-A
+  A23: 'A9', A24: 'A9',
+  A25: 'A10', A26: 'A10', A34: 'A10', A66: 'A10',
+  A29: 'A19', A30: 'A19', A31: 'A19', A32: 'A19', A33: 'A19', A74: 'A19',
+  A68: 'A28', A69: 'A28',
+  // HLA-B
+  B51: 'B5', B52: 'B5',
+  B44: 'B12', B45: 'B12',
+  B64: 'B14', B65: 'B14',
+  B62: 'B15', B63: 'B15', B75: 'B15', B76: 'B15', B77: 'B15',
+  B38: 'B16', B39: 'B16',
+  B57: 'B17', B58: 'B17',
+  B49: 'B21', B50: 'B21',
+  B54: 'B22', B55: 'B22', B56: 'B22',
+  B60: 'B40', B61: 'B40',
+  B71: 'B70', B72: 'B70',
+  // HLA-C
+  C9: 'C3', C10: 'C3',
+  // HLA-DR
+  DR15: 'DR2', DR16: 'DR2',
+  DR17: 'DR3', DR18: 'DR3',
+  DR11: 'DR5', DR12: 'DR5',
+  DR13: 'DR6', DR14: 'DR6',
+  // HLA-DQ
+  DQ5: 'DQ1', DQ6: 'DQ1',
+  DQ7: 'DQ3', DQ8: 'DQ3', DQ9: 'DQ3',
+};
+
+// Molecular (two-field) alleles whose serologic antigen differs from the
+// allele group. Everything else maps group -> antigen (A*02:01 -> A2), and a
+// one-field typing of a split group stays at the broad (B*15 -> B15).
+export const MOLECULAR_TO_ANTIGEN: Record<string, string> = {
+  'B*14:01': 'B64', 'B*14:02': 'B65',
+  'B*15:01': 'B62', 'B*15:02': 'B75', 'B*15:03': 'B72', 'B*15:04': 'B62',
+  'B*15:05': 'B62', 'B*15:07': 'B62', 'B*15:08': 'B75', 'B*15:10': 'B71',
+  'B*15:11': 'B75', 'B*15:12': 'B76', 'B*15:13': 'B77', 'B*15:16': 'B63',
+  'B*15:17': 'B63', 'B*15:18': 'B71', 'B*15:21': 'B75',
+  'B*40:01': 'B60', 'B*40:02': 'B61', 'B*40:03': 'B61', 'B*40:06': 'B61',
+  'C*03:02': 'C10', 'C*03:03': 'C9', 'C*03:04': 'C10',
+  'DR*03:01': 'DR17', 'DR*03:02': 'DR18', 'DR*03:04': 'DR17',
+  'DQ*03:01': 'DQ7', 'DQ*03:02': 'DQ8', 'DQ*03:03': 'DQ9', 'DQ*03:04': 'DQ7',
+};
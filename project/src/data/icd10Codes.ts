@@ -0,0 +1,113 @@
+import { CodedCondition } from '../types';
+
+// ICD-10-CM subset covering the conditions that drive donor and candidate
+// eligibility and comorbidity scoring. Not the full code set; extend as needed.
+export const ICD10_CODES: CodedCondition[] = [
+  // Infectious disease
+  { code: 'A15.0', label: 'Tuberculosis of lung' },
+  { code: 'A41.9', label: 'Sepsis, unspecified organism' },
+  { code: 'B18.1', label: 'Chronic viral hepatitis B without delta-agent' },
+  { code: 'B18.2', label: 'Chronic viral hepatitis C' },
+  { code: 'B20', label: 'Human immunodeficiency virus [HIV] disease' },
+  { code: 'B25.9', label: 'Cytomegaloviral disease, unspecified' },
+  { code: 'B37.7', label: 'Candidal sepsis' },
+  { code: 'B44.9', label: 'Aspergillosis, unspecified' },
+  { code: 'N39.0', label: 'Urinary tract infection, site not specified' },
+  { code: 'J18.9', label: 'Pneumonia, unspecified organism' },
+
+  // Neoplasms
+  { code: 'C18.9', label: 'Malignant neoplasm of colon, unspecified' },
+  { code: 'C22.0', label: 'Liver cell carcinoma' },
+  { code: 'C34.90', label: 'Malignant neoplasm of unspecified part of unspecified bronchus or lung' },
+  { code: 'C43.9', label: 'Malignant melanoma of skin, unspecified' },
+  { code: 'C44.91', label: 'Basal cell carcinoma of skin, unspecified' },
+  { code: 'C50.919', label: 'Malignant neoplasm of unspecified site of unspecified female breast' },
+  { code: 'C61', label: 'Malignant neoplasm of prostate' },
+  { code: 'C64.9', label: 'Malignant neoplasm of unspecified kidney, except renal pelvis' },
+  { code: 'C71.9', label: 'Malignant neoplasm of brain, unspecified' },
+  { code: 'C79.9', label: 'Secondary malignant neoplasm of unspecified site' },
+  { code: 'C90.00', label: 'Multiple myeloma not having achieved remission' },
+  { code: 'C91.10', label: 'Chronic lymphocytic leukemia of B-cell type not having achieved remission' },
+  { code: 'D33.2', label: 'Benign neoplasm of brain, unspecified' },
+  { code: 'Z85.3', label: 'Personal history of malignant neoplasm of breast' },
+
+  // Endocrine and metabolic
+  { code: 'E10.9', label: 'Type 1 diabetes mellitus without complications' },
+  { code: 'E10.22', label: 'Type 1 diabetes mellitus with diabetic chronic kidney disease' },
+  { code: 'E11.9', label: 'Type 2 diabetes mellitus without complications' },
+  { code: 'E11.22', label: 'Type 2 diabetes mellitus with diabetic chronic kidney disease' },
+  { code: 'E11.65', label: 'Type 2 diabetes mellitus with hyperglycemia' },
+  { code: 'E66.01', label: 'Morbid (severe) obesity due to excess calories' },
+  { code: 'E83.01', label: 'Wilson\'s disease' },
+  { code: 'E83.110', label: 'Hereditary hemochromatosis' },
+  { code: 'E88.01', label: 'Alpha-1-antitrypsin deficiency' },
+
+  // Mental and behavioural
+  { code: 'F10.20', label: 'Alcohol dependence, uncomplicated' },
+  { code: 'F11.20', label: 'Opioid dependence, uncomplicated' },
+  { code: 'F14.20', label: 'Cocaine dependence, uncomplicated' },
+  { code: 'F17.210', label: 'Nicotine dependence, cigarettes, uncomplicated' },
+  { code: 'F20.9', label: 'Schizophrenia, unspecified' },
+  { code: 'F31.9', label: 'Bipolar disorder, unspecified' },
+  { code: 'Z91.19', label: 'Patient\'s noncompliance with other medical treatment and regimen' },
+
+  // Nervous system
+  { code: 'G93.1', label: 'Anoxic brain damage, not elsewhere classified' },
+  { code: 'G30.9', label: 'Alzheimer\'s disease, unspecified' },
+  { code: 'I63.9', label: 'Cerebral infarction, unspecified' },
+  { code: 'I61.9', label: 'Nontraumatic intracerebral hemorrhage, unspecified' },
+  { code: 'S06.9X0A', label: 'Unspecified intracranial injury without loss of consciousness, initial encounter' },
+
+  // Circulatory
+  { code: 'I10', label: 'Essential (primary) hypertension' },
+  { code: 'I12.9', label: 'Hypertensive chronic kidney disease with stage 1-4 or unspecified CKD' },
+  { code: 'I21.9', label: 'Acute myocardial infarction, unspecified' },
+  { code: 'I25.10', label: 'Atherosclerotic heart disease of native coronary artery without angina pectoris' },
+  { code: 'I27.0', label: 'Primary pulmonary hypertension' },
+  { code: 'I27.20', label: 'Pulmonary hypertension, unspecified' },
+  { code: 'I35.0', label: 'Nonrheumatic aortic (valve) stenosis' },
+  { code: 'I42.0', label: 'Dilated cardiomyopathy' },
+  { code: 'I42.1', label: 'Obstructive hypertrophic cardiomyopathy' },
+  { code: 'I46.9', label: 'Cardiac arrest, cause unspecified' },
+  { code: 'I47.2', label: 'Ventricular tachycardia' },
+  { code: 'I48.91', label: 'Unspecified atrial fibrillation' },
+  { code: 'I50.9', label: 'Heart failure, unspecified' },
+  { code: 'I73.9', label: 'Peripheral vascular disease, unspecified' },
+  { code: 'Q24.9', label: 'Congenital malformation of heart, unspecified' },
+
+  // Respiratory
+  { code: 'J44.9', label: 'Chronic obstructive pulmonary disease, unspecified' },
+  { code: 'J84.10', label: 'Pulmonary fibrosis, unspecified' },
+  { code: 'E84.0', label: 'Cystic fibrosis with pulmonary manifestations' },
+
+  // Digestive and liver
+  { code: 'K70.30', label: 'Alcoholic cirrhosis of liver without ascites' },
+  { code: 'K72.90', label: 'Hepatic failure, unspecified without coma' },
+  { code: 'K74.60', label: 'Unspecified cirrhosis of liver' },
+  { code: 'K75.81', label: 'Nonalcoholic steatohepatitis (NASH)' },
+  { code: 'K76.0', label: 'Fatty (change of) liver, not elsewhere classified' },
+  { code: 'K76.6', label: 'Portal hypertension' },
+  { code: 'K83.01', label: 'Primary sclerosing cholangitis' },
+  { code: 'K74.3', label: 'Primary biliary cirrhosis' },
+  { code: 'T39.1X2A', label: 'Poisoning by 4-Aminophenol derivatives, intentional self-harm, initial encounter' },
+
+  // Kidney and urinary
+  { code: 'N03.9', label: 'Chronic nephritic syndrome with unspecified morphologic changes' },
+  { code: 'N18.3', label: 'Chronic kidney disease, stage 3 (moderate)' },
+  { code: 'N18.4', label: 'Chronic kidney disease, stage 4 (severe)' },
+  { code: 'N18.6', label: 'End stage renal disease' },
+  { code: 'N17.9', label: 'Acute kidney failure, unspecified' },
+  { code: 'N20.0', label: 'Calculus of kidney' },
+  { code: 'N04.9', label: 'Nephrotic syndrome with unspecified morphologic changes' },
+  { code: 'Q61.3', label: 'Polycystic kidney, unspecified' },
+  { code: 'R80.9', label: 'Proteinuria, unspecified' },
+  { code: 'R31.9', label: 'Hematuria, unspecified' },
+  { code: 'Z99.2', label: 'Dependence on renal dialysis' },
+
+  // Injury and external causes
+  { code: 'S26.90XA', label: 'Unspecified injury of heart, initial encounter' },
+  { code: 'S27.9XXA', label: 'Injury of unspecified intrathoracic organ, initial encounter' },
+  { code: 'S37.009A', label: 'Unspecified injury of unspecified kidney, initial encounter' },
+  { code: 'T51.8X1A', label: 'Toxic effect of other alcohols, accidental, initial encounter' },
+  { code: 'X95.9XXA', label: 'Assault by unspecified firearm discharge, initial encounter' },
+];
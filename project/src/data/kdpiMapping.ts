@@ -0,0 +1,35 @@
+// KDRI -> KDPI mapping used by the kidney donor quality index.
+//
+// KDRI_SCALING_FACTOR is the median KDRI_Rao of the reference population of
+// deceased kidney donors recovered in the reference year; dividing by it gives
+// KDRI_median (1.0 = median donor). KDPI_MAPPING is an approximation of the
+// published mapping table sampled every 5 percentiles: each entry is the
+// highest KDRI_median at that KDPI. Replace both together when the yearly
+// reference table is updated.
+export const KDRI_REFERENCE_YEAR = 2023;
+
+export const KDRI_SCALING_FACTOR = 1.4044;
+
+export const KDPI_MAPPING: { kdpi: number; max_kdri: number }[] = [
+  { kdpi: 0, max_kdri: 0.45 },
+  { kdpi: 5, max_kdri: 0.63 },
+  { kdpi: 10, max_kdri: 0.69 },
+  { kdpi: 15, max_kdri: 0.74 },
+  { kdpi: 20, max_kdri: 0.78 },
+  { kdpi: 25, max_kdri: 0.82 },
+  { kdpi: 30, max_kdri: 0.86 },
+  { kdpi: 35, max_kdri: 0.90 },
+  { kdpi: 40, max_kdri: 0.93 },
+  { kdpi: 45, max_kdri: 0.97 },
+  { kdpi: 50, max_kdri: 1.00 },
+  { kdpi: 55, max_kdri: 1.04 },
+  { kdpi: 60, max_kdri: 1.08 },
+  { kdpi: 65, max_kdri: 1.13 },
+  { kdpi: 70, max_kdri: 1.18 },
+  { kdpi: 75, max_kdri: 1.24 },
+  { kdpi: 80, max_kdri: 1.32 },
+  { kdpi: 85, max_kdri: 1.42 },
+  { kdpi: 90, max_kdri: 1.55 },
+  { kdpi: 95, max_kdri: 1.77 },
+  { kdpi: 100, max_kdri: 2.60 },
+];
@@ -0,0 +1,14 @@
+import { LivingDonorEvaluationItem } from '../types';
+
+// Work-up a living donor completes before surgery can be scheduled
+export const LIVING_DONOR_EVALUATION_ITEMS: LivingDonorEvaluationItem[] = [
+  { code: 'informed_consent', label: 'Informed consent and cooling-off period' },
+  { code: 'independent_advocate', label: 'Independent living donor advocate review' },
+  { code: 'psychosocial', label: 'Psychosocial evaluation' },
+  { code: 'medical_history_exam', label: 'Medical history and physical examination' },
+  { code: 'labs_serology', label: 'Laboratory work-up and infectious serology' },
+  { code: 'renal_function', label: 'Renal function (measured GFR, urinalysis)' },
+  { code: 'imaging', label: 'Cross-sectional imaging of the donor organ' },
+  { code: 'crossmatch', label: 'Final crossmatch with the intended recipient' },
+  { code: 'ethics_committee', label: 'Authorization committee approval' },
+];
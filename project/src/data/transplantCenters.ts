@@ -0,0 +1,27 @@
+import { TransplantCenter } from '../types';
+
+// Transplant centers that donor and recipient locations resolve to.
+// Coordinates are approximate (hospital campus) and only used to estimate
+// distance and transport time. Aliases are matched against free-text locations
+// entered before a center could be picked.
+export const TRANSPLANT_CENTERS: TransplantCenter[] = [
+  { id: 'aiims-delhi', name: 'AIIMS New Delhi', city: 'New Delhi', state: 'Delhi', latitude: 28.5672, longitude: 77.2100, aliases: ['aiims delhi', 'all india institute of medical sciences'] },
+  { id: 'ilbs-delhi', name: 'Institute of Liver and Biliary Sciences', city: 'New Delhi', state: 'Delhi', latitude: 28.5120, longitude: 77.1740, aliases: ['ilbs'] },
+  { id: 'medanta-gurugram', name: 'Medanta – The Medicity', city: 'Gurugram', state: 'Haryana', latitude: 28.4395, longitude: 77.0426, aliases: ['medanta', 'gurgaon'] },
+  { id: 'pgimer-chandigarh', name: 'PGIMER Chandigarh', city: 'Chandigarh', state: 'Chandigarh', latitude: 30.7649, longitude: 76.7750, aliases: ['pgimer', 'pgi chandigarh'] },
+  { id: 'sgpgi-lucknow', name: 'SGPGIMS Lucknow', city: 'Lucknow', state: 'Uttar Pradesh', latitude: 26.7433, longitude: 80.9366, aliases: ['sgpgi', 'sanjay gandhi postgraduate institute'] },
+  { id: 'sms-jaipur', name: 'SMS Hospital', city: 'Jaipur', state: 'Rajasthan', latitude: 26.9049, longitude: 75.8153, aliases: ['sawai man singh'] },
+  { id: 'ikdrc-ahmedabad', name: 'Institute of Kidney Diseases and Research Centre', city: 'Ahmedabad', state: 'Gujarat', latitude: 23.0524, longitude: 72.6035, aliases: ['ikdrc'] },
+  { id: 'kem-mumbai', name: 'KEM Hospital', city: 'Mumbai', state: 'Maharashtra', latitude: 19.0027, longitude: 72.8416, aliases: ['king edward memorial', 'kem mumbai'] },
+  { id: 'kokilaben-mumbai', name: 'Kokilaben Dhirubhai Ambani Hospital', city: 'Mumbai', state: 'Maharashtra', latitude: 19.1311, longitude: 72.8248, aliases: ['kokilaben'] },
+  { id: 'ruby-hall-pune', name: 'Ruby Hall Clinic', city: 'Pune', state: 'Maharashtra', latitude: 18.5323, longitude: 73.8770, aliases: ['ruby hall'] },
+  { id: 'ipgmer-kolkata', name: 'IPGME&R and SSKM Hospital', city: 'Kolkata', state: 'West Bengal', latitude: 22.5397, longitude: 88.3434, aliases: ['sskm', 'ipgmer'] },
+  { id: 'aiims-bhubaneswar', name: 'AIIMS Bhubaneswar', city: 'Bhubaneswar', state: 'Odisha', latitude: 20.2312, longitude: 85.7760, aliases: [] },
+  { id: 'aig-hyderabad', name: 'AIG Hospitals', city: 'Hyderabad', state: 'Telangana', latitude: 17.4434, longitude: 78.3640, aliases: ['asian institute of gastroenterology'] },
+  { id: 'nims-hyderabad', name: 'Nizam\'s Institute of Medical Sciences', city: 'Hyderabad', state: 'Telangana', latitude: 17.4216, longitude: 78.4522, aliases: ['nims'] },
+  { id: 'narayana-bengaluru', name: 'Narayana Health City', city: 'Bengaluru', state: 'Karnataka', latitude: 12.8103, longitude: 77.6950, aliases: ['narayana health', 'bangalore'] },
+  { id: 'manipal-bengaluru', name: 'Manipal Hospital Old Airport Road', city: 'Bengaluru', state: 'Karnataka', latitude: 12.9592, longitude: 77.6485, aliases: ['manipal hospital'] },
+  { id: 'apollo-chennai', name: 'Apollo Hospitals Greams Road', city: 'Chennai', state: 'Tamil Nadu', latitude: 13.0630, longitude: 80.2517, aliases: ['apollo chennai', 'madras'] },
+  { id: 'cmc-vellore', name: 'Christian Medical College', city: 'Vellore', state: 'Tamil Nadu', latitude: 12.9248, longitude: 79.1353, aliases: ['cmc vellore'] },
+  { id: 'amrita-kochi', name: 'Amrita Institute of Medical Sciences', city: 'Kochi', state: 'Kerala', latitude: 10.0325, longitude: 76.2932, aliases: ['amrita hospital', 'cochin'] },
+];
@@ -0,0 +1,10 @@
+import { Donor, OrganType, ViabilityStatus } from '../types';
+import { viabilityService } from '../services/viability.service';
+import { useClock } from '../context/ClockContext';
+
+// Live cold-ischemia window of a donor organ under the active policy, refreshed on the
+// shared clock tick
+export function useViability(donor: Donor, organ: OrganType): ViabilityStatus {
+  const { now, viabilityHours } = useClock();
+  return viabilityService.getStatus(donor, organ, now, viabilityHours);
+}
@@ -0,0 +1,81 @@
+// Maximum-weight bipartite assignment (Hungarian algorithm, O(n^3)).
+//
+// utility[row][col] is the value of assigning row to col, or null when the pair
+// is not allowed. Returns, for each row, the assigned column or -1. Rows and
+// columns may differ in number; every row and column is used at most once.
+// Pairs with null or non-positive utility are never returned, so leaving a row
+// unassigned is always preferred to a forbidden pair.
+export function solveAssignment(utility: (number | null)[][]): number[] {
+  const rows = utility.length;
+  const cols = rows > 0 ? Math.max(...utility.map(r => r.length)) : 0;
+  if (rows === 0 || cols === 0) return Array(rows).fill(-1);
+
+  // Pad to a square cost matrix; forbidden and padding cells are worth 0
+  const n = Math.max(rows, cols);
+  const value = (i: number, j: number) => {
+    const u = i < rows && j < cols ? utility[i][j] ?? null : null;
+    return u !== null && u > 0 ? u : 0;
+  };
+  let maxValue = 0;
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) maxValue = Math.max(maxValue, value(i, j));
+  }
+  const cost = (i: number, j: number) => maxValue - value(i, j);
+
+  // Potentials u (rows) / v (cols) and matching p[col] = row, 1-indexed with 0 as the virtual start
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const p = new Array<number>(n + 1).fill(0);
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = Array<number>(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const row = p[j] - 1;
+    const col = j - 1;
+    if (row < rows && col < cols && value(row, col) > 0) {
+      assignment[row] = col;
+    }
+  }
+  return assignment;
+}
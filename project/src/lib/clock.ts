@@ -0,0 +1,16 @@
+// Source of the current time. Ischemia countdowns and other time-dependent rules read it
+// through a Clock instead of Date.now(), so a past moment can be replayed for review.
+export interface Clock {
+  now(): number; // epoch milliseconds
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// Clock stopped at a given moment
+export function fixedClock(at: number | string | Date): Clock {
+  const time = new Date(at).getTime();
+  if (Number.isNaN(time)) throw new Error(`Invalid clock time: ${String(at)}`);
+  return { now: () => time };
+}
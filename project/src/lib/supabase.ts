@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import { BloodType, Gender, OrganType, UNOSStatus } from '../types';
+import { AboSubtype, AboTiter, AllocationPolicyDocument, BloodType, CodedCondition, DonorEthnicity, DonorSerology, DonorType, Gender, HeartStatus, KpdExchangeKind, KpdExchangeStatus, KpdPairStatus, MeldLabResult, OrganType, SerologyResult, UNOSStatus } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -52,13 +52,26 @@ export type Database = {
           organs_available: OrganType[];
           hla_typing: Record<string, any>;
           medical_history: string;
+          conditions: CodedCondition[];
           height_cm: number | null;
           weight_kg: number | null;
           cause_of_death: string | null;
           cold_ischemia_time_hours: number | null;
           ischemia_start_at: string | null; // NEW: anchor for CIT countdown
+          ethnicity: DonorEthnicity | null;
+          hypertension: boolean | null;
+          diabetes: boolean | null;
+          creatinine_mg_dl: number | null;
+          serology: DonorSerology;
+          abo_subtype: AboSubtype | null;
+          split_liver_eligible: boolean;
+          donor_type: DonorType;
+          intended_recipient_id: string | null;
+          evaluation_checklist: string[];
+          planned_surgery_date: string | null;
           status: 'available' | 'matched' | 'unavailable';
           location: string | null;
+          center_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -71,13 +84,26 @@ export type Database = {
           organs_available?: OrganType[];
           hla_typing?: Record<string, any>;
           medical_history?: string;
+          conditions?: CodedCondition[];
           height_cm?: number | null;
           weight_kg?: number | null;
           cause_of_death?: string | null;
           cold_ischemia_time_hours?: number | null;
           ischemia_start_at?: string | null; // NEW
+          ethnicity?: DonorEthnicity | null;
+          hypertension?: boolean | null;
+          diabetes?: boolean | null;
+          creatinine_mg_dl?: number | null;
+          serology?: DonorSerology;
+          abo_subtype?: AboSubtype | null;
+          split_liver_eligible?: boolean;
+          donor_type?: DonorType;
+          intended_recipient_id?: string | null;
+          evaluation_checklist?: string[];
+          planned_surgery_date?: string | null;
           status?: 'available' | 'matched' | 'unavailable';
           location?: string | null;
+          center_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -90,13 +116,26 @@ export type Database = {
           organs_available?: OrganType[];
           hla_typing?: Record<string, any>;
           medical_history?: string;
+          conditions?: CodedCondition[];
           height_cm?: number | null;
           weight_kg?: number | null;
           cause_of_death?: string | null;
           cold_ischemia_time_hours?: number | null;
           ischemia_start_at?: string | null; // NEW
+          ethnicity?: DonorEthnicity | null;
+          hypertension?: boolean | null;
+          diabetes?: boolean | null;
+          creatinine_mg_dl?: number | null;
+          serology?: DonorSerology;
+          abo_subtype?: AboSubtype | null;
+          split_liver_eligible?: boolean;
+          donor_type?: DonorType;
+          intended_recipient_id?: string | null;
+          evaluation_checklist?: string[];
+          planned_surgery_date?: string | null;
           status?: 'available' | 'matched' | 'unavailable';
           location?: string | null;
+          center_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -112,12 +151,30 @@ export type Database = {
           hla_typing: Record<string, any>;
           urgency_score: number;
           medical_history: string;
+          conditions: CodedCondition[];
           height_cm: number | null;
           weight_kg: number | null;
           meld_score: number | null;
+          meld_labs: MeldLabResult[];
           unos_status: UNOSStatus | null;
+          heart_status: HeartStatus | null;
+          heart_status_criterion: string | null;
+          heart_status_justification: string | null;
+          heart_status_expires_at: string | null;
+          unacceptable_antigens: string[];
+          diabetes: boolean;
+          prior_transplant: boolean;
+          accepts_hcv_positive: boolean;
+          accepts_hbcab_positive: boolean;
+          cmv_serostatus: SerologyResult;
+          ebv_serostatus: SerologyResult;
+          abo_titers: AboTiter[];
+          accepts_abo_incompatible: boolean;
+          listing_date: string;
+          dialysis_start_date: string | null;
           status: 'active' | 'transplanted' | 'inactive';
           location: string | null;
+          center_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -131,12 +188,30 @@ export type Database = {
           hla_typing?: Record<string, any>;
           urgency_score?: number;
           medical_history?: string;
+          conditions?: CodedCondition[];
           height_cm?: number | null;
           weight_kg?: number | null;
           meld_score?: number | null;
+          meld_labs?: MeldLabResult[];
           unos_status?: UNOSStatus | null;
+          heart_status?: HeartStatus | null;
+          heart_status_criterion?: string | null;
+          heart_status_justification?: string | null;
+          heart_status_expires_at?: string | null;
+          unacceptable_antigens?: string[];
+          diabetes?: boolean;
+          prior_transplant?: boolean;
+          accepts_hcv_positive?: boolean;
+          accepts_hbcab_positive?: boolean;
+          cmv_serostatus?: SerologyResult;
+          ebv_serostatus?: SerologyResult;
+          abo_titers?: AboTiter[];
+          accepts_abo_incompatible?: boolean;
+          listing_date?: string;
+          dialysis_start_date?: string | null;
           status?: 'active' | 'transplanted' | 'inactive';
           location?: string | null;
+          center_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -150,12 +225,30 @@ export type Database = {
           hla_typing?: Record<string, any>;
           urgency_score?: number;
           medical_history?: string;
+          conditions?: CodedCondition[];
           height_cm?: number | null;
           weight_kg?: number | null;
           meld_score?: number | null;
+          meld_labs?: MeldLabResult[];
           unos_status?: UNOSStatus | null;
+          heart_status?: HeartStatus | null;
+          heart_status_criterion?: string | null;
+          heart_status_justification?: string | null;
+          heart_status_expires_at?: string | null;
+          unacceptable_antigens?: string[];
+          diabetes?: boolean;
+          prior_transplant?: boolean;
+          accepts_hcv_positive?: boolean;
+          accepts_hbcab_positive?: boolean;
+          cmv_serostatus?: SerologyResult;
+          ebv_serostatus?: SerologyResult;
+          abo_titers?: AboTiter[];
+          accepts_abo_incompatible?: boolean;
+          listing_date?: string;
+          dialysis_start_date?: string | null;
           status?: 'active' | 'transplanted' | 'inactive';
           location?: string | null;
+          center_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -176,6 +269,10 @@ export type Database = {
           status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
           notes: string | null;
           allocated_by: string | null;
+          policy_version_id: string | null;
+          exchange_id: string | null;
+          graft_outcome: 'functioning' | 'failed' | null;
+          graft_outcome_date: string | null;
           created_at: string;
         };
         Insert: {
@@ -193,6 +290,10 @@ export type Database = {
           status?: 'pending' | 'confirmed' | 'completed' | 'cancelled';
           notes?: string | null;
           allocated_by?: string | null;
+          policy_version_id?: string | null;
+          exchange_id?: string | null;
+          graft_outcome?: 'functioning' | 'failed' | null;
+          graft_outcome_date?: string | null;
           created_at?: string;
         };
         Update: {
@@ -210,9 +311,109 @@ export type Database = {
           status?: 'pending' | 'confirmed' | 'completed' | 'cancelled';
           notes?: string | null;
           allocated_by?: string | null;
+          policy_version_id?: string | null;
+          exchange_id?: string | null;
+          graft_outcome?: 'functioning' | 'failed' | null;
+          graft_outcome_date?: string | null;
+          created_at?: string;
+        };
+      };
+      allocation_policies: {
+        Row: {
+          id: string;
+          version: number;
+          name: string;
+          notes: string | null;
+          document: AllocationPolicyDocument;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          activated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          version: number;
+          name: string;
+          notes?: string | null;
+          document: AllocationPolicyDocument;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          activated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          version?: number;
+          name?: string;
+          notes?: string | null;
+          document?: AllocationPolicyDocument;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          activated_at?: string | null;
+        };
+      };
+      kpd_pairs: {
+        Row: {
+          id: string;
+          donor_id: string;
+          recipient_id: string | null;
+          status: KpdPairStatus;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          donor_id: string;
+          recipient_id?: string | null;
+          status?: KpdPairStatus;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          donor_id?: string;
+          recipient_id?: string | null;
+          status?: KpdPairStatus;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      kpd_exchanges: {
+        Row: {
+          id: string;
+          kind: KpdExchangeKind;
+          pair_ids: string[];
+          total_score: number;
+          status: KpdExchangeStatus;
+          locked_by: string | null;
+          locked_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: KpdExchangeKind;
+          pair_ids: string[];
+          total_score?: number;
+          status?: KpdExchangeStatus;
+          locked_by?: string | null;
+          locked_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          kind?: KpdExchangeKind;
+          pair_ids?: string[];
+          total_score?: number;
+          status?: KpdExchangeStatus;
+          locked_by?: string | null;
+          locked_at?: string;
           created_at?: string;
         };
       };
     };
   };
-};
\ No newline at end of file
+};
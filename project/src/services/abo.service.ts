@@ -0,0 +1,123 @@
+import { AboAntibody, AboSubtype, AboTiter, AllocationPolicyDocument, BloodCompatibility, BloodCompatibilityClass, BloodType, Donor, OrganType, Recipient } from '../types';
+import { livingDonorService } from './livingDonor.service';
+
+export const BLOOD_COMPATIBILITY_LABELS: Record<BloodCompatibilityClass, string> = {
+  identical: 'ABO identical',
+  compatible: 'ABO compatible',
+  a2_to_b: 'A2/A2B to B',
+  abo_incompatible: 'ABO-incompatible (desensitized)',
+  incompatible: 'ABO incompatible',
+};
+
+export const ABO_ANTIBODY_LABELS: Record<AboAntibody, string> = {
+  anti_a: 'Anti-A',
+  anti_b: 'Anti-B',
+};
+
+// Doubling dilutions a titer is reported in
+export const TITER_DILUTIONS = [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024, 2048];
+
+type AboAntigen = 'A' | 'B';
+
+class AboService {
+  getAntigens(bloodType: BloodType): AboAntigen[] {
+    const group = bloodType.slice(0, -1);
+    return (['A', 'B'] as AboAntigen[]).filter(antigen => group.includes(antigen));
+  }
+
+  // Subtypes that apply to a blood type; none for B and O
+  getSubtypeOptions(bloodType: BloodType): AboSubtype[] {
+    const antigens = this.getAntigens(bloodType);
+    if (!antigens.includes('A')) return [];
+    return antigens.includes('B') ? ['A1B', 'A2B'] : ['A1', 'A2'];
+  }
+
+  formatTiter(titer: number): string {
+    return `1:${titer}`;
+  }
+
+  // Most recent titer of an antibody, or null when none was measured
+  getLatestTiter(titers: AboTiter[] | null | undefined, antibody: AboAntibody): AboTiter | null {
+    return (titers || [])
+      .filter(t => t.antibody === antibody)
+      .sort((a, b) => new Date(b.measured_at).getTime() - new Date(a.measured_at).getTime())[0] ?? null;
+  }
+
+  // How the donor's blood group can reach the recipient. The policy table decides first;
+  // kidneys outside it may still go through a pathway the policy enables and the titers allow.
+  classify(donor: Pick<Donor, 'blood_type' | 'abo_subtype' | 'donor_type'>, recipient: Pick<Recipient, 'blood_type' | 'abo_titers' | 'accepts_abo_incompatible'>, organ: OrganType, policy: AllocationPolicyDocument, now: number): BloodCompatibility {
+    if ((policy.blood_compatibility[donor.blood_type] || []).includes(recipient.blood_type)) {
+      const identical = donor.blood_type === recipient.blood_type;
+      return { class: identical ? 'identical' : 'compatible', titers: [], detail: `${donor.blood_type} → ${recipient.blood_type}` };
+    }
+
+    const incompatible = `Blood type ${recipient.blood_type} cannot receive from a ${donor.blood_type} donor`;
+    const recipientAntigens = this.getAntigens(recipient.blood_type);
+    const missing = this.getAntigens(donor.blood_type).filter(a => !recipientAntigens.includes(a));
+    // Pathways cross ABO groups only; an Rh-positive organ still needs an Rh-positive recipient
+    const rhCompatible = donor.blood_type.endsWith('-') || recipient.blood_type.endsWith('+');
+    if (organ !== 'kidney' || missing.length === 0 || !rhCompatible) {
+      return { class: 'incompatible', titers: [], detail: `${incompatible}.` };
+    }
+
+    const reasons: string[] = [];
+
+    const a2ToB = policy.abo_pathways.a2_to_b;
+    const isA2 = donor.abo_subtype === 'A2' || donor.abo_subtype === 'A2B';
+    if (a2ToB.enabled && isA2 && recipientAntigens.length === 1 && recipientAntigens[0] === 'B') {
+      const check = this.checkTiters(recipient.abo_titers, ['anti_a'], a2ToB.max_anti_a_titer, a2ToB.max_titer_age_days, now);
+      if (check.ok) {
+        return { class: 'a2_to_b', titers: check.titers, detail: `${donor.abo_subtype} donor to B candidate, anti-A ${this.formatTiter(check.titers[0].titer)}` };
+      }
+      reasons.push(`A2-to-B: ${check.reason}`);
+    }
+
+    const aboi = policy.abo_pathways.abo_incompatible_living;
+    if (aboi.enabled && livingDonorService.isLiving(donor) && recipient.accepts_abo_incompatible) {
+      const antibodies = missing.map((a): AboAntibody => (a === 'A' ? 'anti_a' : 'anti_b'));
+      const check = this.checkTiters(recipient.abo_titers, antibodies, aboi.max_baseline_titer, aboi.max_titer_age_days, now);
+      if (check.ok) {
+        const titers = check.titers.map(t => `${ABO_ANTIBODY_LABELS[t.antibody]} ${this.formatTiter(t.titer)}`).join(', ');
+        return { class: 'abo_incompatible', titers: check.titers, detail: `Desensitization required, baseline ${titers}` };
+      }
+      reasons.push(`ABO-incompatible living donation: ${check.reason}`);
+    }
+
+    return { class: 'incompatible', titers: [], detail: reasons.length > 0 ? `${incompatible} (${reasons.join('; ')}).` : `${incompatible}.` };
+  }
+
+  // Match relies on a policy pathway rather than the standard table
+  usesPathway(compatibility: BloodCompatibility | null | undefined): boolean {
+    return compatibility?.class === 'a2_to_b' || compatibility?.class === 'abo_incompatible';
+  }
+
+  // Risk points the policy adds when a match relies on a pathway
+  getRiskPenalty(compatibility: BloodCompatibility, policy: AllocationPolicyDocument): number {
+    if (compatibility.class === 'a2_to_b') return policy.abo_pathways.a2_to_b.risk_penalty;
+    if (compatibility.class === 'abo_incompatible') return policy.abo_pathways.abo_incompatible_living.risk_penalty;
+    return 0;
+  }
+
+  // Latest titer of each antibody must be recent enough and at or below the limit
+  private checkTiters(titers: AboTiter[], antibodies: AboAntibody[], maxTiter: number, maxAgeDays: number, now: number): { ok: true; titers: AboTiter[] } | { ok: false; reason: string } {
+    const used: AboTiter[] = [];
+    for (const antibody of antibodies) {
+      const latest = this.getLatestTiter(titers, antibody);
+      const label = ABO_ANTIBODY_LABELS[antibody];
+      if (!latest) {
+        return { ok: false, reason: `no ${label} titer on file` };
+      }
+      const ageDays = Math.floor((now - new Date(latest.measured_at).getTime()) / (1000 * 60 * 60 * 24));
+      if (ageDays > maxAgeDays) {
+        return { ok: false, reason: `${label} titer is ${ageDays} days old, limit ${maxAgeDays}` };
+      }
+      if (latest.titer > maxTiter) {
+        return { ok: false, reason: `${label} titer ${this.formatTiter(latest.titer)} is above ${this.formatTiter(maxTiter)}` };
+      }
+      used.push(latest);
+    }
+    return { ok: true, titers: used };
+  }
+}
+
+export const aboService = new AboService();
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
-import { Donor, Recipient, Allocation, MatchResult } from '../types';
+import { Clock, systemClock } from '../lib/clock';
+import { Donor, Recipient, Allocation, OrganMatchResults, OrganType, BatchAllocationProposal } from '../types';
 import { matchingService } from './matching.service';
 
 class ApiService {
@@ -113,8 +114,11 @@ class ApiService {
 
     if (error) throw error;
 
-    // Update donor and recipient status
-    await this.updateDonorStatus(allocation.donor_id, 'allocated');
+    // Update donor and recipient status; a multi-organ donor stays available
+    // until every organ it offers has been allocated
+    if (await this.isDonorFullyAllocated(allocation.donor_id)) {
+      await this.updateDonorStatus(allocation.donor_id, 'allocated');
+    }
     await this.updateRecipientStatus(allocation.recipient_id, 'transplanted');
 
     return data;
@@ -155,18 +159,40 @@ class ApiService {
     await this.updateRecipientStatus(allocation.recipient_id, 'active');
   }
 
-  // Matching operations
-  async findMatches(donorId: string): Promise<MatchResult[]> {
-    const [donors, recipients] = await Promise.all([
+  // Matching operations; pass a fixed clock to see the matches as they stood at that time
+  async findMatches(donorId: string, clock: Clock = systemClock): Promise<OrganMatchResults[]> {
+    const [donors, recipients, allocatedOrgans] = await Promise.all([
       this.getDonors(),
-      this.getRecipients()
+      this.getRecipients(),
+      this.getAllocatedOrgans(donorId)
     ]);
 
     const donor = donors.find(d => d.id === donorId);
     if (!donor) throw new Error('Donor not found');
 
     const activeRecipients = recipients.filter(r => r.status === 'active');
-    return matchingService.findMatches(donor, activeRecipients);
+    return matchingService.withClock(clock).findMatches(donor, activeRecipients, allocatedOrgans);
+  }
+
+  // Batch proposal over every available donor and active recipient; nothing is saved
+  async proposeBatchAllocation(clock: Clock = systemClock): Promise<BatchAllocationProposal> {
+    const [donors, recipients, allocations] = await Promise.all([
+      this.getDonors(),
+      this.getRecipients(),
+      supabase.from('allocations').select('donor_id, organ_type').neq('status', 'cancelled'),
+    ]);
+
+    if (allocations.error) throw allocations.error;
+    const allocatedOrgansByDonor: Record<string, OrganType[]> = {};
+    (allocations.data || []).forEach((a: { donor_id: string; organ_type: OrganType }) => {
+      allocatedOrgansByDonor[a.donor_id] = [...(allocatedOrgansByDonor[a.donor_id] || []), a.organ_type];
+    });
+
+    return matchingService.withClock(clock).proposeBatchAllocation(
+      donors.filter(d => d.status === 'available'),
+      recipients.filter(r => r.status === 'active'),
+      allocatedOrgansByDonor
+    );
   }
 
   // Dashboard statistics
@@ -211,6 +237,30 @@ class ApiService {
     };
   }
 
+  // Organs of this donor already committed to a (non-cancelled) allocation
+  private async getAllocatedOrgans(donorId: string): Promise<OrganType[]> {
+    const { data, error } = await supabase
+      .from('allocations')
+      .select('organ_type')
+      .eq('donor_id', donorId)
+      .neq('status', 'cancelled');
+
+    if (error) throw error;
+    return (data || []).map((a: { organ_type: OrganType }) => a.organ_type);
+  }
+
+  private async isDonorFullyAllocated(donorId: string): Promise<boolean> {
+    const { data: donor, error } = await supabase
+      .from('donors')
+      .select('organs_available')
+      .eq('id', donorId)
+      .single();
+
+    if (error) throw error;
+    const allocatedOrgans = await this.getAllocatedOrgans(donorId);
+    return allocatedOrgans.length >= (donor?.organs_available?.length || 0);
+  }
+
   private async updateDonorStatus(id: string, status: Donor['status']) {
     await supabase
       .from('donors')
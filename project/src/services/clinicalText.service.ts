@@ -0,0 +1,148 @@
+import { ClinicalTextMatch } from '../types';
+import { CLINICAL_SYNONYMS } from '../data/clinicalSynonyms';
+
+// Cues before a term that negate it within the same clause ("denies chest pain")
+const PRE_NEGATIONS = [
+  'no', 'not', 'denies', 'denied', 'without', 'negative for', 'no history of', 'no evidence of',
+  'no signs of', 'free of', 'absence of', 'ruled out', 'rules out', 'never had', 'never',
+];
+
+// Cues after a term that negate it ("HCV negative", "sepsis was ruled out")
+const POST_NEGATIONS = ['negative', 'ruled out', 'was ruled out', 'excluded', 'was excluded', 'unlikely', 'resolved'];
+
+// A post cue that is itself negated affirms the term ("sepsis not ruled out", "cannot be excluded")
+const NEGATED_POST_CUE = /\b(not|cannot|can't|never)(\s+(be|been|yet))?\s*$/i;
+
+// A negation cue reaches this many words ahead of the term; cues after it must follow
+// closely and within the same list item ("HBV positive, HCV negative")
+const NEGATION_WINDOW_WORDS = 5;
+const POST_NEGATION_WINDOW_WORDS = 3;
+
+// A cue before a comma reaches the next list items only when the list is joined by
+// "or"/"nor" ("no fever, cough or cancer") and each item is at most this many words;
+// "no fever, metastatic cancer" affirms the cancer
+const LIST_ITEM_WORDS = 3;
+const LIST_JOIN = /\b(or|nor)\b/i;
+
+// For a malignancy a trailing "negative" describes the tumour ("cancer negative margins",
+// "carcinoma, receptor negative"), never its absence, so only cues before it negate it
+const MALIGNANCY_TERMS = new Set(['cancer', ...CLINICAL_SYNONYMS['cancer']]);
+
+// Clauses end at punctuation and at "but"/"however", so "no fever but sepsis" keeps sepsis
+const CLAUSE_BREAK = /[.;:!?\n]|\bbut\b|\bhowever\b|\bexcept\b/gi;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class ClinicalTextService {
+  // The term and its synonyms, longest first so "heart attack" wins over "mi"; capitalized
+  // synonyms are the case-sensitive abbreviations
+  getVariants(term: string): string[] {
+    const key = term.trim().toLowerCase();
+    const variants = new Set([key, ...(CLINICAL_SYNONYMS[key] || [])]);
+    return Array.from(variants).filter(Boolean).sort((a, b) => b.length - a.length);
+  }
+
+  // Every mention of the term or a synonym as a whole word, case-insensitive, negated or not
+  findMentions(text: string, term: string): ClinicalTextMatch[] {
+    if (!text) return [];
+    const mentions: ClinicalTextMatch[] = [];
+    const key = term.trim().toLowerCase();
+
+    this.getVariants(term).forEach(variant => {
+      const flags = variant === variant.toLowerCase() ? 'gi' : 'g';
+      const pattern = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(variant).replace(/\s+/g, '\\s+')}(?![A-Za-z0-9])`, flags);
+      let found: RegExpExecArray | null;
+      while ((found = pattern.exec(text)) !== null) {
+        const start = found.index;
+        const end = start + found[0].length;
+        // A longer variant already covers this span
+        if (mentions.some(m => start < m.end && end > m.start)) continue;
+        const malignancy = MALIGNANCY_TERMS.has(key) || MALIGNANCY_TERMS.has(variant);
+        mentions.push({ term, matched_text: found[0], start, end, negated: this.isNegated(text, start, end, malignancy) });
+      }
+    });
+
+    return mentions.sort((a, b) => a.start - b.start);
+  }
+
+  // First affirmed (not negated) mention of any of the terms, in text order
+  findFirst(text: string, terms: string[]): ClinicalTextMatch | null {
+    const affirmed = terms.flatMap(term => this.findMentions(text, term).filter(m => !m.negated));
+    return affirmed.sort((a, b) => a.start - b.start)[0] || null;
+  }
+
+  hasAffirmed(text: string, terms: string[]): boolean {
+    return this.findFirst(text, terms) !== null;
+  }
+
+  private isNegated(text: string, start: number, end: number, malignancy: boolean): boolean {
+    const { clauseStart, clauseEnd } = this.getClause(text, start, end);
+    const before = text.slice(clauseStart, start).split(',');
+    const following = text.slice(end, clauseEnd).split(',');
+    const own = before[before.length - 1];
+
+    if (this.hasCue(this.lastWords(own, NEGATION_WINDOW_WORDS), PRE_NEGATIONS)) return true;
+    if (before.length > 1 && this.isNegatedList(before, following)) return true;
+    return !malignancy && this.hasPostCue(this.firstWords(following[0], POST_NEGATION_WINDOW_WORDS));
+  }
+
+  private hasPostCue(window: string): boolean {
+    return POST_NEGATIONS.some(cue => {
+      const found = new RegExp(`(^|[^a-z0-9])${escapeRegExp(cue).replace(/\s+/g, '\\s+')}([^a-z0-9]|$)`, 'i').exec(window);
+      return found !== null && !NEGATED_POST_CUE.test(window.slice(0, found.index + found[1].length));
+    });
+  }
+
+  // The mention is an item of a list opened by a negation cue in an earlier comma segment,
+  // and the list is joined by "or"/"nor" at or after the mention
+  private isNegatedList(before: string[], following: string[]): boolean {
+    const own = before[before.length - 1];
+    if (this.wordCount(own) > LIST_ITEM_WORDS) return false;
+
+    let opened = false;
+    for (let i = before.length - 2; i >= 0 && !opened; i--) {
+      if (this.hasCue(this.lastWords(before[i], NEGATION_WINDOW_WORDS), PRE_NEGATIONS)) opened = true;
+      else if (this.wordCount(before[i]) > LIST_ITEM_WORDS) return false;
+    }
+    if (!opened) return false;
+
+    if (LIST_JOIN.test(own)) return true;
+    for (const item of following) {
+      if (LIST_JOIN.test(item)) return true;
+      if (this.wordCount(item) > LIST_ITEM_WORDS) return false;
+    }
+    return false;
+  }
+
+  private hasCue(window: string, cues: string[]): boolean {
+    return cues.some(cue => new RegExp(`(^|[^a-z0-9])${escapeRegExp(cue).replace(/\s+/g, '\\s+')}([^a-z0-9]|$)`, 'i').test(window));
+  }
+
+  private wordCount(value: string): number {
+    return value.trim() ? value.trim().split(/\s+/).length : 0;
+  }
+
+  private getClause(text: string, start: number, end: number): { clauseStart: number; clauseEnd: number } {
+    let clauseStart = 0;
+    let clauseEnd = text.length;
+    for (const brk of text.matchAll(CLAUSE_BREAK)) {
+      const index = brk.index ?? 0;
+      if (index + brk[0].length <= start) clauseStart = index + brk[0].length;
+      else if (index >= end) {
+        clauseEnd = index;
+        break;
+      }
+    }
+    return { clauseStart, clauseEnd };
+  }
+
+  private lastWords(value: string, count: number): string {
+    return value.trim().split(/\s+/).slice(-count).join(' ');
+  }
+
+  private firstWords(value: string, count: number): string {
+    return value.trim().split(/\s+/).slice(0, count).join(' ');
+  }
+}
+
+export const clinicalTextService = new ClinicalTextService();
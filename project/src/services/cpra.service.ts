@@ -0,0 +1,37 @@
+import { HLA_ANTIGEN_FREQUENCIES } from '../data/hlaAntigenFrequencies';
+import { hlaService } from './hla.service';
+
+class CpraService {
+  // Calculated PRA (0-100): the share of donors expected to carry at least one
+  // of the recipient's unacceptable antigens. A donor is acceptable only if
+  // neither haplotype carries an unacceptable antigen at any locus:
+  //   cPRA = 1 - prod over loci of (1 - sum of unacceptable antigen frequencies)^2
+  calculate(unacceptableAntigens: string[] | null | undefined): number {
+    if (!Array.isArray(unacceptableAntigens) || unacceptableAntigens.length === 0) return 0;
+
+    const antigensByLocus = new Map<string, Set<string>>();
+    unacceptableAntigens
+      .filter(v => typeof v === 'string' && v.trim().length > 0)
+      .forEach(antigen => {
+        const locusKey = hlaService.inferLocus(antigen);
+        const set = antigensByLocus.get(locusKey) || new Set<string>();
+        // An antibody to a broad antigen reacts with all of its splits
+        hlaService.expandToSplits(hlaService.normalizeAntigen(antigen)).forEach(a => set.add(a));
+        antigensByLocus.set(locusKey, set);
+      });
+
+    let acceptableDonorShare = 1;
+    antigensByLocus.forEach((antigens, locusKey) => {
+      const frequencies = HLA_ANTIGEN_FREQUENCIES[locusKey] || {};
+      let locusFrequency = 0;
+      antigens.forEach(a => {
+        locusFrequency += frequencies[a] || 0;
+      });
+      acceptableDonorShare *= Math.pow(1 - Math.min(1, locusFrequency), 2);
+    });
+
+    return Math.round((1 - acceptableDonorShare) * 1000) / 10;
+  }
+}
+
+export const cpraService = new CpraService();
@@ -0,0 +1,56 @@
+import { EptsResult, Recipient } from '../types';
+import { EPTS_MAPPING } from '../data/eptsMapping';
+
+type EptsInputs = Pick<Recipient, 'age' | 'diabetes' | 'prior_transplant' | 'dialysis_start_date'>;
+
+class EptsService {
+  // Raw EPTS (OPTN kidney allocation system):
+  // 0.047 max(age-25, 0) - 0.015 diabetes × max(age-25, 0)
+  // + 0.398 prior transplant - 0.237 diabetes × prior transplant
+  // + 0.315 ln(dialysis years + 1) - 0.099 diabetes × ln(dialysis years + 1)
+  // + 0.130 (no dialysis) - 0.348 diabetes × (no dialysis) + 1.262 diabetes
+  calculate(recipient: EptsInputs, now: number): EptsResult {
+    const diabetes = recipient.diabetes ? 1 : 0;
+    const prior = recipient.prior_transplant ? 1 : 0;
+    const ageOver25 = Math.max(recipient.age - 25, 0);
+    const dialysisYears = this.getDialysisYears(recipient.dialysis_start_date, now);
+    const logDialysis = Math.log(dialysisYears + 1);
+    const noDialysis = dialysisYears === 0 ? 1 : 0;
+
+    const raw = 0.047 * ageOver25 - 0.015 * diabetes * ageOver25
+      + 0.398 * prior - 0.237 * diabetes * prior
+      + 0.315 * logDialysis - 0.099 * diabetes * logDialysis
+      + 0.130 * noDialysis - 0.348 * diabetes * noDialysis
+      + 1.262 * diabetes;
+
+    return {
+      raw_score: Math.round(raw * 10000) / 10000,
+      epts: this.toEpts(raw),
+      dialysis_years: Math.round(dialysisYears * 100) / 100,
+    };
+  }
+
+  // Interpolate between mapping-table breakpoints, rounded to a whole percentile
+  toEpts(rawScore: number): number {
+    const first = EPTS_MAPPING[0];
+    if (rawScore <= first.max_raw_score) return first.epts;
+
+    for (let i = 1; i < EPTS_MAPPING.length; i++) {
+      const lower = EPTS_MAPPING[i - 1];
+      const upper = EPTS_MAPPING[i];
+      if (rawScore <= upper.max_raw_score) {
+        const fraction = (rawScore - lower.max_raw_score) / (upper.max_raw_score - lower.max_raw_score);
+        return Math.round(lower.epts + fraction * (upper.epts - lower.epts));
+      }
+    }
+    return 100;
+  }
+
+  private getDialysisYears(dialysisStartDate: string | null, now: number): number {
+    if (!dialysisStartDate) return 0;
+    const days = (now - new Date(dialysisStartDate).getTime()) / (1000 * 60 * 60 * 24);
+    return Math.max(0, days / 365.25);
+  }
+}
+
+export const eptsService = new EptsService();
@@ -0,0 +1,60 @@
+import { AllocationPolicyDocument, BasePerson, TransplantCenter, TransportEstimate } from '../types';
+import { TRANSPLANT_CENTERS } from '../data/transplantCenters';
+
+const EARTH_RADIUS_KM = 6371;
+
+class GeoService {
+  getCenters(): TransplantCenter[] {
+    return TRANSPLANT_CENTERS;
+  }
+
+  getCenter(id: string | null | undefined): TransplantCenter | null {
+    return TRANSPLANT_CENTERS.find(c => c.id === id) || null;
+  }
+
+  // Picked center first; otherwise match the free-text location by name, alias, then city
+  resolveCenter(person: Pick<BasePerson, 'center_id' | 'location'>): TransplantCenter | null {
+    const picked = this.getCenter(person.center_id);
+    if (picked) return picked;
+
+    const text = (person.location || '').toLowerCase();
+    if (!text.trim()) return null;
+
+    return TRANSPLANT_CENTERS.find(c => text.includes(c.name.toLowerCase()))
+      || TRANSPLANT_CENTERS.find(c => c.aliases.some(alias => text.includes(alias)))
+      || TRANSPLANT_CENTERS.find(c => text.includes(c.city.toLowerCase()))
+      || null;
+  }
+
+  // Great-circle (haversine) distance in kilometres
+  distanceKm(from: TransplantCenter, to: TransplantCenter): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(to.latitude - from.latitude);
+    const dLng = toRad(to.longitude - from.longitude);
+    const a = Math.sin(dLat / 2) ** 2
+      + Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  // Distance and transport time between the donor's and recipient's centers; null when either is unknown
+  estimateTransport(donor: Pick<BasePerson, 'center_id' | 'location'>, recipient: Pick<BasePerson, 'center_id' | 'location'>, policy: AllocationPolicyDocument): TransportEstimate | null {
+    const from = this.resolveCenter(donor);
+    const to = this.resolveCenter(recipient);
+    if (!from || !to) return null;
+
+    const distance = this.distanceKm(from, to);
+    const transport = policy.transport;
+    const ground = distance <= transport.ground_max_km;
+    const eta = ground
+      ? transport.ground_overhead_hours + distance / transport.ground_speed_kmh
+      : transport.air_overhead_hours + distance / transport.air_speed_kmh;
+
+    return {
+      distance_km: Math.round(distance),
+      eta_hours: Math.round(eta * 10) / 10,
+      mode: ground ? 'ground' : 'air',
+    };
+  }
+}
+
+export const geoService = new GeoService();
@@ -0,0 +1,57 @@
+import { HeartStatus, HeartStatusAssessment, HeartStatusCriterion, Recipient } from '../types';
+import { HEART_STATUS_CRITERIA } from '../data/heartStatusCriteria';
+
+export const HEART_STATUSES: HeartStatus[] = ['1', '2', '3', '4', '5', '6'];
+
+type HeartStatusInputs = Pick<Recipient, 'heart_status' | 'heart_status_criterion' | 'heart_status_justification' | 'heart_status_expires_at'>;
+
+class HeartStatusService {
+  getCriteria(status: HeartStatus): HeartStatusCriterion[] {
+    return HEART_STATUS_CRITERIA[status] || [];
+  }
+
+  getCriterion(status: HeartStatus, code: string | null): HeartStatusCriterion | null {
+    return this.getCriteria(status).find(c => c.code === code) || null;
+  }
+
+  // Expiry date (YYYY-MM-DD) of a justification submitted at `now`
+  getExpiryDate(criterion: HeartStatusCriterion, now: number): string {
+    const expires = new Date(now);
+    expires.setDate(expires.getDate() + criterion.validity_days);
+    return expires.toISOString().slice(0, 10);
+  }
+
+  // Listed tier and the tier used for ranking; an expired justification drops to Status 6
+  assess(recipient: HeartStatusInputs, now: number): HeartStatusAssessment | null {
+    if (!recipient.heart_status) return null;
+
+    const status = recipient.heart_status;
+    const expiresAt = recipient.heart_status_expires_at;
+    const daysRemaining = expiresAt
+      ? Math.ceil((new Date(expiresAt).getTime() - now) / (1000 * 60 * 60 * 24))
+      : null;
+    const expired = daysRemaining !== null && daysRemaining < 0;
+
+    return {
+      status,
+      effective_status: expired ? '6' : status,
+      criterion: this.getCriterion(status, recipient.heart_status_criterion),
+      justification: recipient.heart_status_justification,
+      expires_at: expiresAt,
+      expired,
+      days_remaining: daysRemaining,
+    };
+  }
+
+  // Sort rank: 1 is most urgent; candidates without a tier rank after Status 6
+  getRank(assessment: HeartStatusAssessment | null): number {
+    return assessment ? Number(assessment.effective_status) : HEART_STATUSES.length + 1;
+  }
+
+  formatStatus(assessment: HeartStatusAssessment): string {
+    const label = `Status ${assessment.effective_status}`;
+    return assessment.expired ? `${label} (Status ${assessment.status} expired)` : label;
+  }
+}
+
+export const heartStatusService = new HeartStatusService();
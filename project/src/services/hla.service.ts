@@ -0,0 +1,109 @@
+import { HlaTyping, HlaMismatchSummary } from '../types';
+import { SPLIT_TO_BROAD, MOLECULAR_TO_ANTIGEN } from '../data/hlaEquivalences';
+
+export const HLA_LOCI = ['HLA-A', 'HLA-B', 'HLA-C', 'HLA-DR', 'HLA-DQ', 'HLA-DP'] as const;
+
+// How two antigens at the same locus relate once splits/broads are considered
+export type AntigenRelation = 'identical' | 'split_broad' | 'sibling_splits' | 'none';
+
+// Serologic prefix for each locus key (DRB1 -> DR, DQB1 -> DQ, DPB1 -> DP)
+const LOCUS_PREFIX: Record<string, string> = {
+  'HLA-A': 'A',
+  'HLA-B': 'B',
+  'HLA-C': 'C',
+  'HLA-DR': 'DR',
+  'HLA-DQ': 'DQ',
+  'HLA-DP': 'DP',
+};
+
+class HlaService {
+  // Normalize a typing to its split antigen where the resolution allows it
+  // (A*02:01 -> A2, B*51:01 -> B51, B*15:01 -> B62, DRB1*03:01 -> DR17);
+  // one-field typings of a split group stay at the broad (DRB1*03 -> DR3).
+  normalizeAllele(allele: string, locusKey: string): string {
+    if (!allele) return '';
+    const prefix = LOCUS_PREFIX[locusKey.toUpperCase()];
+    const a = allele.toUpperCase().trim().replace(/^HLA-/, '');
+    if (!prefix) return a;
+
+    // Molecular typing: gene*group[:protein...] or a bare group such as 02:01
+    const molecular = a.match(/^(?:[A-Z]+\d?)?\*(\d{1,3})(?::(\d{2,4}))?/) || a.match(/^(\d{1,3})(?::(\d{2,4}))?$/);
+    if (molecular) {
+      const group = molecular[1].padStart(2, '0');
+      if (molecular[2]) {
+        const exact = MOLECULAR_TO_ANTIGEN[`${prefix}*${group}:${molecular[2].slice(0, 2)}`];
+        if (exact) return exact;
+      }
+      return `${prefix}${parseInt(group, 10)}`;
+    }
+
+    // Serologic typing: A2, Cw7, DR15, DQ7...
+    const serologic = a.match(/^(?:A|B|CW|C|DR|DQ|DPW|DP)(\d{1,3})$/);
+    if (serologic) {
+      return `${prefix}${parseInt(serologic[1], 10)}`;
+    }
+    return a;
+  }
+
+  // Infer the locus key from an antigen or allele name (e.g. "DR15" -> HLA-DR, "B*07:02" -> HLA-B)
+  inferLocus(antigen: string): string {
+    const upper = antigen.toUpperCase().trim().replace(/^HLA-/, '');
+    if (upper.startsWith('DQ')) return 'HLA-DQ';
+    if (upper.startsWith('DP')) return 'HLA-DP';
+    if (upper.startsWith('DR')) return 'HLA-DR';
+    if (upper.startsWith('C')) return 'HLA-C';
+    if (upper.startsWith('B')) return 'HLA-B';
+    return 'HLA-A';
+  }
+
+  // Normalize a free-standing antigen (no locus context), e.g. an unacceptable antigen entry
+  normalizeAntigen(antigen: string): string {
+    return this.normalizeAllele(antigen, this.inferLocus(antigen));
+  }
+
+  // Broad antigen of a split (B51 -> B5); antigens without a broad map to themselves
+  getBroad(antigen: string): string {
+    return SPLIT_TO_BROAD[antigen] || antigen;
+  }
+
+  // The antigen itself plus, for a broad, every split of it (DR3 -> DR3, DR17, DR18)
+  expandToSplits(antigen: string): string[] {
+    return [antigen, ...Object.keys(SPLIT_TO_BROAD).filter(split => SPLIT_TO_BROAD[split] === antigen)];
+  }
+
+  compareAntigens(a: string, b: string): AntigenRelation {
+    if (a === b) return 'identical';
+    const broadA = this.getBroad(a);
+    const broadB = this.getBroad(b);
+    if (broadA !== broadB) return 'none';
+    // Same broad: either one side is only typed at the broad, or two different splits
+    return a === broadA || b === broadB ? 'split_broad' : 'sibling_splits';
+  }
+
+  // Convert allele list to a set of antigen-level strings for a locus
+  alleleListToAntigens(alleles: string[] | undefined, locusKey: string): Set<string> {
+    if (!Array.isArray(alleles) || alleles.length === 0) return new Set();
+    return new Set(
+      alleles
+        .filter(v => typeof v === 'string' && v.trim().length > 0)
+        .map(a => this.normalizeAllele(a, locusKey))
+    );
+  }
+
+  // All antigens of a typing across every locus
+  typingToAntigens(typing: HlaTyping | undefined): Set<string> {
+    const antigens = new Set<string>();
+    HLA_LOCI.forEach(locusKey => {
+      this.alleleListToAntigens(typing?.[locusKey], locusKey).forEach(a => antigens.add(a));
+    });
+    return antigens;
+  }
+
+  // Surgeon-style A-B-DR mismatch label, e.g. "2-1-0"; loci without typing show as "?"
+  formatMismatch(summary: HlaMismatchSummary | undefined): string {
+    if (!summary) return '?-?-?';
+    return [summary.a, summary.b, summary.dr].map(v => (v === null ? '?' : String(v))).join('-');
+  }
+}
+
+export const hlaService = new HlaService();
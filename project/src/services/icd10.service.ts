@@ -0,0 +1,69 @@
+import { CodedCondition, CodedConditionMatch } from '../types';
+import { ICD10_CODES } from '../data/icd10Codes';
+
+// A code ("E11.22") or category ("E11", "E11.2") with the dot optional
+const CODE_PATTERN = /^[A-Z][0-9][0-9A-Z](\.?[0-9A-Z]{1,4})?$/;
+
+class Icd10Service {
+  getCodes(): CodedCondition[] {
+    return ICD10_CODES;
+  }
+
+  getLabel(code: string): string | null {
+    const key = this.toKey(code);
+    return ICD10_CODES.find(c => this.toKey(c.code) === key)?.label ?? null;
+  }
+
+  // Codes first, then label matches on every word of the query
+  search(query: string, limit: number = 10): CodedCondition[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+
+    const key = this.toKey(q);
+    const words = q.split(/\s+/);
+    const byCode = ICD10_CODES.filter(c => this.toKey(c.code).startsWith(key));
+    const byLabel = ICD10_CODES.filter(c => !byCode.includes(c) && words.every(w => c.label.toLowerCase().includes(w)));
+    return [...byCode, ...byLabel].slice(0, limit);
+  }
+
+  // Conditions as stored; rows from before coding have none
+  normalize(conditions: CodedCondition[] | null | undefined): CodedCondition[] {
+    return (conditions || []).filter(c => c && typeof c.code === 'string');
+  }
+
+  // "E11", "E11.2" or a range "C00-C43"; both ends must be valid and in order
+  isValidRange(range: string): boolean {
+    const [start, end, ...rest] = range.toUpperCase().split('-').map(p => p.trim());
+    if (rest.length > 0 || !CODE_PATTERN.test(start)) return false;
+    if (end === undefined) return true;
+    return CODE_PATTERN.test(end) && this.toKey(start).slice(0, 3) <= this.toKey(end).slice(0, 3);
+  }
+
+  // A single code or category matches by prefix (E11.2 covers E11.22); in a range each
+  // end is compared at its own precision, so C00-D49 covers C34.90 and D33.2
+  matchesRange(code: string, range: string): boolean {
+    const key = this.toKey(code);
+    const [start, end] = range.split('-').map(p => this.toKey(p));
+    if (end === undefined) return key.startsWith(start);
+    return key.slice(0, start.length) >= start && key.slice(0, end.length) <= end;
+  }
+
+  // First condition inside any of the ranges, in the order the conditions were recorded
+  findInRanges(conditions: CodedCondition[] | null | undefined, ranges: string[]): CodedConditionMatch | null {
+    for (const condition of this.normalize(conditions)) {
+      const range = ranges.find(r => this.matchesRange(condition.code, r));
+      if (range) return { condition, range };
+    }
+    return null;
+  }
+
+  hasAny(conditions: CodedCondition[] | null | undefined, ranges: string[]): boolean {
+    return this.findInRanges(conditions, ranges) !== null;
+  }
+
+  private toKey(code: string): string {
+    return code.trim().toUpperCase().replace('.', '');
+  }
+}
+
+export const icd10Service = new Icd10Service();
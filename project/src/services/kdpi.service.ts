@@ -0,0 +1,68 @@
+import { Donor, KdpiResult } from '../types';
+import { KDPI_MAPPING, KDRI_SCALING_FACTOR } from '../data/kdpiMapping';
+import { serologyService } from './serology.service';
+
+type KdpiInputs = Pick<Donor, 'age' | 'height_cm' | 'weight_kg' | 'cause_of_death' | 'ethnicity' | 'hypertension' | 'diabetes' | 'creatinine_mg_dl' | 'serology' | 'donor_type'>;
+
+// Causes of death counted as cerebrovascular (CVA) in the KDRI
+const CVA_KEYWORDS = ['stroke', 'cva', 'cerebrovascular', 'intracranial hemorrhage', 'intracerebral hemorrhage', 'subarachnoid'];
+
+class KdpiService {
+  // Donor-only KDRI (Rao et al. 2009) as used for the KDPI; null until height,
+  // weight and terminal creatinine are recorded, and for living donors (deceased-donor index)
+  calculate(donor: KdpiInputs): KdpiResult | null {
+    const { age, height_cm: height, weight_kg: weight, creatinine_mg_dl: creatinine } = donor;
+    if (donor.donor_type === 'living' || !height || !weight || creatinine == null) return null;
+
+    let x = 0.0128 * (age - 40);
+    if (age < 18) x -= 0.0194 * (age - 18);
+    if (age > 50) x += 0.0107 * (age - 50);
+    x -= 0.0464 * (height - 170) / 10;
+    if (weight < 80) x -= 0.0199 * (weight - 80) / 5;
+    if (donor.ethnicity === 'african_american') x += 0.1790;
+    if (donor.hypertension) x += 0.1260;
+    if (donor.diabetes) x += 0.1300;
+    if (this.isCvaDeath(donor.cause_of_death)) x += 0.0881;
+    x += 0.2200 * (creatinine - 1);
+    if (creatinine > 1.5) x -= 0.2090 * (creatinine - 1.5);
+    if (serologyService.isHcvPositive(donor.serology)) x += 0.2400;
+    if (donor.donor_type === 'deceased_dcd') x += 0.1330;
+
+    const kdriRao = Math.exp(x);
+    const kdriMedian = kdriRao / KDRI_SCALING_FACTOR;
+
+    return {
+      kdri_rao: Math.round(kdriRao * 10000) / 10000,
+      kdri_median: Math.round(kdriMedian * 10000) / 10000,
+      kdpi: this.toKdpi(kdriMedian),
+    };
+  }
+
+  // Interpolate between mapping-table breakpoints, rounded to a whole percentile
+  toKdpi(kdriMedian: number): number {
+    const first = KDPI_MAPPING[0];
+    if (kdriMedian <= first.max_kdri) return first.kdpi;
+
+    for (let i = 1; i < KDPI_MAPPING.length; i++) {
+      const lower = KDPI_MAPPING[i - 1];
+      const upper = KDPI_MAPPING[i];
+      if (kdriMedian <= upper.max_kdri) {
+        const fraction = (kdriMedian - lower.max_kdri) / (upper.max_kdri - lower.max_kdri);
+        return Math.round(lower.kdpi + fraction * (upper.kdpi - lower.kdpi));
+      }
+    }
+    return 100;
+  }
+
+  // KDPI above 85% needs the candidate's prior consent to marginal kidneys
+  isHighKdpi(kdpi: number): boolean {
+    return kdpi > 85;
+  }
+
+  private isCvaDeath(causeOfDeath: string | null | undefined): boolean {
+    const text = (causeOfDeath || '').toLowerCase();
+    return CVA_KEYWORDS.some(k => text.includes(k));
+  }
+}
+
+export const kdpiService = new KdpiService();
@@ -0,0 +1,208 @@
+import { supabase } from '../lib/supabase';
+import { Clock, systemClock } from '../lib/clock';
+import { ActiveAllocationPolicy, Donor, KpdExchange, KpdExchangeCandidate, KpdPair, KpdTransplant, MatchResult } from '../types';
+import { matchingService } from './matching.service';
+import { policyService } from './policy.service';
+
+class KpdService {
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  // The same exchanges as of another clock, e.g. fixedClock(t) to replay a past moment
+  withClock(clock: Clock): KpdService {
+    return new KpdService(clock);
+  }
+
+  async getPairs(): Promise<KpdPair[]> {
+    const { data, error } = await supabase
+      .from('kpd_pairs')
+      .select(`
+        *,
+        donor:donors(*),
+        recipient:recipients(*)
+      `)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // recipientId null registers a non-directed donor
+  async createPair(donorId: string, recipientId: string | null, notes: string | null): Promise<KpdPair> {
+    const { data, error } = await supabase
+      .from('kpd_pairs')
+      .insert({ donor_id: donorId, recipient_id: recipientId, notes })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async withdrawPair(id: string): Promise<void> {
+    await this.setPairStatus([id], 'withdrawn');
+  }
+
+  async getExchanges(): Promise<KpdExchange[]> {
+    const { data, error } = await supabase
+      .from('kpd_exchanges')
+      .select('*')
+      .order('locked_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Candidate cycles and chains among active pairs, most transplants first, then highest total score
+  async findExchanges(pairs: KpdPair[], activePolicy?: ActiveAllocationPolicy): Promise<KpdExchangeCandidate[]> {
+    const policy = activePolicy ?? await policyService.getActivePolicy();
+    const { max_cycle_length: maxCycle, max_chain_length: maxChain } = policy.document.paired_donation;
+    const active = pairs.filter((p): p is KpdPair & { donor: Donor } => p.status === 'active' && !!p.donor);
+
+    // Compatibility graph: edge i -> j when pair i's donor can give to pair j's recipient
+    const edges = new Map<string, MatchResult>();
+    for (const from of active) {
+      for (const to of active) {
+        if (from.id === to.id || !to.recipient) continue;
+        const match = await matchingService.withClock(this.clock).scoreExchangeTransplant(from.donor, to.recipient, policy);
+        if (match) edges.set(`${from.id}->${to.id}`, match);
+      }
+    }
+
+    const toCandidate = (kind: KpdExchangeCandidate['kind'], ids: string[]): KpdExchangeCandidate => {
+      const transplants: KpdTransplant[] = this.getSteps(kind, ids).map(([from, to]) => ({
+        from_pair_id: from,
+        to_pair_id: to,
+        match: edges.get(`${from}->${to}`) as MatchResult,
+      }));
+      const total = transplants.reduce((sum, t) => sum + t.match.compatibility_factors.raw_score, 0);
+      return { kind, pair_ids: ids, transplants, total_score: Math.round(total * 100) / 100 };
+    };
+
+    const candidates: KpdExchangeCandidate[] = [];
+    const directed = active.filter(p => p.recipient);
+    const has = (from: string, to: string) => edges.has(`${from}->${to}`);
+
+    // Cycles, each listed once by starting at its lowest-index pair
+    directed.forEach((a, i) => {
+      directed.slice(i + 1).forEach(b => {
+        if (has(a.id, b.id) && has(b.id, a.id)) candidates.push(toCandidate('cycle', [a.id, b.id]));
+        if (maxCycle < 3) return;
+        directed.slice(i + 1).forEach(c => {
+          if (c.id === b.id) return;
+          if (has(a.id, b.id) && has(b.id, c.id) && has(c.id, a.id)) candidates.push(toCandidate('cycle', [a.id, b.id, c.id]));
+        });
+      });
+    });
+
+    // Chains from each non-directed donor through up to maxChain recipients
+    const extend = (path: string[]) => {
+      if (path.length > 1) candidates.push(toCandidate('chain', path));
+      if (path.length - 1 >= maxChain) return;
+      const last = path[path.length - 1];
+      directed.forEach(next => {
+        if (!path.includes(next.id) && has(last, next.id)) extend([...path, next.id]);
+      });
+    };
+    active.filter(p => !p.recipient).forEach(ndd => extend([ndd.id]));
+
+    return candidates.sort((a, b) => b.transplants.length - a.transplants.length || b.total_score - a.total_score);
+  }
+
+  // Reserve the pairs of a candidate so they are not offered in another exchange
+  async lockExchange(candidate: KpdExchangeCandidate, lockedBy: string | null): Promise<KpdExchange> {
+    const { data: pairs, error: pairsError } = await supabase
+      .from('kpd_pairs')
+      .select('id, status')
+      .in('id', candidate.pair_ids);
+
+    if (pairsError) throw pairsError;
+    if ((pairs || []).length !== candidate.pair_ids.length || (pairs || []).some((p: { status: string }) => p.status !== 'active')) {
+      throw new Error('One of the pairs is no longer available for an exchange.');
+    }
+
+    const { data, error } = await supabase
+      .from('kpd_exchanges')
+      .insert({
+        kind: candidate.kind,
+        pair_ids: candidate.pair_ids,
+        total_score: candidate.total_score,
+        locked_by: lockedBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await this.setPairStatus(candidate.pair_ids, 'locked');
+    return data;
+  }
+
+  async releaseExchange(exchange: KpdExchange): Promise<void> {
+    const { error } = await supabase
+      .from('kpd_exchanges')
+      .update({ status: 'released' })
+      .eq('id', exchange.id);
+
+    if (error) throw error;
+    await this.setPairStatus(exchange.pair_ids, 'active');
+  }
+
+  // One pending allocation per transplant of a locked exchange, re-scored under the active
+  // policy and saved in a single transaction so a cycle is never partly allocated
+  async allocateExchange(exchange: KpdExchange, allocatedBy: string | null): Promise<void> {
+    const pairs = (await this.getPairs()).filter(p => exchange.pair_ids.includes(p.id));
+    const byId = new Map(pairs.map(p => [p.id, p]));
+    const policy = await policyService.getActivePolicy();
+    const matching = matchingService.withClock(this.clock);
+
+    const transplants: { donorId: string; match: MatchResult }[] = [];
+    for (const [fromId, toId] of this.getSteps(exchange.kind, exchange.pair_ids)) {
+      const donor = byId.get(fromId)?.donor;
+      const recipient = byId.get(toId)?.recipient;
+      const match = donor && recipient ? await matching.scoreExchangeTransplant(donor, recipient, policy) : null;
+      if (!donor || !match) {
+        throw new Error('The exchange is no longer compatible; release it and search again.');
+      }
+      transplants.push({ donorId: donor.id, match });
+    }
+
+    const { error } = await supabase.rpc('allocate_kpd_exchange', {
+      p_exchange_id: exchange.id,
+      p_allocated_at: new Date(this.clock.now()).toISOString(),
+      p_allocations: transplants.map(({ donorId, match }) => ({
+        donor_id: donorId,
+        recipient_id: match.recipient.id,
+        organ_type: 'kidney',
+        match_score: match.match_score,
+        risk_level: match.risk_level,
+        risk_percentage: match.risk_percentage,
+        urgency_level: match.urgency_level,
+        compatibility_factors: match.compatibility_factors,
+        transplant_scheduled: null,
+        status: 'pending',
+        notes: `Paired donation ${exchange.kind}`,
+        allocated_by: allocatedBy,
+        policy_version_id: match.policy_version_id,
+      })),
+    });
+
+    if (error) throw error;
+  }
+
+  // [donor pair, recipient pair] of each transplant; a cycle closes back to its first pair
+  private getSteps(kind: KpdExchange['kind'], ids: string[]): [string, string][] {
+    return kind === 'cycle'
+      ? ids.map((id, i): [string, string] => [id, ids[(i + 1) % ids.length]])
+      : ids.slice(0, -1).map((id, i): [string, string] => [id, ids[i + 1]]);
+  }
+
+  private async setPairStatus(ids: string[], status: KpdPair['status']): Promise<void> {
+    const { error } = await supabase
+      .from('kpd_pairs')
+      .update({ status, updated_at: new Date(this.clock.now()).toISOString() })
+      .in('id', ids);
+
+    if (error) throw error;
+  }
+}
+
+export const kpdService = new KpdService();
@@ -0,0 +1,28 @@
+import { Donor, DonorType, LivingDonorEvaluation, LivingDonorEvaluationItem } from '../types';
+import { LIVING_DONOR_EVALUATION_ITEMS } from '../data/livingDonorEvaluation';
+
+export const DONOR_TYPE_LABELS: Record<DonorType, string> = {
+  living: 'Living',
+  deceased_dbd: 'Deceased (DBD)',
+  deceased_dcd: 'Deceased (DCD)',
+};
+
+class LivingDonorService {
+  isLiving(donor: Pick<Donor, 'donor_type'>): boolean {
+    return donor.donor_type === 'living';
+  }
+
+  getChecklist(): LivingDonorEvaluationItem[] {
+    return LIVING_DONOR_EVALUATION_ITEMS;
+  }
+
+  // Checklist progress; codes no longer on the checklist are ignored
+  getEvaluation(donor: Pick<Donor, 'evaluation_checklist'>): LivingDonorEvaluation {
+    const done = new Set(donor.evaluation_checklist || []);
+    const completed = LIVING_DONOR_EVALUATION_ITEMS.filter(item => done.has(item.code));
+    const outstanding = LIVING_DONOR_EVALUATION_ITEMS.filter(item => !done.has(item.code));
+    return { completed, outstanding, cleared: outstanding.length === 0 };
+  }
+}
+
+export const livingDonorService = new LivingDonorService();
@@ -1,418 +1,716 @@
-import { Donor, Recipient, MatchResult, BloodType, OrganType, Gender } from '../types';
+import { Donor, Recipient, MatchResult, OrganMatchResults, ExcludedCandidate, HlaMismatchSummary, ScoreComponent, RiskComponent, RiskAssessment, RiskModelInput, RiskPrediction, ViralSerostatus, SizeAssessment, ExclusionTrigger, CodedConditionMatch, OrganType, Gender, ActiveAllocationPolicy, AllocationPolicyDocument, TransportEstimate, BatchAllocationProposal, UnfilledOrganUnit, ViabilityStatus } from '../types';
+import { hlaService } from './hla.service';
+import { cpraService } from './cpra.service';
+import { policyService } from './policy.service';
+import { meldService } from './meld.service';
+import { kdpiService } from './kdpi.service';
+import { eptsService } from './epts.service';
+import { heartStatusService } from './heartStatus.service';
+import { geoService } from './geo.service';
+import { livingDonorService } from './livingDonor.service';
+import { serologyService } from './serology.service';
+import { clinicalTextService } from './clinicalText.service';
+import { icd10Service } from './icd10.service';
+import { aboService, BLOOD_COMPATIBILITY_LABELS } from './abo.service';
+import { pediatricService } from './pediatric.service';
+import { sizeMatchingService } from './sizeMatching.service';
+import { riskModelService } from './riskModel.service';
+import { viabilityService } from './viability.service';
+import { solveAssignment } from '../lib/assignment';
+import { Clock, systemClock } from '../lib/clock';
 
 class MatchingService {
-  private readonly BLOOD_COMPATIBILITY: Record<BloodType, BloodType[]> = {
-    'O-': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'], // Universal donor
-    'O+': ['O+', 'A+', 'B+', 'AB+'],
-    'A-': ['A-', 'A+', 'AB-', 'AB+'],
-    'A+': ['A+', 'AB+'],
-    'B-': ['B-', 'B+', 'AB-', 'AB+'],
-    'B+': ['B+', 'AB+'],
-    'AB-': ['AB-', 'AB+'],
-    'AB+': ['AB+'], // Universal recipient
-  };
-
-  private readonly ORGAN_VIABILITY_HOURS = {
-    kidney: 24,
-    heart: 6,
-    liver: 12,
-  };
-
-  private readonly HLA_IMPORTANCE: Record<OrganType, (keyof Donor['hla_typing'])[]> = {
-    kidney: ['HLA-A', 'HLA-B', 'HLA-DR'], // Most critical for kidney
-    liver: ['HLA-DR'], // Less critical for liver
-    heart: ['HLA-A', 'HLA-B', 'HLA-DR'],
-  };
-
-  // New: organ-specific per-locus weights (sum to ~1 per organ)
-  private readonly HLA_LOCUS_WEIGHTS: Record<OrganType, Record<string, number>> = {
-    kidney: { 'HLA-DR': 0.5, 'HLA-B': 0.3, 'HLA-A': 0.2 },
-    heart:  { 'HLA-DR': 0.4, 'HLA-B': 0.35, 'HLA-A': 0.25 },
-    liver:  { 'HLA-DR': 1.0 },
-  };
-
-  private readonly AGE_RULES = {
-    kidney: {
-      donor: { min: 18, max: 70 },
-      recipient: { max: 75 },
-      maxDiff: 20,
-    },
-    heart: {
-      donor: { max: 65 },
-      recipient: { max: 70 },
-      maxDiff: 10,
-    },
-    liver: {
-      donor: { min: 18, max: 70 },
-      recipient: { max: 75 },
-      maxDiff: 25 },
-  };
-
-  private readonly MEDICAL_EXCLUSIONS = {
-    donor: {
-      general: ['infection', 'malignancy', 'psychiatric illness', 'alcohol abuse', 'drug abuse'],
-      kidney: [
-        'kidney disease', 'low gfr', 'polycystic kidney disease', 'diabetes with organ damage', 
-        'hypertension', 'proteinuria', 'hematuria', 'kidney stone', 
-        'glomerulonephritis', 'renal infection', 'nephrotoxic', 'ethylene glycol', 'lithium', 'diabetes','fatal gunshots',
-        'hypoxic injury','Sepsis','Diabetic nephropathy','renal failure','tuberculosis','cancer','HIV','HBV','HCV'
-      ],
-      heart: [
-        'coronary artery disease', 'myocardial infarction', 'myocardial infarction', 'heart attack', 
-        'valvular disease', 'cardiomyopathy', 'congenital heart disease', 'cardiac arrest',
-        'malignant arrhythmias', 'pulmonary hypertension', 'chest trauma', 'heart trauma', 'diabetes','fatal gunshots',
-        'circulatory accident','brain dead','histological pathalogy','tuberculosis','cancer','HIV','HBV','HCV'
-      ],
-      liver: [
-        'cirrhosis', 'chronic hepatitis with fibrosis', 'fatty liver >30%', 'alcoholic liver disease', 
-        'biliary disease', 'wilson’s disease', 'hemochromatosis', 'alpha-1 antitrypsin deficiency', 
-        'portal hypertension', 'liver failure', 'hepatotoxic', 'paracetamol overdose', 'hepatitis b', 'hepatitis c','fatal gunshots',
-        'tuberculosis','cancer','HIV','renal trauma','HBV','HCV'
-      ],
-    },
-    recipient: {
-      general: ['infection', 'malignancy', 'uncontrolled psychiatric illness', 'active alcohol abuse', 'drug abuse', 'non-compliance with therapy'],
-      kidney: [
-        'cancer', 'cardiovascular disease', 'peripheral vascular disease', 
-        'neurological impairment', 'non-compliance with dialysis', 'life expectancy <2 years'
-      ],
-      heart: [
-        'irreversible pulmonary hypertension', 'irreversible kidney disease', 
-        'irreversible liver disease', 'peripheral vascular disease', 'advanced neurological deficits'
-      ],
-      liver: [
-        'uncontrolled sepsis', 'extrahepatic malignancy', 'heart disease', 'lung disease', 
-        'hiv', 'persistent alcohol/drug abuse', 'irreversible brain injury'
-      ],
-    }
-  };
-
-  async findMatches(donor: Donor, recipients: Recipient[]): Promise<MatchResult[]> {
+  // Time source for ischemia countdowns, waiting time and lab/status ages
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  // The same matching as of another clock, e.g. fixedClock(t) to replay a past moment
+  withClock(clock: Clock): MatchingService {
+    return new MatchingService(clock);
+  }
+
+  // Loci counted in the classic 0-6 mismatch score
+  private readonly MISMATCH_LOCI: { key: string; field: 'a' | 'b' | 'dr' }[] = [
+    { key: 'HLA-A', field: 'a' },
+    { key: 'HLA-B', field: 'b' },
+    { key: 'HLA-DR', field: 'dr' },
+  ];
+
+  // Scores with the active allocation policy unless one is passed in
+  async findMatches(donor: Donor, recipients: Recipient[], allocatedOrgans: OrganType[] = [], activePolicy?: ActiveAllocationPolicy): Promise<OrganMatchResults[]> {
     if (!donor.organs_available || donor.organs_available.length === 0) {
       return [];
     }
-    
-    const organ = donor.organs_available[0];
 
-    // Real-time viability check only if an explicit CIT was provided
-    if (donor.cold_ischemia_time_hours != null && !this.isOrganViableNow(donor, organ)) {
-      console.log(`[Debug] Donor ${donor.id} ${organ} expired (CIT window elapsed).`);
-      return [];
-    }
-    
-    // 1. Check donor eligibility
-    const donorEligibility = this.isDonorEligible(donor, organ);
-    if (!donorEligibility.eligible) {
-      throw new Error(`Donor is not eligible for ${organ} donation. Reason: ${donorEligibility.reason}`);
+    const { id: policyVersionId, document: policy } = activePolicy ?? await policyService.getActivePolicy();
+
+    // Group organ units by type, e.g. ['kidney', 'kidney', 'liver'] -> kidney x2, liver x1
+    const unitsByOrgan = new Map<OrganType, number>();
+    donor.organs_available.forEach(organ => unitsByOrgan.set(organ, (unitsByOrgan.get(organ) || 0) + 1));
+
+    const results: OrganMatchResults[] = [];
+    for (const [organ, unitsAvailable] of unitsByOrgan) {
+      const unitsAllocated = allocatedOrgans.filter(o => o === organ).length;
+      const group: OrganMatchResults = {
+        organ,
+        units_available: unitsAvailable,
+        units_allocated: unitsAllocated,
+        matches: [],
+        excluded: [],
+        donor_ineligible_reason: null,
+        donor_ineligible_trigger: null,
+      };
+      results.push(group);
+
+      // Nothing left to offer for this organ
+      if (unitsAllocated >= unitsAvailable) continue;
+
+      // Real-time viability check only if an explicit CIT was provided
+      if (this.getViability(donor, organ, policy).expired) {
+        console.log(`[Debug] Donor ${donor.id} ${organ} expired (CIT window elapsed).`);
+        group.donor_ineligible_reason = 'Cold ischemia window has elapsed.';
+        continue;
+      }
+
+      // Donor eligibility is decided per organ, so one excluded organ does not block the others
+      const donorEligibility = this.isDonorEligible(donor, organ, policy);
+      if (!donorEligibility.eligible) {
+        group.donor_ineligible_reason = donorEligibility.reason;
+        group.donor_ineligible_trigger = donorEligibility.trigger ?? null;
+        continue;
+      }
+
+      const { matches, excluded } = await this.findMatchesForOrgan(donor, organ, recipients, policy, policyVersionId);
+      group.matches = matches;
+      group.excluded = excluded;
     }
 
-    const matches: MatchResult[] = [];
+    return results;
+  }
 
-    // 2. Filter recipients based on basic compatibility and eligibility
-    const compatibleRecipients = recipients.filter(r => {
-      if (r.organ_needed !== organ) {
-        // This case should ideally not happen if recipients are pre-filtered
-        return false;
-      }
-      if (r.status !== 'active') {
-        console.log(`[Debug] Filtering out recipient ${r.id}: Inactive status.`);
-        return false;
-      }
-      if (!this.isBloodCompatible(donor.blood_type, r.blood_type)) {
-        console.log(`[Debug] Filtering out recipient ${r.id}: Incompatible blood type.`);
-        return false;
-      }
-      
-      const recipientEligibility = this.isRecipientEligible(r, organ);
-      if (!recipientEligibility.eligible) {
-        console.log(`[Debug] Filtering out recipient ${r.id}: Ineligible. Reason: ${recipientEligibility.reason}`);
-        return false;
+  // Proposed donor->recipient pairs over several donors at once. Each remaining organ
+  // unit and each recipient is used at most once, and the pairs maximize the total
+  // match score; hard rules and the score threshold decide which pairs are allowed.
+  async proposeBatchAllocation(donors: Donor[], recipients: Recipient[], allocatedOrgansByDonor: Record<string, OrganType[]> = {}, activePolicy?: ActiveAllocationPolicy): Promise<BatchAllocationProposal> {
+    const policy = activePolicy ?? await policyService.getActivePolicy();
+
+    // One row per organ unit still to allocate, with the matches ranked for it
+    const units: { donor: Donor; organ: OrganType; matches: MatchResult[] }[] = [];
+    const unfilled: UnfilledOrganUnit[] = [];
+    for (const donor of donors) {
+      const groups = await this.findMatches(donor, recipients, allocatedOrgansByDonor[donor.id] || [], policy);
+      for (const group of groups) {
+        const remaining = group.units_available - group.units_allocated;
+        for (let i = 0; i < remaining; i++) {
+          if (group.donor_ineligible_reason) {
+            unfilled.push({ donor, organ: group.organ, reason: group.donor_ineligible_reason });
+          } else {
+            units.push({ donor, organ: group.organ, matches: group.matches });
+          }
+        }
       }
-      
-      // New: early reject if donor has antigens in recipient's unacceptable list (if provided)
-      if (this.hasUnacceptableAntigenConflict(donor.hla_typing, r, organ)) {
-        console.log(`[Debug] Filtering out recipient ${r.id}: Unacceptable antigen conflict.`);
-        return false;
+    }
+
+    const recipientIds = Array.from(new Set(units.flatMap(unit => unit.matches.map(m => m.recipient.id))));
+    const utility = units.map(unit => recipientIds.map(id => unit.matches.find(m => m.recipient.id === id)?.compatibility_factors.raw_score ?? null));
+    const assignment = solveAssignment(utility);
+
+    const pairs: BatchAllocationProposal['pairs'] = [];
+    assignment.forEach((col, row) => {
+      const unit = units[row];
+      const match = col >= 0 ? unit.matches.find(m => m.recipient.id === recipientIds[col]) : undefined;
+      if (match) {
+        pairs.push({ donor: unit.donor, match });
+      } else {
+        unfilled.push({ donor: unit.donor, organ: unit.organ, reason: 'No eligible recipient left once the other organs were assigned.' });
       }
+    });
 
-      const ageDiff = Math.abs(donor.age - r.age);
-      if (ageDiff > this.AGE_RULES[organ].maxDiff) {
-        console.log(`[Debug] Filtering out recipient ${r.id}: Age difference (${ageDiff}) exceeds limit of ${this.AGE_RULES[organ].maxDiff}.`);
-        return false;
+    // Baseline for comparison: donors in turn, each unit taking its top remaining match
+    const taken = new Set<string>();
+    let sequentialTotal = 0;
+    units.forEach(unit => {
+      const top = unit.matches.find(m => !taken.has(m.recipient.id));
+      if (top) {
+        taken.add(top.recipient.id);
+        sequentialTotal += top.compatibility_factors.raw_score;
       }
-      
-      return true;
     });
 
-    for (const recipient of compatibleRecipients) {
+    const totalScore = pairs.reduce((sum, pair) => sum + pair.match.compatibility_factors.raw_score, 0);
+    return {
+      pairs: pairs.sort((a, b) => b.match.compatibility_factors.raw_score - a.match.compatibility_factors.raw_score),
+      total_score: Math.round(totalScore * 100) / 100,
+      sequential_total_score: Math.round(sequentialTotal * 100) / 100,
+      unfilled,
+      policy_version_id: policy.id,
+      generated_at: new Date(this.clock.now()).toISOString(),
+    };
+  }
+
+  // Kidney paired donation: the living donor of one pair scored for the recipient of
+  // another. The donor and recipient hard rules of deceased-donor matching apply; null
+  // when one of them rules the transplant out.
+  async scoreExchangeTransplant(donor: Donor, recipient: Recipient, activePolicy: ActiveAllocationPolicy): Promise<MatchResult | null> {
+    const policy = activePolicy.document;
+    // A non-directed donor starts a chain without an intended recipient
+    if (!this.isDonorEligible(donor, 'kidney', policy, true).eligible) return null;
+    if (this.getExclusion(donor, recipient, 'kidney', policy)) return null;
+
+    const match = await this.calculateMatch(donor, recipient, 'kidney', policy);
+    return { ...match, policy_version_id: activePolicy.id };
+  }
+
+  private async findMatchesForOrgan(donor: Donor, organ: OrganType, recipients: Recipient[], policy: AllocationPolicyDocument, policyVersionId: string | null): Promise<Pick<OrganMatchResults, 'matches' | 'excluded'>> {
+    const matches: MatchResult[] = [];
+    const excluded: ExcludedCandidate[] = [];
+
+    // Recipients waiting for another organ are handled in that organ's group;
+    // a living donor is directed to their intended recipient only
+    const candidates = recipients.filter(r => r.organ_needed === organ
+      && (!livingDonorService.isLiving(donor) || r.id === donor.intended_recipient_id));
+
+    for (const recipient of candidates) {
+      // Filter recipients based on basic compatibility and eligibility
+      const exclusion = this.getExclusion(donor, recipient, organ, policy);
+      if (exclusion) {
+        console.log(`[Debug] Filtering out recipient ${recipient.id}: ${exclusion.detail}`);
+        excluded.push(exclusion);
+        continue;
+      }
+
       try {
-        const matchResult = await this.calculateMatch(donor, recipient, organ);
-        if (matchResult.match_score > 30) { // Minimum viable match threshold
-          matches.push(matchResult);
+        const matchResult = await this.calculateMatch(donor, recipient, organ, policy);
+        const { raw_score: points } = matchResult.compatibility_factors;
+        if (points > policy.min_match_score) {
+          matches.push({ ...matchResult, policy_version_id: policyVersionId });
+        } else {
+          excluded.push({
+            recipient,
+            reason: 'below_threshold',
+            detail: `Match score ${points.toFixed(1)} points is not above the minimum of ${policy.min_match_score}.`,
+          });
         }
       } catch (error) {
         console.error(`[Error] Failed to calculate match for donor ${donor.id} and recipient ${recipient.id}:`, error);
+        excluded.push({ recipient, reason: 'scoring_error', detail: 'Match score could not be calculated.' });
       }
     }
 
-    // Sort by match score and urgency
-    return matches.sort((a, b) => {
+    this.applyLongevityMatching(donor, organ, matches, policy);
+
+    // Hearts by status tier and kidneys by longevity matching first, then by urgency,
+    // then points earned; equal scores go to the longest wait
+    matches.sort((a, b) => {
+      const tierDiff = heartStatusService.getRank(a.compatibility_factors.heart_status) - heartStatusService.getRank(b.compatibility_factors.heart_status);
+      if (organ === 'heart' && tierDiff !== 0) {
+        return tierDiff;
+      }
+      if (a.compatibility_factors.longevity_priority !== b.compatibility_factors.longevity_priority) {
+        return a.compatibility_factors.longevity_priority ? -1 : 1;
+      }
       if (a.urgency_level !== b.urgency_level) {
         const urgencyOrder = { critical: 3, urgent: 2, routine: 1 };
         return urgencyOrder[b.urgency_level] - urgencyOrder[a.urgency_level];
       }
-      return b.match_score - a.match_score;
+      if (b.compatibility_factors.raw_score !== a.compatibility_factors.raw_score) {
+        return b.compatibility_factors.raw_score - a.compatibility_factors.raw_score;
+      }
+      return b.compatibility_factors.waiting_days - a.compatibility_factors.waiting_days;
     });
+
+    return { matches, excluded };
   }
 
-  private isDonorEligible(donor: Donor, organ: OrganType): { eligible: boolean; reason: string | null } {
-    const history = (donor.medical_history + ' ' + donor.cause_of_death).toLowerCase();
-    const generalExclusions = this.MEDICAL_EXCLUSIONS.donor.general;
-    const organExclusions = this.MEDICAL_EXCLUSIONS.donor[organ];
+  // Ranking stage: when the policy enables longevity matching, a kidney with KDPI at or
+  // below max_kdpi is offered first to candidates with EPTS at or below max_epts
+  private applyLongevityMatching(donor: Donor, organ: OrganType, matches: MatchResult[], policy: AllocationPolicyDocument): void {
+    const { enabled, max_kdpi: maxKdpi, max_epts: maxEpts } = policy.longevity_matching;
+    if (!enabled || organ !== 'kidney') return;
+
+    const kdpi = kdpiService.calculate(donor)?.kdpi;
+    if (kdpi == null || kdpi > maxKdpi) return;
+
+    matches.forEach(match => {
+      const epts = match.compatibility_factors.epts;
+      match.compatibility_factors.longevity_priority = epts != null && epts <= maxEpts;
+    });
+  }
+
+  // First hard rule that rules this recipient out for the organ, or null when none applies
+  private getExclusion(donor: Donor, recipient: Recipient, organ: OrganType, policy: AllocationPolicyDocument): ExcludedCandidate | null {
+    if (recipient.status !== 'active') {
+      return { recipient, reason: 'inactive', detail: `Recipient status is ${recipient.status}.` };
+    }
+    const abo = aboService.classify(donor, recipient, organ, policy, this.clock.now());
+    if (abo.class === 'incompatible') {
+      return { recipient, reason: 'blood_type', detail: abo.detail };
+    }
+
+    const recipientEligibility = this.isRecipientEligible(recipient, organ, policy);
+    if (!recipientEligibility.eligible) {
+      return { recipient, reason: 'recipient_ineligible', detail: recipientEligibility.reason || 'Recipient is not eligible.', trigger: recipientEligibility.trigger };
+    }
+
+    // HCV+ and anti-HBc+ organs only go to recipients who consented to them
+    const consentExclusion = serologyService.getConsentExclusion(donor.serology, recipient);
+    if (consentExclusion) {
+      return { recipient, reason: 'serology_consent', detail: consentExclusion };
+    }
+
+    // Early reject if donor has antigens in recipient's unacceptable list
+    if (this.hasUnacceptableAntigenConflict(donor.hla_typing, recipient, policy)) {
+      return { recipient, reason: 'unacceptable_antigens', detail: 'Donor carries an antigen on the recipient\'s unacceptable list.' };
+    }
+
+    // Pediatric candidates are exempt: their priority targets donors far older than they
+    // are, and size matching already rules out grafts that would not fit
+    const ageDiff = Math.abs(donor.age - recipient.age);
+    if (!pediatricService.isPediatric(recipient) && ageDiff > policy.age_rules[organ].max_diff) {
+      return { recipient, reason: 'age_difference', detail: `Age difference (${ageDiff}) exceeds limit of ${policy.age_rules[organ].max_diff}.` };
+    }
+
+    // The organ must reach the recipient's center within the remaining cold-ischemia window
+    const transport = geoService.estimateTransport(donor, recipient, policy);
+    const remainingHours = this.getViability(donor, organ, policy).remaining_hours;
+    if (transport && transport.eta_hours > remainingHours) {
+      return {
+        recipient,
+        reason: 'transport_time',
+        detail: `Estimated transport time ${transport.eta_hours}h (${transport.distance_km} km) exceeds the remaining ${remainingHours}h cold-ischemia window.`,
+      };
+    }
+
+    return null;
+  }
+
+  // exchange: scoring a paired-donation transplant, where the donor gives to another
+  // pair's recipient rather than an intended one
+  private isDonorEligible(donor: Donor, organ: OrganType, policy: AllocationPolicyDocument, exchange = false): { eligible: boolean; reason: string | null; trigger?: ExclusionTrigger } {
+    const generalExclusions = policy.medical_exclusions.donor.general;
+    const organExclusions = policy.medical_exclusions.donor[organ];
+
+    // Living donation: needs an intended recipient and a completed work-up
+    if (livingDonorService.isLiving(donor)) {
+      if (!exchange && !donor.intended_recipient_id) {
+        return { eligible: false, reason: 'Living donor has no intended recipient.' };
+      }
+      const { outstanding } = livingDonorService.getEvaluation(donor);
+      if (outstanding.length > 0) {
+        return { eligible: false, reason: `Living donor evaluation is incomplete (${outstanding.length} item${outstanding.length === 1 ? '' : 's'} outstanding).` };
+      }
+    }
 
     // Age check
-    const ageRule = this.AGE_RULES[organ].donor;
-    if ((('min' in ageRule) && typeof ageRule.min === 'number' && donor.age < ageRule.min) || (('max' in ageRule) && typeof ageRule.max === 'number' && donor.age > ageRule.max)) {
+    const ageRule = policy.age_rules[organ].donor;
+    if ((typeof ageRule.min === 'number' && donor.age < ageRule.min) || (typeof ageRule.max === 'number' && donor.age > ageRule.max)) {
       return { eligible: false, reason: `Donor age (${donor.age}) is outside the acceptable range for ${organ} donation.` };
     }
 
-    for (const keyword of [...generalExclusions, ...organExclusions]) {
-      if (history.includes(keyword)) {
-        return { eligible: false, reason: `Medical history/cause of death includes exclusion criteria: "${keyword}".` };
-      }
+    // Infectious disease serology from the structured results, not the free text
+    const serologyExclusion = serologyService.getDonorExclusion(donor.serology, policy);
+    if (serologyExclusion) {
+      return { eligible: false, reason: serologyExclusion };
+    }
+
+    const coded = icd10Service.findInRanges(donor.conditions, [...policy.coded_exclusions.donor.general, ...policy.coded_exclusions.donor[organ]]);
+    if (coded) {
+      return { eligible: false, reason: this.describeCodedExclusion(coded) };
+    }
+
+    const trigger = this.findExclusionTrigger(donor, [...generalExclusions, ...organExclusions]);
+    if (trigger) {
+      return { eligible: false, reason: `${trigger.field === 'cause_of_death' ? 'Cause of death' : 'Medical history'} mentions exclusion criteria "${trigger.term}" ("${trigger.matched_text}").`, trigger };
     }
     return { eligible: true, reason: null };
   }
 
-  private isRecipientEligible(recipient: Recipient, organ: OrganType): { eligible: boolean; reason: string | null } {
-    const history = recipient.medical_history.toLowerCase();
-    const generalExclusions = this.MEDICAL_EXCLUSIONS.recipient.general;
-    const organExclusions = this.MEDICAL_EXCLUSIONS.recipient[organ];
+  private isRecipientEligible(recipient: Recipient, organ: OrganType, policy: AllocationPolicyDocument): { eligible: boolean; reason: string | null; trigger?: ExclusionTrigger } {
+    const generalExclusions = policy.medical_exclusions.recipient.general;
+    const organExclusions = policy.medical_exclusions.recipient[organ];
 
     // Age check
-    const ageRule = this.AGE_RULES[organ].recipient;
+    const ageRule = policy.age_rules[organ].recipient;
     if (ageRule.max && recipient.age > ageRule.max) {
       return { eligible: false, reason: `Recipient age (${recipient.age}) is outside the acceptable range for ${organ} transplantation.` };
     }
 
-    for (const keyword of [...generalExclusions, ...organExclusions]) {
-      if (history.includes(keyword)) {
-        return { eligible: false, reason: `Medical history includes exclusion criteria: "${keyword}".` };
-      }
+    const coded = icd10Service.findInRanges(recipient.conditions, [...policy.coded_exclusions.recipient.general, ...policy.coded_exclusions.recipient[organ]]);
+    if (coded) {
+      return { eligible: false, reason: this.describeCodedExclusion(coded) };
+    }
+
+    const trigger = this.findExclusionTrigger(recipient, [...generalExclusions, ...organExclusions]);
+    if (trigger) {
+      return { eligible: false, reason: `Medical history mentions exclusion criteria "${trigger.term}" ("${trigger.matched_text}").`, trigger };
     }
     return { eligible: true, reason: null };
   }
 
-  private async calculateMatch(donor: Donor, recipient: Recipient, organ: OrganType): Promise<MatchResult> {
+  private describeCodedExclusion({ condition, range }: CodedConditionMatch): string {
+    return `Coded condition ${condition.code} (${condition.label}) falls within exclusion range ${range}.`;
+  }
+
+  // First affirmed mention of an exclusion keyword (or a synonym) in the history, then
+  // the cause of death; negated mentions such as "no history of cancer" do not count
+  private findExclusionTrigger(person: { medical_history: string; cause_of_death?: string }, keywords: string[]): ExclusionTrigger | null {
+    const fields: ExclusionTrigger['field'][] = ['medical_history', 'cause_of_death'];
+    for (const field of fields) {
+      const match = clinicalTextService.findFirst(person[field] || '', keywords);
+      if (match) return { ...match, field };
+    }
+    return null;
+  }
+
+  private async calculateMatch(donor: Donor, recipient: Recipient, organ: OrganType, policy: AllocationPolicyDocument): Promise<MatchResult> {
     let matchScore = 0;
+    const abo = aboService.classify(donor, recipient, organ, policy, this.clock.now());
     const compatibility_factors = {
-      blood_compatibility: this.isBloodCompatible(donor.blood_type, recipient.blood_type),
-      hla_compatibility: 0,
+      blood_compatibility: abo.class !== 'incompatible',
+      abo,
+      hla_compatibility: null as number | null,
+      hla_mismatch: this.calculateHlaMismatches(donor.hla_typing, recipient.hla_typing, organ, policy),
       age_compatibility: false,
       size_compatibility: false,
+      size: null as SizeAssessment | null,
       gender_compatibility: false,
       urgency_bonus: Math.min(recipient.urgency_score, 10),
+      cpra: cpraService.calculate(recipient.unacceptable_antigens),
+      sensitization_bonus: 0,
+      score_breakdown: [] as ScoreComponent[],
+      raw_score: 0,
+      max_score: this.getMaxScore(recipient, organ, policy),
+      waiting_days: this.getWaitingDays(recipient, organ, policy),
+      epts: organ === 'kidney' ? eptsService.calculate(recipient, this.clock.now()).epts : null,
+      longevity_priority: false,
+      pediatric_priority: false,
+      heart_status: organ === 'heart' ? heartStatusService.assess(recipient, this.clock.now()) : null,
+      risk_breakdown: [] as RiskComponent[],
+      risk_prediction: null as RiskPrediction | null,
+      viral_serostatus: [] as ViralSerostatus[],
     };
 
-    // --- Common Factors (45 points total) ---
+    // --- Common Factors (45 points total by default) ---
+    const { blood_compatibility: bloodPoints, urgency_max: urgencyMax } = policy.common_points;
 
     // Blood type compatibility (30 points)
-    if (compatibility_factors.blood_compatibility) {
-      matchScore += 30;
-    }
+    matchScore += this.award(compatibility_factors, {
+      key: 'blood',
+      label: 'Blood type',
+      raw_input: `${donor.blood_type} → ${recipient.blood_type}`,
+      points: compatibility_factors.blood_compatibility ? bloodPoints : 0,
+      max_points: bloodPoints,
+      rule: BLOOD_COMPATIBILITY_LABELS[abo.class],
+    });
 
     // Urgency bonus (15 points)
-    const urgencyBonus = Math.min(recipient.urgency_score / 10 * 15, 15);
+    const urgencyBonus = Math.min(recipient.urgency_score / 10 * urgencyMax, urgencyMax);
     compatibility_factors.urgency_bonus = urgencyBonus;
-    matchScore += urgencyBonus;
+    matchScore += this.award(compatibility_factors, {
+      key: 'urgency',
+      label: 'Urgency',
+      raw_input: `Urgency score ${recipient.urgency_score}/10`,
+      points: urgencyBonus,
+      max_points: urgencyMax,
+      rule: `Score / 10 × ${urgencyMax}, capped at ${urgencyMax}`,
+    });
 
-    // --- Organ-Specific Factors (55 points total) ---
+    // Waiting time (up to 10 points)
+    const { points_per_year: pointsPerYear, max_points: waitingMax } = policy.waiting_time;
+    const waitingYears = compatibility_factors.waiting_days / 365.25;
+    matchScore += this.award(compatibility_factors, {
+      key: 'waiting_time',
+      label: 'Waiting time',
+      raw_input: `${waitingYears.toFixed(1)} years (${compatibility_factors.waiting_days} days)`,
+      points: Math.min(waitingYears * pointsPerYear, waitingMax),
+      max_points: waitingMax,
+      rule: `${pointsPerYear} per year, capped at ${waitingMax}`,
+    });
+
+    // Proximity (up to 5 points) - shorter transport keeps cold-ischemia time down
+    const transport = geoService.estimateTransport(donor, recipient, policy);
+    const { max_points: proximityMax, full_points_km: fullKm, zero_points_km: zeroKm } = policy.proximity_points;
+    matchScore += this.award(compatibility_factors, {
+      key: 'proximity',
+      label: 'Proximity',
+      raw_input: transport ? `${transport.distance_km} km, ~${transport.eta_hours}h by ${transport.mode}` : 'Location not matched to a center',
+      points: this.getProximityPoints(transport, policy),
+      max_points: proximityMax,
+      rule: `Full within ${fullKm} km, none beyond ${zeroKm} km`,
+    });
+
+    // Pediatric priority (10 points) - candidates listed before 18 get young donors first
+    if (pediatricService.isPediatric(recipient)) {
+      const { priority_max_donor_age: maxDonorAge, priority_points: pediatricPoints } = policy.pediatric;
+      compatibility_factors.pediatric_priority = donor.age < maxDonorAge;
+      matchScore += this.award(compatibility_factors, {
+        key: 'pediatric',
+        label: 'Pediatric priority',
+        raw_input: `Listed at age ${pediatricService.getAgeAtListing(recipient)}, donor age ${donor.age}`,
+        points: compatibility_factors.pediatric_priority ? pediatricPoints : 0,
+        max_points: pediatricPoints,
+        rule: `Pediatric candidate and donor under ${maxDonorAge}`,
+      });
+    }
+
+    // --- Organ-Specific Factors (55 points total by default) ---
     let organSpecificScore = 0;
     switch (organ) {
       case 'heart':
-        organSpecificScore = this.calculateHeartMatchFactors(donor, recipient, compatibility_factors);
+        organSpecificScore = this.calculateHeartMatchFactors(donor, recipient, compatibility_factors, policy);
         break;
       case 'liver':
-        organSpecificScore = this.calculateLiverMatchFactors(donor, recipient, compatibility_factors);
+        organSpecificScore = this.calculateLiverMatchFactors(donor, recipient, compatibility_factors, policy);
         break;
       case 'kidney':
-        organSpecificScore = this.calculateKidneyMatchFactors(donor, recipient, compatibility_factors);
+        organSpecificScore = this.calculateKidneyMatchFactors(donor, recipient, compatibility_factors, policy);
         break;
     }
     matchScore += organSpecificScore;
 
     // --- Final Calculations ---
-    const { risk_level, risk_percentage } = this.calculateRisk(donor, recipient, organ, matchScore);
+    const { risk_level, risk_percentage, risk_breakdown, prediction, viral_serostatus } = this.calculateRisk(donor, recipient, organ, matchScore, compatibility_factors, transport, policy);
     const urgency_level = this.determineUrgencyLevel(recipient, organ);
 
     // Remaining viability time (in hours, floored to 1 decimal)
-    const remaining_viability_hours = this.getRemainingIschemiaHours(donor, organ);
+    const remaining_viability_hours = this.getViability(donor, organ, policy).remaining_hours;
 
     console.log(`[Debug] Match score for recipient ${recipient.id}: ${matchScore.toFixed(2)}`, {
-      common: (30 * (compatibility_factors.blood_compatibility ? 1:0)) + compatibility_factors.urgency_bonus,
+      common: (bloodPoints * (compatibility_factors.blood_compatibility ? 1:0)) + compatibility_factors.urgency_bonus,
       organSpecific: organSpecificScore,
       total: matchScore,
       factors: compatibility_factors
     });
 
     return {
+      organ,
       recipient,
-      match_score: Math.round(matchScore * 100) / 100,
+      // Share of the points this candidate could earn; ranking uses the points themselves,
+      // so a priority bonus always moves a candidate up
+      match_score: Math.round(matchScore / compatibility_factors.max_score * 10000) / 100,
       risk_level,
       risk_percentage,
       urgency_level,
-      compatibility_factors,
+      distance_km: transport?.distance_km ?? null,
+      transport_eta_hours: transport?.eta_hours ?? null,
+      compatibility_factors: { ...compatibility_factors, raw_score: Math.round(matchScore * 100) / 100, risk_breakdown, risk_prediction: prediction, viral_serostatus },
       // expose remaining time instead of static window
       viability_window_hours: remaining_viability_hours,
       viability_window: remaining_viability_hours,
       // keep this aligned with remaining time so UI reflects real-time
       cold_ischemia_time: remaining_viability_hours,
+      policy_version_id: null, // stamped by findMatchesForOrgan
     };
   }
 
-  private calculateHeartMatchFactors(donor: Donor, recipient: Recipient, factors: MatchResult['compatibility_factors']): number {
+  private calculateHeartMatchFactors(donor: Donor, recipient: Recipient, factors: MatchResult['compatibility_factors'], policy: AllocationPolicyDocument): number {
     let score = 0;
     const organ: OrganType = 'heart';
 
     // HLA compatibility (25 points) — weighted per-locus, antigen-level
-    const hlaScore = this.calculateHLACompatibility(donor.hla_typing, recipient.hla_typing, organ);
-    factors.hla_compatibility = hlaScore;
-    score += hlaScore * 25;
+    score += this.scoreHla(donor, recipient, organ, factors, policy);
 
     // Age compatibility is now a hard rule, not scored.
     factors.age_compatibility = true;
 
     // Size compatibility (25 points)
-    const sizeCompatible = this.isSizeCompatible(donor, recipient, 0.7, 1.3);
-    factors.size_compatibility = sizeCompatible;
-    if (sizeCompatible) score += 25;
+    score += this.scoreSize(donor, recipient, organ, factors, policy);
 
     // Gender compatibility (5 points)
-    const genderCompatible = this.isGenderCompatible(donor.gender, recipient.gender, organ);
-    factors.gender_compatibility = genderCompatible;
-    if (genderCompatible) score += 5;
+    score += this.scoreGender(donor, recipient, organ, factors, policy);
 
     return score;
   }
 
-  private calculateLiverMatchFactors(donor: Donor, recipient: Recipient, factors: MatchResult['compatibility_factors']): number {
+  private calculateLiverMatchFactors(donor: Donor, recipient: Recipient, factors: MatchResult['compatibility_factors'], policy: AllocationPolicyDocument): number {
     let score = 0;
     const organ: OrganType = 'liver';
 
-    // MELD score bonus (20 points)
-    if (recipient.meld_score) {
-        score += Math.min(recipient.meld_score / 40 * 20, 20);
+    // MELD score bonus (20 points), computed from the latest labs
+    const meldPoints = policy.organ_points[organ].meld ?? 0;
+    const meld = meldService.assess(recipient, this.clock.now());
+    let meldInput = 'No MELD score';
+    if (meld.score != null) {
+      meldInput = meld.source === 'labs' ? `MELD-Na ${meld.score}` : `MELD ${meld.score} (reported, no labs)`;
+      if (meld.stale) meldInput += `, labs ${meld.lab_age_days} days old`;
     }
+    score += this.award(factors, {
+      key: 'meld',
+      label: 'MELD',
+      raw_input: meldInput,
+      points: meld.score ? Math.min(meld.score / 40 * meldPoints, meldPoints) : 0,
+      max_points: meldPoints,
+      rule: `MELD / 40 × ${meldPoints}, capped at ${meldPoints}`,
+    });
 
     // HLA compatibility (10 points - less critical) — weighted per-locus, antigen-level
-    const hlaScore = this.calculateHLACompatibility(donor.hla_typing, recipient.hla_typing, organ);
-    factors.hla_compatibility = hlaScore;
-    score += hlaScore * 10;
+    score += this.scoreHla(donor, recipient, organ, factors, policy);
 
     // Age compatibility is now a hard rule, not scored.
     factors.age_compatibility = true;
 
     // Size compatibility (20 points)
-    const sizeCompatible = this.isSizeCompatible(donor, recipient, 0.6, 1.5);
-    factors.size_compatibility = sizeCompatible;
-    if (sizeCompatible) score += 20;
+    score += this.scoreSize(donor, recipient, organ, factors, policy);
     
     // Gender compatibility (5 points)
-    const genderCompatible = this.isGenderCompatible(donor.gender, recipient.gender, organ);
-    factors.gender_compatibility = genderCompatible;
-    if (genderCompatible) score += 5;
+    score += this.scoreGender(donor, recipient, organ, factors, policy);
 
     return score;
   }
 
-  private calculateKidneyMatchFactors(donor: Donor, recipient: Recipient, factors: MatchResult['compatibility_factors']): number {
+  private calculateKidneyMatchFactors(donor: Donor, recipient: Recipient, factors: MatchResult['compatibility_factors'], policy: AllocationPolicyDocument): number {
     let score = 0;
     const organ: OrganType = 'kidney';
 
     // HLA compatibility (35 points - most critical) — weighted per-locus, antigen-level
-    const hlaScore = this.calculateHLACompatibility(donor.hla_typing, recipient.hla_typing, organ);
-    factors.hla_compatibility = hlaScore;
-    score += hlaScore * 35;
+    score += this.scoreHla(donor, recipient, organ, factors, policy);
 
     // Age compatibility is now a hard rule, not scored.
     factors.age_compatibility = true;
 
     // Size compatibility (15 points)
-    const sizeCompatible = this.isSizeCompatible(donor, recipient, 0.5, 2.0);
-    factors.size_compatibility = sizeCompatible;
-    if (sizeCompatible) score += 15;
+    score += this.scoreSize(donor, recipient, organ, factors, policy);
 
     // Gender compatibility (5 points)
-    const genderCompatible = this.isGenderCompatible(donor.gender, recipient.gender, organ);
-    factors.gender_compatibility = genderCompatible;
-    if (genderCompatible) score += 5;
+    score += this.scoreGender(donor, recipient, organ, factors, policy);
+
+    // Sensitization priority (up to 10 points) - highly sensitized candidates rarely get a compatible offer
+    const band = this.getSensitizationBand(factors.cpra, policy);
+    const sensitizationBonus = band ? band.points : 0;
+    factors.sensitization_bonus = sensitizationBonus;
+    score += this.award(factors, {
+      key: 'sensitization',
+      label: 'Sensitization (cPRA)',
+      raw_input: `cPRA ${factors.cpra}%`,
+      points: sensitizationBonus,
+      max_points: Math.max(0, ...policy.cpra_priority_points.map(b => b.points)),
+      rule: band ? `cPRA ≥ ${band.min_cpra}% band` : 'Below the lowest cPRA band',
+    });
 
     return score;
   }
 
-  private isBloodCompatible(donorType: BloodType, recipientType: BloodType): boolean {
-    return this.BLOOD_COMPATIBILITY[donorType].includes(recipientType);
+  // Points this candidate could earn for the organ: the base factors plus the bonuses open
+  // to them (pediatric priority only for pediatric candidates, sensitization only for kidney)
+  private getMaxScore(recipient: Recipient, organ: OrganType, policy: AllocationPolicyDocument): number {
+    const { blood_compatibility: bloodPoints, urgency_max: urgencyMax } = policy.common_points;
+    const { meld = 0, hla, size, gender } = policy.organ_points[organ];
+    const sensitization = organ === 'kidney' ? Math.max(0, ...policy.cpra_priority_points.map(b => b.points)) : 0;
+    const pediatric = pediatricService.isPediatric(recipient) ? policy.pediatric.priority_points : 0;
+    return bloodPoints + urgencyMax + policy.waiting_time.max_points + policy.proximity_points.max_points
+      + pediatric + meld + hla + size + gender + sensitization;
   }
 
-  // New: normalize an allele string to antigen-level (e.g., A*02:01 -> A2, B*07:02 -> B7, DRB1*15:01 -> DR15)
-  private normalizeAllele(allele: string, locusKey: string): string {
-    if (!allele) return '';
-    const lc = locusKey.toUpperCase();
-    const a = allele.toUpperCase().trim();
+  // Whole days on the waiting list; kidney candidates may count from dialysis start if earlier
+  private getWaitingDays(recipient: Recipient, organ: OrganType, policy: AllocationPolicyDocument): number {
+    const starts = [recipient.listing_date || recipient.created_at];
+    if (organ === 'kidney' && policy.waiting_time.use_dialysis_start_for_kidney && recipient.dialysis_start_date) {
+      starts.push(recipient.dialysis_start_date);
+    }
+    const earliest = Math.min(...starts.map(d => new Date(d).getTime()).filter(t => !Number.isNaN(t)));
+    if (!Number.isFinite(earliest)) return 0;
+    return Math.max(0, Math.floor((this.clock.now() - earliest) / (1000 * 60 * 60 * 24)));
+  }
 
-    // Extract the two-digit group after '*'
-    const match = a.match(/\*?(\d{2})/); // captures 02 from A*02:01, 15 from DRB1*15:01
-    const twoDigit = match ? match[1] : null;
+  // Linear decay from max_points at full_points_km to zero at zero_points_km; unknown centers earn none
+  private getProximityPoints(transport: TransportEstimate | null, policy: AllocationPolicyDocument): number {
+    if (!transport) return 0;
+    const { max_points: maxPoints, full_points_km: fullKm, zero_points_km: zeroKm } = policy.proximity_points;
+    if (transport.distance_km <= fullKm) return maxPoints;
+    if (transport.distance_km >= zeroKm) return 0;
+    return maxPoints * (zeroKm - transport.distance_km) / (zeroKm - fullKm);
+  }
 
-    if (lc.includes('HLA-A')) {
-      return twoDigit ? `A${parseInt(twoDigit, 10)}` : a.replace(/^HLA-/, '');
-    }
-    if (lc.includes('HLA-B')) {
-      return twoDigit ? `B${parseInt(twoDigit, 10)}` : a.replace(/^HLA-/, '');
-    }
-    if (lc.includes('HLA-DR')) {
-      return twoDigit ? `DR${parseInt(twoDigit, 10)}` : a.replace(/^HLA-/, '').replace(/^DRB1\*/, 'DR');
-    }
-    if (lc.includes('HLA-C')) {
-      return twoDigit ? `C${parseInt(twoDigit, 10)}` : a.replace(/^HLA-/, '');
-    }
-    if (lc.includes('HLA-DQ')) {
-      return twoDigit ? `DQ${parseInt(twoDigit, 10)}` : a.replace(/^HLA-/, '');
-    }
-    if (lc.includes('HLA-DP')) {
-      return twoDigit ? `DP${parseInt(twoDigit, 10)}` : a.replace(/^HLA-/, '');
-    }
-    // Fallback: return raw without HLA- prefix
-    return a.replace(/^HLA-/, '');
+  private getSensitizationBand(cpra: number, policy: AllocationPolicyDocument): AllocationPolicyDocument['cpra_priority_points'][number] | undefined {
+    // Highest qualifying band wins, whatever order the policy lists them in
+    return [...policy.cpra_priority_points]
+      .sort((a, b) => b.min_cpra - a.min_cpra)
+      .find(b => cpra >= b.min_cpra);
   }
 
-  // New: convert allele list to a set of antigen-level strings for a locus
-  private alleleListToAntigens(alleles: string[] | undefined, locusKey: string): Set<string> {
-    if (!Array.isArray(alleles) || alleles.length === 0) return new Set();
-    return new Set(
-      alleles
-        .filter(v => typeof v === 'string' && v.trim().length > 0)
-        .map(a => this.normalizeAllele(a, locusKey))
-    );
+  // Record a scored factor in the breakdown and return the points it earned
+  private award(factors: MatchResult['compatibility_factors'], component: ScoreComponent): number {
+    factors.score_breakdown.push({ ...component, points: Math.round(component.points * 100) / 100 });
+    return component.points;
   }
 
-  // New: compute ratio of matches at a single locus (0..1) allowing 0/1/2 matches
-  private computeLocusMatchRatio(donorAlleles: string[] | undefined, recipientAlleles: string[] | undefined, locusKey: string): number {
-    const donorAntigens = this.alleleListToAntigens(donorAlleles, locusKey);
-    const recipientAntigens = this.alleleListToAntigens(recipientAlleles, locusKey);
+  // Weighted per-locus, antigen-level HLA compatibility
+  private scoreHla(donor: Donor, recipient: Recipient, organ: OrganType, factors: MatchResult['compatibility_factors'], policy: AllocationPolicyDocument): number {
+    const maxPoints = policy.organ_points[organ].hla;
+    const hlaScore = this.calculateHLACompatibility(donor.hla_typing, recipient.hla_typing, organ, policy);
+    factors.hla_compatibility = hlaScore;
+
+    return this.award(factors, {
+      key: 'hla',
+      label: 'HLA compatibility',
+      raw_input: hlaScore === null
+        ? 'Typing incomplete'
+        : `${(hlaScore * 100).toFixed(0)}% weighted match, MM ${hlaService.formatMismatch(factors.hla_mismatch)}`,
+      points: this.getHlaCredit(hlaScore, policy) * maxPoints,
+      max_points: maxPoints,
+      rule: hlaScore === null
+        ? `Incomplete typing credited at ${policy.hla_incomplete_typing_credit * 100}%`
+        : `Weighted match × ${maxPoints}`,
+    });
+  }
+
+  private scoreSize(donor: Donor, recipient: Recipient, organ: OrganType, factors: MatchResult['compatibility_factors'], policy: AllocationPolicyDocument): number {
+    const maxPoints = policy.organ_points[organ].size;
+    const size = sizeMatchingService.assess(donor, recipient, organ, policy);
+    factors.size = size;
+    factors.size_compatibility = size.score > 0;
+
+    return this.award(factors, {
+      key: 'size',
+      label: 'Size',
+      raw_input: size.summary,
+      points: size.score * maxPoints,
+      max_points: maxPoints,
+      rule: size.rule,
+    });
+  }
+
+  private scoreGender(donor: Donor, recipient: Recipient, organ: OrganType, factors: MatchResult['compatibility_factors'], policy: AllocationPolicyDocument): number {
+    const maxPoints = policy.organ_points[organ].gender;
+    const genderCompatible = this.isGenderCompatible(donor.gender, recipient.gender, organ);
+    factors.gender_compatibility = genderCompatible;
+
+    let rule = 'Different sex earns no points';
+    if (donor.gender === recipient.gender) rule = 'Same sex';
+    else if (genderCompatible) rule = 'Female donor to male recipient accepted for heart';
+
+    return this.award(factors, {
+      key: 'gender',
+      label: 'Sex',
+      raw_input: `${donor.gender} → ${recipient.gender}`,
+      points: genderCompatible ? maxPoints : 0,
+      max_points: maxPoints,
+      rule,
+    });
+  }
+
+  // Compute ratio of matches at a single locus (0..1) allowing 0/1/2 matches;
+  // splits and broads earn partial or full credit per the policy's hla_equivalence_credit
+  private computeLocusMatchRatio(donorAlleles: string[] | undefined, recipientAlleles: string[] | undefined, locusKey: string, policy: AllocationPolicyDocument): number {
+    const donorAntigens = hlaService.alleleListToAntigens(donorAlleles, locusKey);
+    const recipientAntigens = hlaService.alleleListToAntigens(recipientAlleles, locusKey);
     if (donorAntigens.size === 0 || recipientAntigens.size === 0) return -1; // mark as unavailable
 
     let matches = 0;
-    donorAntigens.forEach(a => {
-      if (recipientAntigens.has(a)) matches++;
+    donorAntigens.forEach(d => {
+      let best = 0;
+      recipientAntigens.forEach(r => {
+        const relation = hlaService.compareAntigens(d, r);
+        if (relation !== 'none') best = Math.max(best, policy.hla_equivalence_credit[relation]);
+      });
+      matches += best;
     });
     const denom = Math.max(1, Math.min(2, donorAntigens.size)); // assume up to 2 alleles per locus
     return Math.min(1, matches / denom);
   }
 
   // Improved: antigen-level, weighted per-locus, robust to missing data
-  private calculateHLACompatibility(donorHLA: Donor['hla_typing'], recipientHLA: Recipient['hla_typing'], organ: OrganType): number {
-    const weights = this.HLA_LOCUS_WEIGHTS[organ] || {};
+  private calculateHLACompatibility(donorHLA: Donor['hla_typing'], recipientHLA: Recipient['hla_typing'], organ: OrganType, policy: AllocationPolicyDocument): number | null {
+    const weights = policy.hla_locus_weights[organ] || {};
     let weightedSum = 0;
     let weightsUsed = 0;
 
@@ -420,72 +718,72 @@ class MatchingService {
       const donorAlleles: string[] = (donorHLA?.[locusKey] as string[]) || [];
       const recipientAlleles: string[] = (recipientHLA?.[locusKey] as string[]) || [];
 
-      const locusRatio = this.computeLocusMatchRatio(donorAlleles, recipientAlleles, locusKey);
+      const locusRatio = this.computeLocusMatchRatio(donorAlleles, recipientAlleles, locusKey, policy);
       if (locusRatio >= 0) {
         weightedSum += locusRatio * w;
         weightsUsed += w;
       }
     });
 
-    // If no locus had data on both sides, default neutral (1.0)
-    if (weightsUsed === 0) return 1;
+    // If no locus had data on both sides, report typing as incomplete instead of guessing
+    if (weightsUsed === 0) return null;
     // Normalize to the sum of weights actually used
     return Math.min(1, Math.max(0, weightedSum / weightsUsed));
   }
 
-  // New: optional virtual crossmatch using recipient unacceptable antigens (if available)
-  // Supported sources (all optional): recipient.unacceptable_antigens (string[]), recipient.hla_typing.unacceptable_antigens (string[])
-  private hasUnacceptableAntigenConflict(donorHLA: Donor['hla_typing'], recipient: Recipient, organ: OrganType): boolean {
-    const importantLoci = this.HLA_IMPORTANCE[organ] as string[];
+  private getHlaCredit(hlaScore: number | null, policy: AllocationPolicyDocument): number {
+    return hlaScore ?? policy.hla_incomplete_typing_credit;
+  }
 
-    // Collect donor antigens across important loci
-    const donorAntigens = new Set<string>();
-    importantLoci.forEach((locusKey) => {
-      const list = (donorHLA?.[locusKey] as string[]) || [];
-      this.alleleListToAntigens(list, locusKey).forEach(a => donorAntigens.add(a));
+  // Donor A/B/DR antigens not shared by the recipient, 0-2 per locus (a homozygous donor can
+  // mismatch at most once). Split/broad pairs count as shared when they earn full credit.
+  private calculateHlaMismatches(donorHLA: Donor['hla_typing'], recipientHLA: Recipient['hla_typing'], organ: OrganType, policy: AllocationPolicyDocument): HlaMismatchSummary {
+    const summary: HlaMismatchSummary = { a: null, b: null, dr: null, total: null, zero_mismatch: false, typing_complete: false };
+
+    this.MISMATCH_LOCI.forEach(({ key, field }) => {
+      const donorAntigens = hlaService.alleleListToAntigens(donorHLA?.[key], key);
+      const recipientAntigens = hlaService.alleleListToAntigens(recipientHLA?.[key], key);
+      if (donorAntigens.size === 0 || recipientAntigens.size === 0) return;
+
+      let mismatches = 0;
+      donorAntigens.forEach(d => {
+        const shared = Array.from(recipientAntigens).some(r => {
+          const relation = hlaService.compareAntigens(d, r);
+          return relation !== 'none' && policy.hla_equivalence_credit[relation] >= 1;
+        });
+        if (!shared) mismatches++;
+      });
+      summary[field] = Math.min(2, mismatches);
     });
 
-    // Get unacceptable antigens (any field, optional)
-    const unacceptableRaw: unknown =
-      (recipient as any).unacceptable_antigens ||
-      (recipient.hla_typing && (recipient.hla_typing as any).unacceptable_antigens) ||
-      [];
-
-    const unacceptable: string[] = Array.isArray(unacceptableRaw) ? unacceptableRaw : [];
-
-    // Normalize unacceptable to antigen-level too (use generic locusKey matching)
-    const unacceptableAntigens = new Set<string>(
-      unacceptable
-        .filter(v => typeof v === 'string' && v.trim().length > 0)
-        .map(a => {
-          const upper = a.toUpperCase().trim();
-          // Try infer locus from the leading part to normalize consistently
-          const inferredLocus =
-            upper.startsWith('A') ? 'HLA-A' :
-            upper.startsWith('B') ? 'HLA-B' :
-            upper.startsWith('C') ? 'HLA-C' :
-            upper.startsWith('DQ') ? 'HLA-DQ' :
-            upper.startsWith('DP') ? 'HLA-DP' :
-            upper.startsWith('DR') || upper.startsWith('DRB1') ? 'HLA-DR' : 'HLA-A';
-          return this.normalizeAllele(upper, inferredLocus);
-        })
-    );
-
-    if (unacceptableAntigens.size === 0) return false;
-
-    for (const a of donorAntigens) {
-      if (unacceptableAntigens.has(a)) {
-        return true;
-      }
+    summary.typing_complete = summary.a !== null && summary.b !== null && summary.dr !== null;
+    if (summary.typing_complete) {
+      summary.total = (summary.a ?? 0) + (summary.b ?? 0) + (summary.dr ?? 0);
+      summary.zero_mismatch = organ === 'kidney' && summary.total === 0;
     }
-    return false;
+    return summary;
   }
 
-  private isSizeCompatible(donor: Donor, recipient: Recipient, minRatio: number, maxRatio: number): boolean {
-    if (!donor.weight_kg || !recipient.weight_kg) return true; // Assume compatible if data missing
-
-    const weightRatio = donor.weight_kg / recipient.weight_kg;
-    return weightRatio >= minRatio && weightRatio <= maxRatio;
+  // Virtual crossmatch: reject when the donor carries any of the recipient's unacceptable antigens.
+  // An unacceptable broad covers all of its splits; an unacceptable split conflicts with a donor
+  // typed only at the broad when the policy's unacceptable_broad_donor_conflicts is set.
+  private hasUnacceptableAntigenConflict(donorHLA: Donor['hla_typing'], recipient: Recipient, policy: AllocationPolicyDocument): boolean {
+    const unacceptableAntigens = (recipient.unacceptable_antigens || [])
+      .filter(v => typeof v === 'string' && v.trim().length > 0)
+      .map(a => hlaService.normalizeAntigen(a));
+    if (unacceptableAntigens.length === 0) return false;
+
+    for (const d of hlaService.typingToAntigens(donorHLA)) {
+      for (const u of unacceptableAntigens) {
+        const relation = hlaService.compareAntigens(d, u);
+        if (relation === 'identical') return true;
+        if (relation === 'split_broad') {
+          const donorIsBroad = d === hlaService.getBroad(u);
+          if (!donorIsBroad || policy.unacceptable_broad_donor_conflicts) return true;
+        }
+      }
+    }
+    return false;
   }
 
   private isGenderCompatible(donorGender: Gender, recipientGender: Gender, organ: OrganType): boolean {
@@ -501,94 +799,66 @@ class MatchingService {
     return false;
   }
 
-  private calculateRisk(donor: Donor, recipient: Recipient, organ: OrganType, matchScore: number): { risk_level: 'low' | 'medium' | 'high', risk_percentage: number } {
-    let riskFactors = 0;
-
-    // 1) Age related risk (unchanged)
-    if (donor.age > 60 || recipient.age > 65) riskFactors += 15;
-    if (Math.abs(donor.age - recipient.age) > 25) riskFactors += 10;
-
-    // 2) Match-score related risk (keep simple steps)
-    if (matchScore < 50) riskFactors += 20;
-    else if (matchScore < 70) riskFactors += 10;
-
-    // 3) Organ-specific urgency risks (unchanged)
-    switch (organ) {
-      case 'heart':
-        if (recipient.unos_status === '1A') riskFactors += 5;
-        break;
-      case 'liver':
-        if (recipient.meld_score && recipient.meld_score > 25) riskFactors += 10;
-        break;
-    }
-
-    // 4) HLA mismatch penalty: use existing HLA calculation (0..1 match -> 1..0 mismatch)
-    const hlaScore = this.calculateHLACompatibility(donor.hla_typing, recipient.hla_typing, organ); // 0..1
-    const hlaMismatch = 1 - hlaScore; // 0..1
-    const hlaPenaltyMax = organ === 'kidney' ? 20 : organ === 'heart' ? 15 : 8;
-    riskFactors += hlaMismatch * hlaPenaltyMax;
-
-    // 5) Size mismatch penalty: outside organ-specific bounds adds a small penalty
-    const { minRatio, maxRatio } = this.getSizeBounds(organ);
-    if (donor.weight_kg && recipient.weight_kg) {
-      const ratio = donor.weight_kg / recipient.weight_kg;
-      if (ratio < minRatio || ratio > maxRatio) {
-        riskFactors += 10;
-      }
-    }
-
-    // 6) Cold ischemia time penalty: only apply when explicit CIT is set
-    if (donor.cold_ischemia_time_hours != null) {
-      const windowHrs = donor.cold_ischemia_time_hours;
-      const startAt = this.getIschemiaStartAt(donor);
-      const elapsedHrs = this.getElapsedHoursSince(startAt);
-      if (elapsedHrs > windowHrs) {
-        riskFactors += 20; // exceeded window
-      } else {
-        riskFactors += Math.min(8, (elapsedHrs / windowHrs) * 8);
-      }
-    }
-
-    // 7) Comorbidity penalty from free-text history (replaces the old diabetes-only rule)
-    riskFactors += this.getComorbidityPenalty(donor.medical_history, recipient.medical_history);
-
-    // Cap and map to level (unchanged thresholds, cap at 80)
-    const risk_percentage = Math.min(riskFactors, 80);
-    let risk_level: 'low' | 'medium' | 'high';
-    if (risk_percentage < 25) risk_level = 'low';
-    else if (risk_percentage < 50) risk_level = 'medium';
-    else risk_level = 'high';
-
-    return { risk_level, risk_percentage };
+  // Risk comes from the policy's risk model, fed the features computed here
+  private calculateRisk(donor: Donor, recipient: Recipient, organ: OrganType, matchScore: number, factors: Pick<MatchResult['compatibility_factors'], 'abo' | 'hla_mismatch' | 'cpra' | 'heart_status'>, transport: TransportEstimate | null, policy: AllocationPolicyDocument): RiskAssessment & { viral_serostatus: ViralSerostatus[] } {
+    const viralSerostatus = this.getViralSerostatus(donor, recipient);
+    const viability = this.getViability(donor, organ, policy);
+    const input: RiskModelInput = {
+      donor,
+      recipient,
+      organ,
+      match_score: matchScore,
+      abo: factors.abo,
+      size: sizeMatchingService.assess(donor, recipient, organ, policy),
+      hla_credit: this.getHlaCredit(this.calculateHLACompatibility(donor.hla_typing, recipient.hla_typing, organ, policy), policy),
+      hla_mismatch: factors.hla_mismatch,
+      cpra: factors.cpra,
+      ischemia: viability.counting_down ? { elapsed_hours: viability.elapsed_hours, window_hours: viability.limit_hours } : null,
+      transport_eta_hours: transport?.eta_hours ?? null,
+      comorbidity_penalty: this.getComorbidityPenalty(donor, recipient),
+      viral_serostatus: viralSerostatus,
+      kdpi: organ === 'kidney' ? kdpiService.calculate(donor) : null,
+      meld: organ === 'liver' ? meldService.getCurrentScore(recipient, this.clock.now()) : null,
+      heart_status: factors.heart_status,
+      policy,
+    };
+    return { ...riskModelService.getModel(policy.risk_model).assess(input), viral_serostatus: viralSerostatus };
   }
 
-  // Small helper to reuse the same bounds you apply during organ-specific scoring
-  private getSizeBounds(organ: OrganType): { minRatio: number; maxRatio: number } {
-    switch (organ) {
-      case 'heart': return { minRatio: 0.7, maxRatio: 1.3 };
-      case 'liver': return { minRatio: 0.6, maxRatio: 1.5 };
-      case 'kidney': return { minRatio: 0.5, maxRatio: 2.0 };
-      default: return { minRatio: 0.7, maxRatio: 1.3 };
-    }
+  // CMV and EBV donor/recipient serostatus pairs
+  private getViralSerostatus(donor: Donor, recipient: Recipient): ViralSerostatus[] {
+    const donorSerology = serologyService.normalize(donor.serology);
+    const pairs: { virus: ViralSerostatus['virus']; recipient: Recipient['cmv_serostatus'] }[] = [
+      { virus: 'cmv', recipient: recipient.cmv_serostatus || 'pending' },
+      { virus: 'ebv', recipient: recipient.ebv_serostatus || 'pending' },
+    ];
+    return pairs.map(({ virus, recipient: recipientStatus }) => ({
+      virus,
+      donor: donorSerology[virus],
+      recipient: recipientStatus,
+      high_risk: donorSerology[virus] === 'positive' && recipientStatus === 'negative',
+    }));
   }
 
-  // Lightweight comorbidity parser to add small penalties if keywords appear
-  private getComorbidityPenalty(donorHistory: string, recipientHistory: string): number {
-    const text = `${donorHistory || ''} ${recipientHistory || ''}`.toLowerCase();
-
-    const buckets: { keywords: string[]; penalty: number }[] = [
-      { keywords: ['diabetes'], penalty: 3 },
-      { keywords: ['hypertension', 'pulmonary hypertension'], penalty: 3 },
-      { keywords: ['coronary artery disease', 'cad', 'myocardial infarction', 'heart attack'], penalty: 4 },
-      { keywords: ['infection', 'sepsis'], penalty: 4 },
-      { keywords: ['malignancy', 'cancer'], penalty: 4 },
-      { keywords: ['smoker', 'smoking', 'tobacco'], penalty: 2 },
-      { keywords: ['alcohol abuse', 'drug abuse'], penalty: 2 },
+  // Small penalties per comorbidity present in either party, from a coded condition in
+  // the bucket's ICD-10 ranges or an affirmed keyword in the history (each bucket counts once)
+  private getComorbidityPenalty(donor: Donor, recipient: Recipient): number {
+    const text = `${donor.medical_history || ''}\n${recipient.medical_history || ''}`;
+    const conditions = [...icd10Service.normalize(donor.conditions), ...icd10Service.normalize(recipient.conditions)];
+
+    const buckets: { codes: string[]; keywords: string[]; penalty: number }[] = [
+      { codes: ['E08-E13'], keywords: ['diabetes'], penalty: 3 },
+      { codes: ['I10-I16', 'I27'], keywords: ['hypertension', 'pulmonary hypertension'], penalty: 3 },
+      { codes: ['I20-I25'], keywords: ['coronary artery disease', 'cad', 'myocardial infarction', 'heart attack'], penalty: 4 },
+      { codes: ['A40-A41', 'B37.7'], keywords: ['infection', 'sepsis'], penalty: 4 },
+      { codes: ['C00-C97'], keywords: ['malignancy', 'cancer'], penalty: 4 },
+      { codes: ['F17', 'Z72.0'], keywords: ['smoker', 'smoking', 'tobacco'], penalty: 2 },
+      { codes: ['F10-F16', 'F18-F19'], keywords: ['alcohol abuse', 'drug abuse'], penalty: 2 },
     ];
 
     let penalty = 0;
     for (const bucket of buckets) {
-      if (bucket.keywords.some(k => text.includes(k))) {
+      if (icd10Service.hasAny(conditions, bucket.codes) || clinicalTextService.hasAffirmed(text, bucket.keywords)) {
         penalty += bucket.penalty;
       }
     }
@@ -597,16 +867,25 @@ class MatchingService {
   }
 
   private determineUrgencyLevel(recipient: Recipient, organ: OrganType): 'routine' | 'urgent' | 'critical' {
-    // UNOS Status priority (Heart/Liver)
-    if (organ === 'heart' || organ === 'liver') {
+    // Heart status tier: 1-2 critical, 3-4 urgent
+    const heartStatus = organ === 'heart' ? heartStatusService.assess(recipient, this.clock.now()) : null;
+    if (heartStatus) {
+      const rank = heartStatusService.getRank(heartStatus);
+      if (rank <= 2) return 'critical';
+      if (rank <= 4) return 'urgent';
+    }
+
+    // Liver Status 1A/1B (acute liver failure)
+    if (organ === 'liver') {
         if (recipient.unos_status === '1A') return 'critical';
         if (recipient.unos_status === '1B') return 'urgent';
     }
 
-    // MELD score priority (Liver)
-    if (organ === 'liver' && recipient.meld_score) {
-      if (recipient.meld_score >= 30) return 'critical';
-      if (recipient.meld_score >= 20) return 'urgent';
+    // MELD score priority (Liver), from the computed MELD-Na
+    const meldScore = organ === 'liver' ? meldService.getCurrentScore(recipient, this.clock.now()) : null;
+    if (meldScore) {
+      if (meldScore >= 30) return 'critical';
+      if (meldScore >= 20) return 'urgent';
     }
 
     // General urgency score
@@ -616,47 +895,9 @@ class MatchingService {
     return 'routine';
   }
 
-  // ==== New helpers for real-time cold ischemia handling ====
-
-  // Prefer explicit ischemia_start_at; else if CIT provided, use updated_at as start; fallback to created_at
-  private getIschemiaStartAt(donor: Donor): string | undefined {
-    const explicit = (donor as any).ischemia_start_at as string | undefined;
-    if (explicit) return explicit;
-    if (donor.cold_ischemia_time_hours != null) {
-      return ((donor as any).updated_at as string | undefined) || (donor as any).created_at;
-    }
-    return (donor as any).created_at;
-  }
-
-  // Hours elapsed since ISO timestamp (fractional hours)
-  private getElapsedHoursSince(dateIso: string | undefined | null): number {
-    if (!dateIso) return 0;
-    const start = new Date(dateIso).getTime();
-    const now = Date.now();
-    return Math.max(0, (now - start) / (1000 * 60 * 60));
-  }
-
-  // Limit in hours for this donor/organ
-  private getIschemiaLimitHours(donor: Donor, organ: OrganType): number {
-    return donor.cold_ischemia_time_hours ?? this.ORGAN_VIABILITY_HOURS[organ];
-    }
-
-  // Remaining hours (>= 0) in the ischemia window
-  private getRemainingIschemiaHours(donor: Donor, organ: OrganType): number {
-    const limit = this.getIschemiaLimitHours(donor, organ);
-    // If no explicit CIT was set, show default static window (no countdown)
-    if (donor.cold_ischemia_time_hours == null) {
-      return limit;
-    }
-    const startAt = this.getIschemiaStartAt(donor);
-    const elapsed = this.getElapsedHoursSince(startAt);
-    const remaining = Math.max(0, limit - elapsed);
-    return Math.round(remaining * 10) / 10;
-  }
-
-  // True if ischemia window not yet elapsed
-  private isOrganViableNow(donor: Donor, organ: OrganType): boolean {
-    return this.getRemainingIschemiaHours(donor, organ) > 0;
+  // Cold-ischemia window as of this service's clock
+  private getViability(donor: Donor, organ: OrganType, policy: AllocationPolicyDocument): ViabilityStatus {
+    return viabilityService.getStatus(donor, organ, this.clock.now(), policy.organ_viability_hours);
   }
 }
 
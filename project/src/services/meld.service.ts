@@ -0,0 +1,87 @@
+import { MeldAssessment, MeldLabResult, Recipient } from '../types';
+
+class MeldService {
+  // Lab bounds of the MELD formula: values below 1.0 are set to 1.0, creatinine
+  // is capped at 4.0 (and set to 4.0 for patients on dialysis), sodium is bounded to 125-137
+  private readonly LAB_FLOOR = 1.0;
+  private readonly CREATININE_CAP = 4.0;
+  private readonly SODIUM_MIN = 125;
+  private readonly SODIUM_MAX = 137;
+  private readonly SCORE_MIN = 6;
+  private readonly SCORE_MAX = 40;
+
+  // Recertification interval per score band (highest band first)
+  private readonly RECERTIFICATION_BANDS: { minScore: number; intervalDays: number; label: string }[] = [
+    { minScore: 25, intervalDays: 7, label: 'MELD ≥ 25' },
+    { minScore: 19, intervalDays: 30, label: 'MELD 19–24' },
+    { minScore: 11, intervalDays: 90, label: 'MELD 11–18' },
+    { minScore: 0, intervalDays: 365, label: 'MELD ≤ 10' },
+  ];
+
+  // MELD(i) = 0.957 ln(Cr) + 0.378 ln(bilirubin) + 1.120 ln(INR) + 0.643, rounded to the
+  // tenth and multiplied by 10. Above 11 it is adjusted for sodium:
+  // MELD-Na = MELD(i) + 1.32 (137 - Na) - 0.033 MELD(i) (137 - Na)
+  calculate(lab: MeldLabResult): number {
+    const bilirubin = Math.max(this.LAB_FLOOR, lab.bilirubin_mg_dl);
+    const inr = Math.max(this.LAB_FLOOR, lab.inr);
+    const creatinine = lab.dialysis_twice_in_week
+      ? this.CREATININE_CAP
+      : Math.min(this.CREATININE_CAP, Math.max(this.LAB_FLOOR, lab.creatinine_mg_dl));
+    const sodium = Math.min(this.SODIUM_MAX, Math.max(this.SODIUM_MIN, lab.sodium_mmol_l));
+
+    const raw = 0.957 * Math.log(creatinine) + 0.378 * Math.log(bilirubin) + 1.120 * Math.log(inr) + 0.643;
+    const meldI = Math.round(raw * 10) / 10 * 10;
+
+    const score = meldI > 11
+      ? meldI + 1.32 * (137 - sodium) - 0.033 * meldI * (137 - sodium)
+      : meldI;
+
+    return Math.min(this.SCORE_MAX, Math.max(this.SCORE_MIN, Math.round(score)));
+  }
+
+  // Labs ordered oldest first, as plotted in the trend
+  sortLabs(labs: MeldLabResult[] | undefined): MeldLabResult[] {
+    return [...(labs || [])].sort((a, b) => new Date(a.drawn_at).getTime() - new Date(b.drawn_at).getTime());
+  }
+
+  getRecertificationBand(score: number): { intervalDays: number; label: string } {
+    return this.RECERTIFICATION_BANDS.find(b => score >= b.minScore) || this.RECERTIFICATION_BANDS[this.RECERTIFICATION_BANDS.length - 1];
+  }
+
+  // Current MELD-Na from the most recent labs; falls back to a reported meld_score
+  // for candidates listed before labs were recorded
+  assess(recipient: Pick<Recipient, 'meld_labs' | 'meld_score'>, now: number): MeldAssessment {
+    const labs = this.sortLabs(recipient.meld_labs);
+    const latest = labs[labs.length - 1];
+
+    if (!latest) {
+      return {
+        score: recipient.meld_score,
+        source: recipient.meld_score != null ? 'reported' : null,
+        latest_lab: null,
+        lab_age_days: null,
+        recertification_days: null,
+        stale: false,
+      };
+    }
+
+    const score = this.calculate(latest);
+    const labAgeDays = Math.max(0, Math.floor((now - new Date(latest.drawn_at).getTime()) / (1000 * 60 * 60 * 24)));
+    const { intervalDays } = this.getRecertificationBand(score);
+
+    return {
+      score,
+      source: 'labs',
+      latest_lab: latest,
+      lab_age_days: labAgeDays,
+      recertification_days: intervalDays,
+      stale: labAgeDays > intervalDays,
+    };
+  }
+
+  getCurrentScore(recipient: Pick<Recipient, 'meld_labs' | 'meld_score'>, now: number): number | null {
+    return this.assess(recipient, now).score;
+  }
+}
+
+export const meldService = new MeldService();
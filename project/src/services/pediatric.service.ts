@@ -0,0 +1,27 @@
+import { Recipient } from '../types';
+
+// Candidates listed before their 18th birthday keep pediatric status
+const PEDIATRIC_MAX_AGE = 18;
+
+class PediatricService {
+  // Age is recorded as of the last save of the record, so count back from then to the listing date
+  getAgeAtListing(recipient: Pick<Recipient, 'age' | 'listing_date' | 'created_at' | 'updated_at'>): number {
+    const listed = new Date(recipient.listing_date || recipient.created_at).getTime();
+    const recorded = new Date(recipient.updated_at || recipient.created_at).getTime();
+    if (Number.isNaN(listed) || Number.isNaN(recorded) || recorded <= listed) return recipient.age;
+    const yearsSinceListing = Math.floor((recorded - listed) / (1000 * 60 * 60 * 24 * 365.25));
+    return Math.max(0, recipient.age - yearsSinceListing);
+  }
+
+  isPediatric(recipient: Pick<Recipient, 'age' | 'listing_date' | 'created_at' | 'updated_at'>): boolean {
+    return this.getAgeAtListing(recipient) < PEDIATRIC_MAX_AGE;
+  }
+
+  // Body surface area in m² (Mosteller); null without both measures
+  getBsa(person: { height_cm: number | null; weight_kg: number | null }): number | null {
+    if (!person.height_cm || !person.weight_kg) return null;
+    return Math.sqrt((person.height_cm * person.weight_kg) / 3600);
+  }
+}
+
+export const pediatricService = new PediatricService();
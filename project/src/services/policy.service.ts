@@ -0,0 +1,259 @@
+import { supabase } from '../lib/supabase';
+import { ActiveAllocationPolicy, AllocationPolicy, AllocationPolicyDocument, BloodType, OrganType, PolicyDiffEntry, SizeScoreBand } from '../types';
+import { DEFAULT_ALLOCATION_POLICY } from '../data/defaultAllocationPolicy';
+import { icd10Service } from './icd10.service';
+import { riskModelService } from './riskModel.service';
+
+const ORGANS: OrganType[] = ['kidney', 'liver', 'heart'];
+const BLOOD_TYPES: BloodType[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class PolicyService {
+  async getPolicies(): Promise<AllocationPolicy[]> {
+    const { data, error } = await supabase
+      .from('allocation_policies')
+      .select('*')
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Active policy document, merged over the defaults. Falls back to the built-in
+  // default (id null) only when no version is active; a read failure is thrown so
+  // nothing is matched under a policy nobody activated.
+  async getActivePolicy(): Promise<ActiveAllocationPolicy> {
+    const { data, error } = await supabase
+      .from('allocation_policies')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return { id: null, version: null, document: DEFAULT_ALLOCATION_POLICY };
+    }
+    return { id: data.id, version: data.version, document: this.mergeWithDefaults(data.document) };
+  }
+
+  // Save a document as the next version. New versions start inactive.
+  async createVersion(name: string, notes: string | null, document: AllocationPolicyDocument, createdBy: string | null): Promise<AllocationPolicy> {
+    const errors = this.validate(document);
+    if (errors.length > 0) {
+      throw new Error(`Invalid allocation policy: ${errors.join('; ')}`);
+    }
+
+    const { data: latest, error: latestError } = await supabase
+      .from('allocation_policies')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+
+    const { data, error } = await supabase
+      .from('allocation_policies')
+      .insert({
+        version: (latest?.version || 0) + 1,
+        name,
+        notes,
+        document,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Only one version may be active (enforced by a partial unique index); the switch
+  // happens in one transaction
+  async activateVersion(id: string): Promise<AllocationPolicy> {
+    const { data, error } = await supabase.rpc('activate_allocation_policy', { p_policy_id: id });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Fill fields missing from a stored document with the defaults
+  mergeWithDefaults(document: Partial<AllocationPolicyDocument>): AllocationPolicyDocument {
+    return this.deepMerge(DEFAULT_ALLOCATION_POLICY, document) as AllocationPolicyDocument;
+  }
+
+  // Human-readable problems with a document; empty when it is usable
+  validate(document: AllocationPolicyDocument): string[] {
+    const errors: string[] = [];
+    const isNonNegative = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+    const isSizeBand = (b: SizeScoreBand | undefined) => !!b && [b.min_ratio, b.ideal_min, b.ideal_max, b.max_ratio].every(isNonNegative)
+      && b.min_ratio <= b.ideal_min && b.ideal_min <= b.ideal_max && b.ideal_max <= b.max_ratio;
+
+    BLOOD_TYPES.forEach(type => {
+      const list = document.blood_compatibility?.[type];
+      if (!Array.isArray(list) || list.some(t => !BLOOD_TYPES.includes(t))) {
+        errors.push(`blood_compatibility.${type} must list valid blood types`);
+      }
+    });
+
+    ORGANS.forEach(organ => {
+      if (!isNonNegative(document.organ_viability_hours?.[organ]) || document.organ_viability_hours[organ] === 0) {
+        errors.push(`organ_viability_hours.${organ} must be a positive number`);
+      }
+
+      const weights = document.hla_locus_weights?.[organ];
+      if (!isPlainObject(weights) || Object.values(weights).some(w => !isNonNegative(w))) {
+        errors.push(`hla_locus_weights.${organ} must map loci to non-negative weights`);
+      }
+
+      const age = document.age_rules?.[organ];
+      if (!age || !isNonNegative(age.max_diff)) {
+        errors.push(`age_rules.${organ}.max_diff must be a non-negative number`);
+      } else if (age.donor?.min != null && age.donor?.max != null && age.donor.min > age.donor.max) {
+        errors.push(`age_rules.${organ}.donor.min must not exceed donor.max`);
+      }
+
+      const bounds = document.size_ratio_bounds?.[organ];
+      if (!bounds || !isNonNegative(bounds.min_ratio) || !isNonNegative(bounds.max_ratio) || bounds.min_ratio > bounds.max_ratio) {
+        errors.push(`size_ratio_bounds.${organ} must have 0 <= min_ratio <= max_ratio`);
+      }
+
+      const points = document.organ_points?.[organ];
+      if (!points || Object.values(points).some(p => !isNonNegative(p))) {
+        errors.push(`organ_points.${organ} must contain non-negative point weights`);
+      }
+
+      (['donor', 'recipient'] as const).forEach(side => {
+        const list = document.medical_exclusions?.[side]?.[organ];
+        if (!Array.isArray(list) || list.some(k => typeof k !== 'string')) {
+          errors.push(`medical_exclusions.${side}.${organ} must be a list of keywords`);
+        }
+      });
+    });
+
+    (['donor', 'recipient'] as const).forEach(side => {
+      (['general', ...ORGANS] as const).forEach(list => {
+        const ranges = document.coded_exclusions?.[side]?.[list];
+        if (!Array.isArray(ranges) || ranges.some(r => typeof r !== 'string' || !icd10Service.isValidRange(r))) {
+          errors.push(`coded_exclusions.${side}.${list} must be a list of ICD-10 codes or code ranges`);
+        }
+      });
+    });
+
+    const credit = document.hla_equivalence_credit;
+    if (!credit || [credit.identical, credit.split_broad, credit.sibling_splits].some(c => !isNonNegative(c) || c > 1)) {
+      errors.push('hla_equivalence_credit values must be between 0 and 1');
+    }
+    if (!isNonNegative(document.hla_incomplete_typing_credit) || document.hla_incomplete_typing_credit > 1) {
+      errors.push('hla_incomplete_typing_credit must be between 0 and 1');
+    }
+    if (!Array.isArray(document.cpra_priority_points) || document.cpra_priority_points.some(b => !isNonNegative(b.min_cpra) || !isNonNegative(b.points))) {
+      errors.push('cpra_priority_points must be a list of { min_cpra, points } bands');
+    }
+    if (!isNonNegative(document.common_points?.blood_compatibility) || !isNonNegative(document.common_points?.urgency_max)) {
+      errors.push('common_points must contain non-negative point weights');
+    }
+    if (!isNonNegative(document.waiting_time?.points_per_year) || !isNonNegative(document.waiting_time?.max_points)) {
+      errors.push('waiting_time must contain non-negative points_per_year and max_points');
+    }
+    const longevity = document.longevity_matching;
+    if (!longevity || typeof longevity.enabled !== 'boolean' || [longevity.max_kdpi, longevity.max_epts].some(v => !isNonNegative(v) || v > 100)) {
+      errors.push('longevity_matching must have enabled and max_kdpi/max_epts percentiles between 0 and 100');
+    }
+    const transport = document.transport;
+    if (!transport || !isNonNegative(transport.ground_max_km) || !isNonNegative(transport.ground_overhead_hours) || !isNonNegative(transport.air_overhead_hours)
+      || !(transport.ground_speed_kmh > 0) || !(transport.air_speed_kmh > 0)) {
+      errors.push('transport must have positive speeds and non-negative distances/overheads');
+    }
+    const proximity = document.proximity_points;
+    if (!proximity || [proximity.max_points, proximity.full_points_km, proximity.zero_points_km].some(v => !isNonNegative(v))
+      || proximity.full_points_km >= proximity.zero_points_km) {
+      errors.push('proximity_points must be non-negative with full_points_km below zero_points_km');
+    }
+    const kpd = document.paired_donation;
+    if (!kpd || ![2, 3].includes(kpd.max_cycle_length) || !Number.isInteger(kpd.max_chain_length) || kpd.max_chain_length < 1 || kpd.max_chain_length > 5) {
+      errors.push('paired_donation.max_cycle_length must be 2 or 3 and max_chain_length 1 to 5');
+    }
+    const serology = document.serology;
+    if (!serology || [serology.exclude_hiv_positive, serology.exclude_hbsag_positive, serology.block_pending_results].some(v => typeof v !== 'boolean')) {
+      errors.push('serology must have boolean exclude_hiv_positive, exclude_hbsag_positive and block_pending_results');
+    }
+    if (!isNonNegative(document.viral_mismatch_penalties?.cmv) || !isNonNegative(document.viral_mismatch_penalties?.ebv)) {
+      errors.push('viral_mismatch_penalties must contain non-negative cmv and ebv penalties');
+    }
+    const pediatric = document.pediatric;
+    if (!pediatric || !isNonNegative(pediatric.priority_max_donor_age) || !isNonNegative(pediatric.priority_points)) {
+      errors.push('pediatric must have non-negative priority_max_donor_age and priority_points');
+    }
+    (['heart', 'liver'] as const).forEach(organ => {
+      (['weight', 'height', 'bsa'] as const).forEach(measure => {
+        if (!isSizeBand(pediatric?.size_bounds?.[organ]?.[measure])) {
+          errors.push(`pediatric.size_bounds.${organ}.${measure} must have 0 <= min_ratio <= ideal_min <= ideal_max <= max_ratio`);
+        }
+      });
+    });
+    const models = document.size_models;
+    ([['heart', models?.heart?.phm_ratio], ['liver', models?.liver?.grwr_percent], ['kidney', models?.kidney?.bsa_ratio]] as const).forEach(([organ, band]) => {
+      if (!isSizeBand(band)) {
+        errors.push(`size_models.${organ} band must have 0 <= min_ratio <= ideal_min <= ideal_max <= max_ratio`);
+      }
+    });
+    if (!isNonNegative(models?.liver?.split_segment_fraction) || models.liver.split_segment_fraction > 1) {
+      errors.push('size_models.liver.split_segment_fraction must be between 0 and 1');
+    }
+    if (!isNonNegative(models?.incomplete_credit) || models.incomplete_credit > 1) {
+      errors.push('size_models.incomplete_credit must be between 0 and 1');
+    }
+    const a2ToB = document.abo_pathways?.a2_to_b;
+    if (!a2ToB || typeof a2ToB.enabled !== 'boolean' || [a2ToB.max_anti_a_titer, a2ToB.max_titer_age_days, a2ToB.risk_penalty].some(v => !isNonNegative(v))) {
+      errors.push('abo_pathways.a2_to_b must have enabled and non-negative max_anti_a_titer, max_titer_age_days and risk_penalty');
+    }
+    const aboi = document.abo_pathways?.abo_incompatible_living;
+    if (!aboi || typeof aboi.enabled !== 'boolean' || [aboi.max_baseline_titer, aboi.max_titer_age_days, aboi.risk_penalty].some(v => !isNonNegative(v))) {
+      errors.push('abo_pathways.abo_incompatible_living must have enabled and non-negative max_baseline_titer, max_titer_age_days and risk_penalty');
+    }
+    const riskModels = riskModelService.getModels().map(m => m.id);
+    if (!riskModels.includes(document.risk_model)) {
+      errors.push(`risk_model must be one of ${riskModels.join(', ')}`);
+    }
+    if (!isNonNegative(document.min_match_score) || document.min_match_score > 100) {
+      errors.push('min_match_score must be between 0 and 100 points');
+    }
+
+    return errors;
+  }
+
+  // Leaf-level differences between two documents; arrays are compared as a whole
+  diff(before: AllocationPolicyDocument, after: AllocationPolicyDocument): PolicyDiffEntry[] {
+    const entries: PolicyDiffEntry[] = [];
+
+    const walk = (a: unknown, b: unknown, path: string) => {
+      if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+        keys.forEach(key => walk(a[key], b[key], path ? `${path}.${key}` : key));
+        return;
+      }
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        entries.push({ path, before: a, after: b });
+      }
+    };
+
+    walk(before, after, '');
+    return entries;
+  }
+
+  private deepMerge(base: unknown, override: unknown): unknown {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+      return override === undefined ? base : override;
+    }
+    const merged: Record<string, unknown> = { ...base };
+    Object.entries(override).forEach(([key, value]) => {
+      merged[key] = this.deepMerge(base[key], value);
+    });
+    return merged;
+  }
+}
+
+export const policyService = new PolicyService();
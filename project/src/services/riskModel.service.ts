@@ -0,0 +1,245 @@
+import { Allocation, AllocationOutcomeRecord, RiskAssessment, RiskComponent, RiskDriver, RiskModel, RiskModelId, RiskModelInput, ViralSerostatus } from '../types';
+import { GRAFT_FAILURE_MODEL, GRAFT_FAILURE_MODEL_VERSION, GRAFT_FAILURE_RISK_LEVELS, GraftFailureFeature } from '../data/graftFailureModel';
+import { aboService, BLOOD_COMPATIBILITY_LABELS } from './abo.service';
+import { livingDonorService } from './livingDonor.service';
+
+export const RISK_MODEL_LABELS: Record<RiskModelId, string> = {
+  graft_failure_logistic: '1-year graft failure (logistic)',
+  heuristic_points: 'Heuristic risk points',
+};
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Hand-weighted penalty points, capped at 80 and read as a percentage
+class HeuristicRiskModel implements RiskModel {
+  readonly id = 'heuristic_points' as const;
+  readonly version = '1';
+  readonly label = RISK_MODEL_LABELS.heuristic_points;
+
+  // Risk contributors are recorded one by one so the breakdown sums to the uncapped percentage
+  assess(input: RiskModelInput): RiskAssessment {
+    const { donor, recipient, organ, match_score: matchScore, size, abo, policy } = input;
+    const breakdown: RiskComponent[] = [];
+    const add = (key: string, label: string, detail: string, points: number) => {
+      if (points > 0) breakdown.push({ key, label, detail, points: Math.round(points * 100) / 100 });
+    };
+
+    // 1) Age related risk (unchanged)
+    if (donor.age > 60 || recipient.age > 65) add('age', 'Age', `Donor ${donor.age}, recipient ${recipient.age}`, 15);
+    const ageGap = Math.abs(donor.age - recipient.age);
+    if (ageGap > 25) add('age_gap', 'Age gap', `${ageGap} years apart`, 10);
+
+    // 2) Match-score related risk (keep simple steps)
+    if (matchScore < 50) add('match_score', 'Low match score', `Score ${matchScore.toFixed(1)} below 50`, 20);
+    else if (matchScore < 70) add('match_score', 'Moderate match score', `Score ${matchScore.toFixed(1)} below 70`, 10);
+
+    // 3) Organ-specific urgency risks (unchanged)
+    switch (organ) {
+      case 'heart':
+        if (input.heart_status?.effective_status === '1') add('heart_status', 'Heart Status 1', 'Most urgent tier', 5);
+        break;
+      case 'liver': {
+        const meld = input.meld ?? 0;
+        if (meld > 25) add('meld', 'High MELD', `MELD ${meld}`, 10);
+        break;
+      }
+    }
+
+    // 4) HLA mismatch penalty (0..1 match -> 1..0 mismatch)
+    const hlaMismatch = 1 - input.hla_credit;
+    const hlaPenaltyMax = organ === 'kidney' ? 20 : organ === 'heart' ? 15 : 8;
+    add('hla', 'HLA mismatch', `${(hlaMismatch * 100).toFixed(0)}% mismatched`, hlaMismatch * hlaPenaltyMax);
+
+    // 5) Size mismatch penalty: up to 10 points as the graded size score drops; an incomplete
+    // assessment only counts when the weights alone rule the match out
+    add('size', 'Size mismatch', `${size.summary}; ${size.rule}`, size.complete || size.score === 0 ? (1 - size.score) * 10 : 0);
+
+    // 6) Cold ischemia time penalty: only apply when explicit CIT is set
+    if (input.ischemia) {
+      const { elapsed_hours: elapsedHrs, window_hours: windowHrs } = input.ischemia;
+      if (elapsedHrs > windowHrs) {
+        add('ischemia', 'Cold ischemia', `Window of ${windowHrs}h exceeded`, 20);
+      } else {
+        add('ischemia', 'Cold ischemia', `${elapsedHrs.toFixed(1)}h of ${windowHrs}h elapsed`, Math.min(8, (elapsedHrs / windowHrs) * 8));
+      }
+    }
+
+    // 7) Comorbidity penalty from coded conditions and free-text history
+    add('comorbidity', 'Comorbidities', 'Coded conditions and history keywords', input.comorbidity_penalty);
+
+    // 8) Kidney donor quality: graded penalty by KDPI (higher KDPI = shorter expected graft survival)
+    if (organ === 'kidney' && input.kdpi) {
+      const { kdpi } = input.kdpi;
+      add('kdpi', 'Donor quality (KDPI)', `KDPI ${kdpi}%`, kdpi > 85 ? 12 : kdpi > 60 ? 6 : kdpi > 35 ? 2 : 0);
+    }
+
+    // 9) Viral serostatus: a seropositive donor and seronegative recipient (D+/R-)
+    // means primary infection risk and needs prophylaxis
+    input.viral_serostatus.forEach(status => {
+      if (status.high_risk) {
+        const label = status.virus.toUpperCase();
+        add(`${status.virus}_mismatch`, `${label} D+/R-`, `${label} seropositive donor, seronegative recipient`, policy.viral_mismatch_penalties[status.virus]);
+      }
+    });
+
+    // 10) ABO pathway: A2-to-B and desensitized ABO-incompatible kidneys carry rejection risk
+    add('abo', BLOOD_COMPATIBILITY_LABELS[abo.class], abo.detail, aboService.getRiskPenalty(abo, policy));
+
+    // Cap and map to level (unchanged thresholds, cap at 80)
+    const riskFactors = breakdown.reduce((sum, c) => sum + c.points, 0);
+    const risk_percentage = Math.min(riskFactors, 80);
+    const risk_level = risk_percentage < 25 ? 'low' : risk_percentage < 50 ? 'medium' : 'high';
+
+    return { risk_level, risk_percentage, risk_breakdown: breakdown, prediction: null };
+  }
+}
+
+interface FeatureValue {
+  value: number;
+  label: string;
+  detail: string;
+}
+
+// Bundled logistic model of 1-year graft failure (see data/graftFailureModel)
+class GraftFailureRiskModel implements RiskModel {
+  readonly id = 'graft_failure_logistic' as const;
+  readonly version = GRAFT_FAILURE_MODEL_VERSION;
+  readonly label = RISK_MODEL_LABELS.graft_failure_logistic;
+
+  assess(input: RiskModelInput): RiskAssessment {
+    const model = GRAFT_FAILURE_MODEL[input.organ];
+    const features = this.extractFeatures(input);
+    const skipped = features.kdri ? model.kdri_replaces || [] : [];
+
+    let logOdds = model.intercept.beta;
+    let variance = model.intercept.se ** 2;
+    const drivers: RiskDriver[] = [];
+    (Object.keys(model.terms) as GraftFailureFeature[]).forEach(key => {
+      const term = model.terms[key];
+      const feature = features[key];
+      if (!term || !feature || feature.value === 0 || skipped.includes(key)) return;
+      const contribution = term.beta * feature.value;
+      logOdds += contribution;
+      variance += (term.se * feature.value) ** 2;
+      drivers.push({ key, label: feature.label, detail: feature.detail, contribution: Math.round(contribution * 1000) / 1000 });
+    });
+    drivers.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+    const margin = 1.96 * Math.sqrt(variance);
+    const probability = round1(logistic(logOdds) * 100);
+    const risk_level = probability < GRAFT_FAILURE_RISK_LEVELS.medium ? 'low' : probability < GRAFT_FAILURE_RISK_LEVELS.high ? 'medium' : 'high';
+
+    return {
+      risk_level,
+      risk_percentage: probability,
+      // Log-odds contributions (beta × value) against the reference patient
+      risk_breakdown: drivers.map(({ key, label, detail, contribution }) => ({ key, label, detail, points: contribution })),
+      prediction: {
+        model_id: this.id,
+        model_version: this.version,
+        outcome: '1-year graft failure',
+        probability,
+        ci_low: round1(logistic(logOdds - margin) * 100),
+        ci_high: round1(logistic(logOdds + margin) * 100),
+        drivers,
+      },
+    };
+  }
+
+  // Feature values relative to the reference patient; missing inputs are left out
+  private extractFeatures(input: RiskModelInput): Partial<Record<GraftFailureFeature, FeatureValue>> {
+    const { donor, recipient } = input;
+    const flag = (on: boolean | null | undefined, label: string, detail: string): FeatureValue | undefined =>
+      on ? { value: 1, label, detail } : undefined;
+    const ischemiaHours = (input.ischemia?.elapsed_hours ?? 0) + (input.transport_eta_hours ?? 0);
+    const viralMismatch = (virus: ViralSerostatus['virus']) =>
+      flag(input.viral_serostatus.some(s => s.virus === virus && s.high_risk), `${virus.toUpperCase()} D+/R-`, 'Seropositive donor, seronegative recipient');
+
+    return {
+      donor_age: { value: (donor.age - 40) / 10, label: 'Donor age', detail: `${donor.age} years` },
+      recipient_age: { value: (recipient.age - 50) / 10, label: 'Recipient age', detail: `${recipient.age} years` },
+      donor_dcd: flag(donor.donor_type === 'deceased_dcd', 'DCD donor', 'Donation after circulatory death'),
+      living_donor: flag(livingDonorService.isLiving(donor), 'Living donor', 'Living donation'),
+      kdri: input.kdpi
+        ? { value: Math.log(input.kdpi.kdri_median), label: 'Donor quality (KDRI)', detail: `KDRI ${input.kdpi.kdri_median.toFixed(2)}, KDPI ${input.kdpi.kdpi}%` }
+        : undefined,
+      hla_mismatches: input.hla_mismatch.total !== null
+        ? { value: input.hla_mismatch.total, label: 'HLA mismatches', detail: `${input.hla_mismatch.total}/6 A/B/DR` }
+        : undefined,
+      cpra_80: flag(input.cpra >= 80, 'Highly sensitized', `cPRA ${input.cpra.toFixed(0)}%`),
+      prior_transplant: flag(recipient.prior_transplant, 'Prior transplant', 'Retransplant'),
+      recipient_diabetes: flag(recipient.diabetes, 'Recipient diabetes', 'Diabetic recipient'),
+      ischemia_hours: ischemiaHours > 0
+        ? { value: ischemiaHours, label: 'Cold ischemia', detail: `~${ischemiaHours.toFixed(1)}h at transplant` }
+        : undefined,
+      size_mismatch: input.size.complete
+        ? { value: 1 - input.size.score, label: 'Size mismatch', detail: input.size.summary }
+        : undefined,
+      split_graft: flag(input.size.split_graft, 'Split graft', 'Segmental liver graft'),
+      meld: input.meld != null
+        ? { value: (input.meld - 20) / 10, label: 'MELD', detail: `MELD ${input.meld}` }
+        : undefined,
+      heart_status_1: flag(input.heart_status?.effective_status === '1', 'Heart Status 1', 'Most urgent tier'),
+      abo_pathway: flag(aboService.usesPathway(input.abo), BLOOD_COMPATIBILITY_LABELS[input.abo.class], input.abo.detail),
+      cmv_mismatch: viralMismatch('cmv'),
+      ebv_mismatch: viralMismatch('ebv'),
+      comorbidity: input.comorbidity_penalty > 0
+        ? { value: input.comorbidity_penalty, label: 'Comorbidities', detail: `${input.comorbidity_penalty} points from coded conditions and history keywords` }
+        : undefined,
+    };
+  }
+}
+
+class RiskModelService {
+  private models = new Map<RiskModelId, RiskModel>(
+    [new GraftFailureRiskModel(), new HeuristicRiskModel()].map(model => [model.id, model])
+  );
+
+  getModels(): RiskModel[] {
+    return Array.from(this.models.values());
+  }
+
+  getModel(id: RiskModelId): RiskModel {
+    const model = this.models.get(id);
+    if (!model) throw new Error(`Unknown risk model: ${id}`);
+    return model;
+  }
+
+  // Swap in another implementation, e.g. a locally refitted model
+  register(model: RiskModel): void {
+    this.models.set(model.id, model);
+  }
+
+  // Stored prediction and observed outcome of an allocation. Heuristic points are not a
+  // calibrated probability, so allocations without a prediction export them separately
+  // and leave predicted_probability null.
+  toOutcomeRecord(allocation: Allocation): AllocationOutcomeRecord {
+    const prediction = allocation.compatibility_factors.risk_prediction;
+    const transplantDate = allocation.transplant_scheduled || allocation.allocated_at;
+    return {
+      allocation_id: allocation.id,
+      organ_type: allocation.organ_type,
+      transplant_date: transplantDate,
+      model_id: prediction?.model_id ?? 'heuristic_points',
+      model_version: prediction?.model_version ?? this.getModel('heuristic_points').version,
+      predicted_probability: prediction ? prediction.probability / 100 : null,
+      risk_percentage: allocation.risk_percentage ?? null,
+      ci_low: prediction ? prediction.ci_low / 100 : null,
+      ci_high: prediction ? prediction.ci_high / 100 : null,
+      graft_outcome: allocation.graft_outcome ?? null,
+      graft_outcome_date: allocation.graft_outcome_date ?? null,
+      failed_within_1_year: this.getOneYearOutcome(allocation, transplantDate),
+    };
+  }
+
+  // Failure within 365 days counts as an event; a functioning graft needs a year of follow-up
+  private getOneYearOutcome(allocation: Allocation, transplantDate: string): boolean | null {
+    if (!allocation.graft_outcome || !allocation.graft_outcome_date) return null;
+    const days = (new Date(allocation.graft_outcome_date).getTime() - new Date(transplantDate).getTime()) / (1000 * 60 * 60 * 24);
+    if (allocation.graft_outcome === 'failed') return days <= 365;
+    return days >= 365 ? false : null;
+  }
+}
+
+export const riskModelService = new RiskModelService();
@@ -0,0 +1,72 @@
+import { AllocationPolicyDocument, DonorSerology, Recipient, SerologyMarker } from '../types';
+
+export const SEROLOGY_MARKERS: { marker: SerologyMarker; label: string }[] = [
+  { marker: 'hiv', label: 'HIV' },
+  { marker: 'hbsag', label: 'HBsAg' },
+  { marker: 'anti_hbc', label: 'Anti-HBc' },
+  { marker: 'hcv_ab', label: 'HCV Ab' },
+  { marker: 'hcv_nat', label: 'HCV NAT' },
+  { marker: 'cmv', label: 'CMV IgG' },
+  { marker: 'ebv', label: 'EBV IgG' },
+  { marker: 'syphilis', label: 'Syphilis' },
+];
+
+// Results that decide donor eligibility; a pending one may hold the donor back
+const ELIGIBILITY_MARKERS: SerologyMarker[] = ['hiv', 'hbsag', 'hcv_ab', 'hcv_nat'];
+
+class SerologyService {
+  // All results pending, as for a newly registered donor
+  emptySerology(): DonorSerology {
+    return { hiv: 'pending', hbsag: 'pending', anti_hbc: 'pending', hcv_ab: 'pending', hcv_nat: 'pending', cmv: 'pending', ebv: 'pending', syphilis: 'pending' };
+  }
+
+  // Stored documents may predate a marker; missing ones read as pending
+  normalize(serology: Partial<DonorSerology> | null | undefined): DonorSerology {
+    return { ...this.emptySerology(), ...(serology || {}) };
+  }
+
+  getLabel(marker: SerologyMarker): string {
+    return SEROLOGY_MARKERS.find(m => m.marker === marker)?.label ?? marker;
+  }
+
+  // HCV-positive donor: antibody or NAT positive
+  isHcvPositive(serology: Partial<DonorSerology> | null | undefined): boolean {
+    const s = this.normalize(serology);
+    return s.hcv_ab === 'positive' || s.hcv_nat === 'positive';
+  }
+
+  isHbcAbPositive(serology: Partial<DonorSerology> | null | undefined): boolean {
+    return this.normalize(serology).anti_hbc === 'positive';
+  }
+
+  getPositiveMarkers(serology: Partial<DonorSerology> | null | undefined): SerologyMarker[] {
+    const s = this.normalize(serology);
+    return SEROLOGY_MARKERS.filter(m => s[m.marker] === 'positive').map(m => m.marker);
+  }
+
+  // Reason the donor cannot be offered at all, or null
+  getDonorExclusion(serology: Partial<DonorSerology> | null | undefined, policy: AllocationPolicyDocument): string | null {
+    const s = this.normalize(serology);
+    const rules = policy.serology;
+    if (rules.exclude_hiv_positive && s.hiv === 'positive') return 'Donor is HIV positive.';
+    if (rules.exclude_hbsag_positive && s.hbsag === 'positive') return 'Donor is HBsAg positive.';
+    if (rules.block_pending_results) {
+      const pending = ELIGIBILITY_MARKERS.filter(m => s[m] === 'pending');
+      if (pending.length > 0) return `Serology pending: ${pending.map(m => this.getLabel(m)).join(', ')}.`;
+    }
+    return null;
+  }
+
+  // Reason this recipient cannot receive the donor's organ without consent, or null
+  getConsentExclusion(serology: Partial<DonorSerology> | null | undefined, recipient: Pick<Recipient, 'accepts_hcv_positive' | 'accepts_hbcab_positive'>): string | null {
+    if (this.isHcvPositive(serology) && !recipient.accepts_hcv_positive) {
+      return 'Donor is HCV positive and the recipient has not consented to HCV-positive organs.';
+    }
+    if (this.isHbcAbPositive(serology) && !recipient.accepts_hbcab_positive) {
+      return 'Donor is anti-HBc positive and the recipient has not consented to anti-HBc-positive organs.';
+    }
+    return null;
+  }
+}
+
+export const serologyService = new SerologyService();
@@ -0,0 +1,189 @@
+import { AllocationPolicyDocument, Donor, OrganType, PediatricSizeBounds, Recipient, SizeAssessment, SizeMetric, SizeModel, SizeScoreBand } from '../types';
+import { pediatricService } from './pediatric.service';
+
+type Body = Pick<Donor, 'age' | 'gender' | 'height_cm' | 'weight_kg'>;
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+class SizeMatchingService {
+  // Predicted heart mass in grams (Kransdorf et al.), the sum of predicted LV and RV mass:
+  // LV = a × height^0.54 × weight^0.61 (a = 6.82 female, 8.25 male)
+  // RV = a × age^-0.32 × height^1.135 × weight^0.315 (a = 10.59 female, 11.25 male)
+  // with height in metres and weight in kg
+  getPredictedHeartMass(person: Body): number | null {
+    if (!person.height_cm || !person.weight_kg || !person.gender || person.age == null) return null;
+    const height = person.height_cm / 100;
+    const female = person.gender === 'female';
+    const lv = (female ? 6.82 : 8.25) * height ** 0.54 * person.weight_kg ** 0.61;
+    const rv = (female ? 10.59 : 11.25) * Math.max(1, person.age) ** -0.32 * height ** 1.135 * person.weight_kg ** 0.315;
+    return lv + rv;
+  }
+
+  // Standard liver volume in mL (Urata): 706.2 × BSA + 2.4, taken as graft grams at ~1 g/mL
+  getStandardLiverVolume(person: Pick<Body, 'height_cm' | 'weight_kg'>): number | null {
+    const bsa = pediatricService.getBsa(person);
+    return bsa === null ? null : 706.2 * bsa + 2.4;
+  }
+
+  // Share of the size points for a ratio: full inside the ideal range, linear to none at the limits
+  scoreBand(ratio: number, band: SizeScoreBand): number {
+    if (ratio < band.min_ratio || ratio > band.max_ratio) return 0;
+    if (ratio < band.ideal_min) return band.ideal_min === band.min_ratio ? 1 : (ratio - band.min_ratio) / (band.ideal_min - band.min_ratio);
+    if (ratio > band.ideal_max) return band.ideal_max === band.max_ratio ? 1 : (band.max_ratio - ratio) / (band.max_ratio - band.ideal_max);
+    return 1;
+  }
+
+  formatMetric(metric: SizeMetric): string {
+    if (!metric.unit) return `${metric.value}`;
+    return metric.unit === '%' ? `${metric.value}%` : `${metric.value} ${metric.unit}`;
+  }
+
+  assess(donor: Donor, recipient: Recipient, organ: OrganType, policy: AllocationPolicyDocument): SizeAssessment {
+    switch (organ) {
+      case 'heart':
+        return pediatricService.isPediatric(recipient)
+          ? this.assessPediatric(donor, recipient, 'heart', policy)
+          : this.assessHeart(donor, recipient, policy);
+      case 'liver':
+        return pediatricService.isPediatric(recipient)
+          ? this.assessPediatric(donor, recipient, 'liver', policy)
+          : this.assessLiver(donor, recipient, policy);
+      case 'kidney':
+        return this.assessKidney(donor, recipient, policy);
+    }
+  }
+
+  private assessHeart(donor: Donor, recipient: Recipient, policy: AllocationPolicyDocument): SizeAssessment {
+    const band = policy.size_models.heart.phm_ratio;
+    const donorPhm = this.getPredictedHeartMass(donor);
+    const recipientPhm = this.getPredictedHeartMass(recipient);
+    if (donorPhm === null || recipientPhm === null) {
+      return this.assessIncomplete(donor, recipient, 'heart', 'height, weight or sex', policy);
+    }
+
+    const ratio = donorPhm / recipientPhm;
+    return this.result('predicted_heart_mass', this.scoreBand(ratio, band), [
+      { key: 'donor_phm', label: 'Donor PHM', value: round(donorPhm, 0), unit: 'g' },
+      { key: 'recipient_phm', label: 'Recipient PHM', value: round(recipientPhm, 0), unit: 'g' },
+      { key: 'phm_ratio', label: 'PHM ratio', value: round(ratio, 2), unit: '' },
+    ], `PHM ratio ${ratio.toFixed(2)}`, this.describeBand('PHM ratio', band, ''));
+  }
+
+  // Lowest of the weight, height and BSA scores; measures missing on either side are skipped.
+  // A split-eligible liver is cut to size, so ratios above the ideal range keep full credit.
+  private assessPediatric(donor: Donor, recipient: Recipient, organ: 'heart' | 'liver', policy: AllocationPolicyDocument): SizeAssessment {
+    const bounds = policy.pediatric.size_bounds[organ];
+    const splittable = organ === 'liver' && donor.split_liver_eligible;
+    const donorBsa = pediatricService.getBsa(donor);
+    const recipientBsa = pediatricService.getBsa(recipient);
+    const measures: { key: keyof PediatricSizeBounds; label: string; ratio: number | null }[] = [
+      { key: 'weight', label: 'Weight ratio', ratio: donor.weight_kg && recipient.weight_kg ? donor.weight_kg / recipient.weight_kg : null },
+      { key: 'height', label: 'Height ratio', ratio: donor.height_cm && recipient.height_cm ? donor.height_cm / recipient.height_cm : null },
+      { key: 'bsa', label: 'BSA ratio', ratio: donorBsa && recipientBsa ? donorBsa / recipientBsa : null },
+    ];
+    const measured = measures
+      .filter((m): m is typeof m & { ratio: number } => m.ratio !== null)
+      .map(m => ({ ...m, score: splittable && m.ratio > bounds[m.key].ideal_max ? 1 : this.scoreBand(m.ratio, bounds[m.key]) }));
+    if (measured.length === 0) {
+      return this.assessIncomplete(donor, recipient, organ, 'height and weight', policy);
+    }
+
+    const limiting = measured.reduce((low, m) => (m.score < low.score ? m : low));
+    const split = splittable && measured.some(m => m.ratio > bounds[m.key].ideal_max);
+    return {
+      ...this.result(organ === 'heart' ? 'pediatric_heart' : 'pediatric_liver', limiting.score,
+        measured.map(m => ({ key: `${m.key}_ratio`, label: m.label, value: round(m.ratio, 2), unit: '' })),
+        `${limiting.label} ${limiting.ratio.toFixed(2)}${split ? ' (split liver)' : ''}`,
+        `Pediatric: lowest of the weight, height and BSA ratio scores${split ? '; no ceiling for a split liver' : ''}`),
+      complete: measured.length === measures.length,
+      split_graft: split,
+    };
+  }
+
+  // Whole-graft GRWR from the donor's standard liver volume. A split-eligible liver that is
+  // too large whole is scored as a segment when that fits better.
+  private assessLiver(donor: Donor, recipient: Recipient, policy: AllocationPolicyDocument): SizeAssessment {
+    const { grwr_percent: band, split_segment_fraction: segmentFraction } = policy.size_models.liver;
+    const donorSlv = this.getStandardLiverVolume(donor);
+    if (donorSlv === null || !recipient.weight_kg) {
+      return this.assessIncomplete(donor, recipient, 'liver', 'height or weight', policy);
+    }
+
+    const grwr = (graftGrams: number) => graftGrams / (recipient.weight_kg as number) / 10;
+    let graft = donorSlv;
+    let score = this.scoreBand(grwr(graft), band);
+    let split = false;
+    if (donor.split_liver_eligible && grwr(graft) > band.ideal_max) {
+      const segmentScore = this.scoreBand(grwr(donorSlv * segmentFraction), band);
+      if (segmentScore > score) {
+        graft = donorSlv * segmentFraction;
+        score = segmentScore;
+        split = true;
+      }
+    }
+
+    const metrics: SizeMetric[] = [
+      { key: 'graft_weight', label: split ? 'Est. segment weight' : 'Est. graft weight', value: round(graft, 0), unit: 'g' },
+      { key: 'grwr', label: 'GRWR', value: round(grwr(graft), 2), unit: '%' },
+    ];
+    const recipientSlv = this.getStandardLiverVolume(recipient);
+    if (recipientSlv !== null) {
+      metrics.push({ key: 'gv_slv', label: 'Graft / recipient SLV', value: round(graft / recipientSlv * 100, 0), unit: '%' });
+    }
+    const donorBsa = pediatricService.getBsa(donor);
+    const recipientBsa = pediatricService.getBsa(recipient);
+    if (donorBsa !== null && recipientBsa !== null) {
+      metrics.push({ key: 'bsa_ratio', label: 'BSA ratio', value: round(donorBsa / recipientBsa, 2), unit: '' });
+    }
+
+    return {
+      ...this.result('graft_weight_ratio', score, metrics, `${split ? 'Split segment GRWR' : 'GRWR'} ${grwr(graft).toFixed(2)}%`, this.describeBand('GRWR', band, '%')),
+      split_graft: split,
+    };
+  }
+
+  private assessKidney(donor: Donor, recipient: Recipient, policy: AllocationPolicyDocument): SizeAssessment {
+    const band = policy.size_models.kidney.bsa_ratio;
+    const donorBsa = pediatricService.getBsa(donor);
+    const recipientBsa = pediatricService.getBsa(recipient);
+    if (donorBsa === null || recipientBsa === null) {
+      return this.assessIncomplete(donor, recipient, 'kidney', 'height or weight', policy);
+    }
+
+    const ratio = donorBsa / recipientBsa;
+    return this.result('bsa_ratio', this.scoreBand(ratio, band), [
+      { key: 'donor_bsa', label: 'Donor BSA', value: round(donorBsa, 2), unit: 'm²' },
+      { key: 'recipient_bsa', label: 'Recipient BSA', value: round(recipientBsa, 2), unit: 'm²' },
+      { key: 'bsa_ratio', label: 'BSA ratio', value: round(ratio, 2), unit: '' },
+    ], `BSA ratio ${ratio.toFixed(2)}`, this.describeBand('BSA ratio', band, ''));
+  }
+
+  // Without the model's inputs a match earns the incomplete credit, or nothing when
+  // the weights are known and their ratio falls outside size_ratio_bounds
+  private assessIncomplete(donor: Donor, recipient: Recipient, organ: OrganType, missing: string, policy: AllocationPolicyDocument): SizeAssessment {
+    const credit = policy.size_models.incomplete_credit;
+    const creditRule = `${Math.round(credit * 100)}% credit without ${missing}`;
+    if (!donor.weight_kg || !recipient.weight_kg) {
+      return { ...this.result('weight_ratio', credit, [], `Missing ${missing}`, creditRule), complete: false };
+    }
+
+    const { min_ratio, max_ratio } = policy.size_ratio_bounds[organ];
+    const ratio = donor.weight_kg / recipient.weight_kg;
+    const within = ratio >= min_ratio && ratio <= max_ratio;
+    return {
+      ...this.result('weight_ratio', within ? credit : 0, [{ key: 'weight_ratio', label: 'Weight ratio', value: round(ratio, 2), unit: '' }],
+        `Weight ratio ${ratio.toFixed(2)}, missing ${missing}`, `${creditRule}; none outside weight ratio ${min_ratio}–${max_ratio}`),
+      complete: false,
+    };
+  }
+
+  private result(model: SizeModel, score: number, metrics: SizeMetric[], summary: string, rule: string): SizeAssessment {
+    return { model, score: round(score, 3), complete: true, metrics, summary, rule, split_graft: false };
+  }
+
+  private describeBand(label: string, band: SizeScoreBand, unit: string): string {
+    return `Full credit for ${label} ${band.ideal_min}–${band.ideal_max}${unit}, none below ${band.min_ratio}${unit} or above ${band.max_ratio}${unit}`;
+  }
+}
+
+export const sizeMatchingService = new SizeMatchingService();
@@ -0,0 +1,66 @@
+import { AllocationPolicyDocument, Donor, OrganType, ViabilityStatus } from '../types';
+import { DEFAULT_ALLOCATION_POLICY } from '../data/defaultAllocationPolicy';
+import { livingDonorService } from './livingDonor.service';
+
+type ViabilityHours = AllocationPolicyDocument['organ_viability_hours'];
+
+const NEAR_EXPIRY_HOURS = 1;
+
+// Cold-ischemia countdown of donor organs. Every screen and the matching service read the
+// window from here, each passing the time of its clock.
+class ViabilityService {
+  // Deceased donors with an explicit CIT count down; a living donor's organ is
+  // procured in the recipient's scheduled surgery, so there is nothing to count yet
+  hasCountdown(donor: Pick<Donor, 'donor_type' | 'cold_ischemia_time_hours'>): boolean {
+    return !livingDonorService.isLiving(donor) && donor.cold_ischemia_time_hours != null;
+  }
+
+  // Prefer explicit ischemia_start_at; else if CIT provided, use updated_at as start; fallback to created_at
+  getIschemiaStartAt(donor: Donor): string | undefined {
+    const explicit = (donor as Donor & { ischemia_start_at?: string | null }).ischemia_start_at;
+    if (explicit) return explicit;
+    if (donor.cold_ischemia_time_hours != null) {
+      return donor.updated_at || donor.created_at;
+    }
+    return donor.created_at;
+  }
+
+  // Limit in hours for this donor/organ
+  getLimitHours(donor: Donor, organ: OrganType, viabilityHours: ViabilityHours = DEFAULT_ALLOCATION_POLICY.organ_viability_hours): number {
+    return donor.cold_ischemia_time_hours ?? viabilityHours[organ];
+  }
+
+  // Hours since the countdown started (fractional); 0 when the donor is not counting down
+  getElapsedHours(donor: Donor, now: number): number {
+    if (!this.hasCountdown(donor)) return 0;
+    const startAt = this.getIschemiaStartAt(donor);
+    if (!startAt) return 0;
+    return Math.max(0, (now - new Date(startAt).getTime()) / (1000 * 60 * 60));
+  }
+
+  // Without a countdown the full window remains
+  getStatus(donor: Donor, organ: OrganType, now: number, viabilityHours: ViabilityHours = DEFAULT_ALLOCATION_POLICY.organ_viability_hours): ViabilityStatus {
+    const limit = this.getLimitHours(donor, organ, viabilityHours);
+    const countingDown = this.hasCountdown(donor);
+    const elapsed = this.getElapsedHours(donor, now);
+    const remaining = countingDown ? Math.round(Math.max(0, limit - elapsed) * 10) / 10 : limit;
+    return {
+      limit_hours: limit,
+      elapsed_hours: elapsed,
+      remaining_hours: remaining,
+      counting_down: countingDown,
+      expired: countingDown && remaining <= 0,
+      near_expiry: countingDown && remaining > 0 && remaining <= NEAR_EXPIRY_HOURS,
+    };
+  }
+
+  // Window of the donor's organ with the least time remaining
+  getDonorStatus(donor: Donor, now: number, viabilityHours: ViabilityHours = DEFAULT_ALLOCATION_POLICY.organ_viability_hours): ViabilityStatus {
+    const organs: OrganType[] = donor.organs_available?.length ? donor.organs_available : ['kidney'];
+    return organs
+      .map(organ => this.getStatus(donor, organ, now, viabilityHours))
+      .reduce((shortest, status) => (status.remaining_hours < shortest.remaining_hours ? status : shortest));
+  }
+}
+
+export const viabilityService = new ViabilityService();
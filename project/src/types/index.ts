@@ -13,7 +13,11 @@ export type BloodType = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
 
 export type OrganType = 'kidney' | 'liver' | 'heart';
 
-export type UNOSStatus = '1A' | '1B' | '2' | '3' | '4' | '7';
+// Liver status for acute liver failure; hearts use HeartStatus
+export type UNOSStatus = '1A' | '1B';
+
+// Adult heart allocation tiers, Status 1 most urgent
+export type HeartStatus = '1' | '2' | '3' | '4' | '5' | '6';
 
 export type Gender = 'male' | 'female';
 
@@ -35,46 +39,311 @@ export interface BasePerson {
   blood_type: BloodType;
   hla_typing: HlaTyping;
   location: string;
+  center_id: string | null; // TransplantCenter the location resolves to
   height_cm: number | null;
   weight_kg: number | null;
-  medical_history: string;
+  medical_history: string; // free-text notes
+  conditions: CodedCondition[]; // ICD-10-CM coded diagnoses
   created_at: string;
   updated_at: string;
 }
 
+// ICD-10-CM diagnosis; the label is stored with the code so records stay readable
+export interface CodedCondition {
+  code: string;
+  label: string;
+}
+
+// A coded condition that fell inside a rule's code range, e.g. E11.22 in "E08-E13"
+export interface CodedConditionMatch {
+  condition: CodedCondition;
+  range: string;
+}
+
+export interface TransplantCenter {
+  id: string;
+  name: string;
+  city: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  aliases: string[]; // lower-case spellings matched in free-text locations
+}
+
+// Cold-ischemia window of a donor organ at a moment in time
+export interface ViabilityStatus {
+  limit_hours: number; // the donor's CIT, or the policy default for the organ
+  elapsed_hours: number; // 0 when not counting down
+  remaining_hours: number; // floored at 0, rounded to 0.1h
+  counting_down: boolean; // deceased donor with an explicit CIT
+  expired: boolean;
+  near_expiry: boolean; // an hour or less left
+}
+
+export interface TransportEstimate {
+  distance_km: number; // great-circle distance between the two centers
+  eta_hours: number;
+  mode: 'ground' | 'air';
+}
+
 export interface Donor extends BasePerson {
+  donor_type: DonorType;
   organs_available: OrganType[];
-  cause_of_death: string;
-  cold_ischemia_time_hours: number | null;
+  cause_of_death: string; // deceased donors
+  cold_ischemia_time_hours: number | null; // deceased donors; counts down from procurement
   status: 'available' | 'matched' | 'unavailable'|'allocated';
+  // Living donors: directed to one recipient once the work-up is complete
+  intended_recipient_id: string | null;
+  evaluation_checklist: string[]; // completed LivingDonorEvaluationItem codes
+  planned_surgery_date: string | null; // ISO date
+  // KDPI inputs (kidney donors)
+  ethnicity: DonorEthnicity | null;
+  hypertension: boolean | null;
+  diabetes: boolean | null;
+  creatinine_mg_dl: number | null; // terminal serum creatinine
+  serology: DonorSerology;
+  abo_subtype: AboSubtype | null; // A and AB donors; null until subtyped
+  split_liver_eligible: boolean; // liver may be split into a pediatric and an adult graft
+}
+
+// A1/A2 subtyping of blood group A and AB donors; A2 and A2B express little A antigen
+export type AboSubtype = 'A1' | 'A2' | 'A1B' | 'A2B';
+
+export type AboAntibody = 'anti_a' | 'anti_b';
+
+// Isoagglutinin titer as the reciprocal dilution (32 = 1:32)
+export interface AboTiter {
+  antibody: AboAntibody;
+  titer: number;
+  measured_at: string; // ISO date
+}
+
+// How a donor's ABO group reaches the recipient: the standard table, or a
+// policy-gated kidney pathway (A2/A2B to B, desensitized ABO-incompatible living donation)
+export type BloodCompatibilityClass = 'identical' | 'compatible' | 'a2_to_b' | 'abo_incompatible' | 'incompatible';
+
+export interface BloodCompatibility {
+  class: BloodCompatibilityClass;
+  titers: AboTiter[]; // the titers the pathway was decided on
+  detail: string;
+}
+
+export type SerologyResult = 'positive' | 'negative' | 'pending';
+
+export type SerologyMarker = 'hiv' | 'hbsag' | 'anti_hbc' | 'hcv_ab' | 'hcv_nat' | 'cmv' | 'ebv' | 'syphilis';
+
+export type DonorSerology = Record<SerologyMarker, SerologyResult>;
+
+// Deceased donors after brain death (DBD) or circulatory death (DCD)
+export type DonorType = 'living' | 'deceased_dbd' | 'deceased_dcd';
+
+export interface LivingDonorEvaluationItem {
+  code: string;
+  label: string;
+}
+
+export interface LivingDonorEvaluation {
+  completed: LivingDonorEvaluationItem[];
+  outstanding: LivingDonorEvaluationItem[];
+  cleared: boolean; // every checklist item completed
+}
+
+export type DonorEthnicity = 'african_american' | 'white' | 'hispanic' | 'asian' | 'other';
+
+export interface KdpiResult {
+  kdri_rao: number;
+  kdri_median: number; // KDRI_Rao divided by the reference-year scaling factor
+  kdpi: number; // 0-100 percentile, higher = lower expected graft longevity
 }
 
 export interface Recipient extends BasePerson {
-  time_on_list: string | number | Date;
+  listing_date: string; // ISO date (YYYY-MM-DD)
+  dialysis_start_date: string | null; // kidney candidates
   organ_needed: OrganType;
+  unacceptable_antigens: string[];
   urgency_score: number;
-  meld_score: number | null;
+  meld_score: number | null; // MELD-Na of the latest labs, kept in sync on save
+  meld_labs: MeldLabResult[];
   unos_status: UNOSStatus | null;
   status: 'active' | 'transplanted' | 'inactive';
+  // Heart candidates: tier, the criterion that qualifies for it and when that expires
+  heart_status: HeartStatus | null;
+  heart_status_criterion: string | null; // HeartStatusCriterion code
+  heart_status_justification: string | null;
+  heart_status_expires_at: string | null; // ISO date
+  // EPTS inputs (kidney candidates)
+  diabetes: boolean;
+  prior_transplant: boolean; // any previous solid organ transplant
+  // Informed consent to accept organs from donors with these serologies
+  accepts_hcv_positive: boolean;
+  accepts_hbcab_positive: boolean;
+  // CMV / EBV IgG serostatus, compared with the donor's for D+/R- risk
+  cmv_serostatus: SerologyResult;
+  ebv_serostatus: SerologyResult;
+  // Anti-A / anti-B titers, and enrolment in a desensitization protocol for an
+  // ABO-incompatible living donor kidney
+  abo_titers: AboTiter[];
+  accepts_abo_incompatible: boolean;
+}
+
+export interface HeartStatusCriterion {
+  code: string;
+  label: string;
+  validity_days: number; // justification must be extended or re-listed after this
+}
+
+export interface HeartStatusAssessment {
+  status: HeartStatus;
+  effective_status: HeartStatus; // Status 6 once the justification has expired
+  criterion: HeartStatusCriterion | null;
+  justification: string | null;
+  expires_at: string | null;
+  expired: boolean;
+  days_remaining: number | null;
+}
+
+export interface EptsResult {
+  raw_score: number;
+  epts: number; // 0-100 percentile, lower = longer expected post-transplant survival
+  dialysis_years: number;
+}
+
+// One set of labs behind a MELD-Na score
+export interface MeldLabResult {
+  drawn_at: string; // ISO date
+  bilirubin_mg_dl: number;
+  inr: number;
+  creatinine_mg_dl: number;
+  sodium_mmol_l: number;
+  dialysis_twice_in_week: boolean; // dialysis at least twice (or 24h CVVHD) in the week before
+}
+
+export interface MeldAssessment {
+  score: number | null;
+  source: 'labs' | 'reported' | null; // reported = legacy meld_score without labs
+  latest_lab: MeldLabResult | null;
+  lab_age_days: number | null;
+  recertification_days: number | null;
+  stale: boolean; // latest labs older than the recertification interval for the score band
+}
+
+// Classic HLA-A/B/DR antigen mismatch count (e.g. "2-1-0"), 0 to 2 per locus
+export interface HlaMismatchSummary {
+  a: number | null;
+  b: number | null;
+  dr: number | null;
+  total: number | null; // out of 6; null when typing is incomplete
+  zero_mismatch: boolean; // 0-MM kidney
+  typing_complete: boolean;
+}
+
+// One scored factor of a match, e.g. HLA 26.3 of 35 points
+export interface ScoreComponent {
+  key: string;
+  label: string;
+  raw_input: string; // the value the rule was applied to, e.g. "cPRA 98%"
+  points: number;
+  max_points: number;
+  rule: string;
+}
+
+// One contributor to a match's risk percentage, e.g. CMV D+/R- +6
+export interface RiskComponent {
+  key: string;
+  label: string;
+  detail: string;
+  points: number;
+}
+
+// Donor/recipient serostatus for a virus; D+/R- is the high-risk combination
+export interface ViralSerostatus {
+  virus: 'cmv' | 'ebv';
+  donor: SerologyResult;
+  recipient: SerologyResult;
+  high_risk: boolean;
 }
 
 export interface MatchResult {
   viability_window: ReactNode;
   cold_ischemia_time: ReactNode;
+  organ: OrganType;
   recipient: Recipient;
   match_score: number;
   risk_level: 'low' | 'medium' | 'high';
   risk_percentage: number;
   urgency_level: 'routine' | 'urgent' | 'critical';
+  distance_km: number | null; // null when either location is not a known center
+  transport_eta_hours: number | null;
   compatibility_factors: {
-    blood_compatibility: boolean;
-    hla_compatibility: number; // Score from 0 to 1
+    blood_compatibility: boolean; // false only for the incompatible class
+    abo: BloodCompatibility;
+    hla_compatibility: number | null; // Score from 0 to 1; null when typing is incomplete
+    hla_mismatch: HlaMismatchSummary;
     age_compatibility: boolean;
-    size_compatibility: boolean;
+    size_compatibility: boolean; // size score above zero
+    size: SizeAssessment | null;
     gender_compatibility: boolean;
     urgency_bonus: number;
+    cpra: number; // Calculated PRA, 0 to 100
+    sensitization_bonus: number;
+    score_breakdown: ScoreComponent[]; // in scoring order; sums to raw_score
+    raw_score: number; // points earned; ranking, the threshold and batch totals use these
+    max_score: number; // points this candidate could earn; match_score is the share of it
+    waiting_days: number;
+    epts: number | null; // kidney candidates
+    longevity_priority: boolean; // top-EPTS candidate offered a top-KDPI kidney ahead of the list
+    pediatric_priority: boolean; // pediatric candidate offered a donor younger than the policy age
+    heart_status: HeartStatusAssessment | null; // heart candidates
+    risk_breakdown: RiskComponent[]; // heuristic points summing to the uncapped percentage, or log-odds contributions (beta × value) of a probability model
+    risk_prediction: RiskPrediction | null; // null for the heuristic points model
+    viral_serostatus: ViralSerostatus[];
   };
   viability_window_hours: number;
+  policy_version_id: string | null; // null when scored with the built-in default policy
+}
+
+// Why a candidate waiting for the organ is not on the match list
+export type ExclusionReason =
+  | 'inactive'
+  | 'blood_type'
+  | 'recipient_ineligible'
+  | 'unacceptable_antigens'
+  | 'age_difference'
+  | 'transport_time'
+  | 'serology_consent'
+  | 'below_threshold'
+  | 'scoring_error';
+
+export interface ExcludedCandidate {
+  recipient: Recipient;
+  reason: ExclusionReason;
+  detail: string;
+  trigger?: ExclusionTrigger; // history text that triggered a keyword exclusion
+}
+
+// A clinical term found in free text; start/end index the matched span
+export interface ClinicalTextMatch {
+  term: string; // the keyword searched for; matched_text may be a synonym
+  matched_text: string;
+  start: number;
+  end: number;
+  negated: boolean;
+}
+
+export interface ExclusionTrigger extends ClinicalTextMatch {
+  field: 'medical_history' | 'cause_of_death';
+}
+
+// Matches for one organ type offered by a donor. A donor may offer several
+// units of the same organ (e.g. both kidneys), each allocated separately.
+export interface OrganMatchResults {
+  organ: OrganType;
+  units_available: number;
+  units_allocated: number;
+  matches: MatchResult[];
+  excluded: ExcludedCandidate[]; // empty when the donor organ itself is ineligible or fully allocated
+  donor_ineligible_reason: string | null;
+  donor_ineligible_trigger: ExclusionTrigger | null;
 }
 
 export interface OrganViability {
@@ -83,12 +352,50 @@ export interface OrganViability {
   liver: { min: 8, max: 12 };
 }
 
+// One proposed pairing in a batch allocation
+export interface BatchAllocationPair {
+  donor: Donor;
+  match: MatchResult;
+}
+
+// Donor organ unit the batch allocation could not fill
+export interface UnfilledOrganUnit {
+  donor: Donor;
+  organ: OrganType;
+  reason: string;
+}
+
+export interface BatchAllocationProposal {
+  pairs: BatchAllocationPair[];
+  total_score: number; // sum of match scores over the proposed pairs
+  sequential_total_score: number; // total when each donor takes its top remaining match in turn
+  unfilled: UnfilledOrganUnit[];
+  policy_version_id: string | null;
+  generated_at: string;
+}
+
 export interface CompatibilityFactors {
   age_compatibility: any;
   blood_compatibility: boolean;
-  hla_compatibility: number; // Assuming it's a percentage (e.g., 0.85 for 85%)
+  hla_compatibility: number | null; // Assuming it's a percentage (e.g., 0.85 for 85%); null when typing is incomplete
+  hla_mismatch?: HlaMismatchSummary;
   size_compatibility: boolean;
+  size?: SizeAssessment | null;
   urgency_bonus: number;
+  cpra?: number;
+  sensitization_bonus?: number;
+  score_breakdown?: ScoreComponent[];
+  raw_score?: number;
+  max_score?: number;
+  waiting_days?: number;
+  epts?: number | null;
+  longevity_priority?: boolean;
+  pediatric_priority?: boolean;
+  heart_status?: HeartStatusAssessment | null;
+  risk_breakdown?: RiskComponent[];
+  risk_prediction?: RiskPrediction | null;
+  viral_serostatus?: ViralSerostatus[];
+  abo?: BloodCompatibility;
 }
 
 export interface Allocation {
@@ -106,4 +413,282 @@ export interface Allocation {
   status: 'pending' | 'completed' | 'cancelled' | 'confirmed';
   notes: string | null;
   allocated_by: string | null;
+  policy_version_id: string | null;
+  exchange_id: string | null; // KPD exchange the allocation belongs to
+  graft_outcome: GraftOutcome | null; // null until follow-up is recorded
+  graft_outcome_date: string | null; // date of graft failure, or of the last follow-up with a functioning graft
+}
+
+// Follow-up status of a transplanted graft, used to validate risk models
+export type GraftOutcome = 'functioning' | 'failed';
+
+// One exported allocation for offline risk-model validation
+export interface AllocationOutcomeRecord {
+  allocation_id: string;
+  organ_type: OrganType;
+  transplant_date: string;
+  model_id: RiskModelId;
+  model_version: string;
+  predicted_probability: number | null; // 0..1; null without a model prediction
+  risk_percentage: number | null; // stored risk percentage, heuristic points when there is no prediction
+  ci_low: number | null;
+  ci_high: number | null;
+  graft_outcome: GraftOutcome | null;
+  graft_outcome_date: string | null;
+  failed_within_1_year: boolean | null; // null when follow-up is shorter than a year
+}
+
+// Kidney paired donation
+export type KpdPairStatus = 'active' | 'locked' | 'matched' | 'withdrawn';
+export type KpdExchangeKind = 'cycle' | 'chain';
+export type KpdExchangeStatus = 'locked' | 'allocated' | 'released';
+
+// Living donor registered with an incompatible recipient; recipient_id is null for a non-directed donor
+export interface KpdPair {
+  id: string;
+  donor_id: string;
+  recipient_id: string | null;
+  status: KpdPairStatus;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  donor?: Donor;
+  recipient?: Recipient | null;
+}
+
+// Donor of one pair giving to the recipient of another
+export interface KpdTransplant {
+  from_pair_id: string;
+  to_pair_id: string;
+  match: MatchResult; // scored for to_pair's recipient
+}
+
+// Cycle: the last pair's donor gives back to the first pair's recipient.
+// Chain: starts at a non-directed donor; the last pair's donor is left over.
+export interface KpdExchangeCandidate {
+  kind: KpdExchangeKind;
+  pair_ids: string[]; // in donation order
+  transplants: KpdTransplant[];
+  total_score: number;
+}
+
+export interface KpdExchange {
+  id: string;
+  kind: KpdExchangeKind;
+  pair_ids: string[];
+  total_score: number;
+  status: KpdExchangeStatus;
+  locked_by: string | null;
+  locked_at: string;
+  created_at: string;
+}
+
+export interface AgeRule {
+  donor: { min?: number; max?: number };
+  recipient: { max?: number };
+  max_diff: number; // donor-recipient age gap; pediatric candidates are exempt
+}
+
+export type ExclusionLists = { general: string[] } & Record<OrganType, string[]>;
+
+// Point weights of the organ-specific part of the match score
+export interface OrganPointWeights {
+  hla: number;
+  size: number;
+  gender: number;
+  meld?: number; // liver only
+}
+
+// Accepted donor/recipient ratio of a body measure
+export interface SizeRatioBounds {
+  min_ratio: number;
+  max_ratio: number;
+}
+
+// Graded size band: full credit between ideal_min and ideal_max, falling linearly
+// to none at min_ratio and max_ratio
+export interface SizeScoreBand {
+  min_ratio: number;
+  ideal_min: number;
+  ideal_max: number;
+  max_ratio: number;
+}
+
+// Pediatric heart and liver candidates are sized on height and body surface area as well as weight
+export interface PediatricSizeBounds {
+  weight: SizeScoreBand;
+  height: SizeScoreBand;
+  bsa: SizeScoreBand;
+}
+
+// Size model a match was scored with:
+// - predicted_heart_mass: donor/recipient PHM ratio (adult hearts)
+// - pediatric_heart / pediatric_liver: weight, height and BSA ratios
+// - graft_weight_ratio: liver graft-to-recipient weight ratio (GRWR), estimated from standard liver volume
+// - bsa_ratio: donor/recipient body surface area (kidneys)
+// - weight_ratio: fallback when height is missing; earns the incomplete credit at most
+export type SizeModel = 'predicted_heart_mass' | 'pediatric_heart' | 'pediatric_liver' | 'graft_weight_ratio' | 'bsa_ratio' | 'weight_ratio';
+
+export interface SizeMetric {
+  key: string;
+  label: string;
+  value: number;
+  unit: string; // '' for ratios
+}
+
+export interface SizeAssessment {
+  model: SizeModel;
+  score: number; // 0..1 share of the size points
+  complete: boolean; // false when the model's inputs were missing
+  metrics: SizeMetric[];
+  summary: string; // the scored ratio, e.g. "PHM ratio 0.94"
+  rule: string;
+  split_graft: boolean; // liver scored as a split segment
+}
+
+// Risk models:
+// - graft_failure_logistic: bundled logistic model of 1-year graft failure
+// - heuristic_points: the original hand-weighted penalty points, capped at 80
+export type RiskModelId = 'graft_failure_logistic' | 'heuristic_points';
+
+// A feature's share of a prediction, in log-odds relative to the reference patient
+export interface RiskDriver {
+  key: string;
+  label: string;
+  detail: string;
+  contribution: number;
+}
+
+export interface RiskPrediction {
+  model_id: RiskModelId;
+  model_version: string;
+  outcome: string; // what is predicted, e.g. "1-year graft failure"
+  probability: number; // percent
+  ci_low: number; // 95% confidence interval, percent
+  ci_high: number;
+  drivers: RiskDriver[]; // largest absolute contribution first
+}
+
+export interface RiskAssessment {
+  risk_level: 'low' | 'medium' | 'high';
+  risk_percentage: number;
+  risk_breakdown: RiskComponent[];
+  prediction: RiskPrediction | null;
+}
+
+// Donor/recipient features MatchingService computes once and hands to the risk model
+export interface RiskModelInput {
+  donor: Donor;
+  recipient: Recipient;
+  organ: OrganType;
+  match_score: number;
+  abo: BloodCompatibility;
+  size: SizeAssessment;
+  hla_credit: number; // 0..1, as scored
+  hla_mismatch: HlaMismatchSummary;
+  cpra: number;
+  ischemia: { elapsed_hours: number; window_hours: number } | null; // null without a running countdown
+  transport_eta_hours: number | null;
+  comorbidity_penalty: number;
+  viral_serostatus: ViralSerostatus[];
+  kdpi: KdpiResult | null;
+  meld: number | null;
+  heart_status: HeartStatusAssessment | null;
+  policy: AllocationPolicyDocument;
+}
+
+export interface RiskModel {
+  id: RiskModelId;
+  version: string;
+  label: string;
+  assess(input: RiskModelInput): RiskAssessment;
+}
+
+// Everything MatchingService needs to rank candidates. Stored as jsonb so a
+// policy change is a new version in the database, not a code deploy.
+export interface AllocationPolicyDocument {
+  blood_compatibility: Record<BloodType, BloodType[]>;
+  organ_viability_hours: Record<OrganType, number>;
+  hla_locus_weights: Record<OrganType, Record<string, number>>;
+  hla_equivalence_credit: { identical: number; split_broad: number; sibling_splits: number };
+  hla_incomplete_typing_credit: number;
+  unacceptable_broad_donor_conflicts: boolean;
+  cpra_priority_points: { min_cpra: number; points: number }[];
+  age_rules: Record<OrganType, AgeRule>;
+  medical_exclusions: { donor: ExclusionLists; recipient: ExclusionLists };
+  // ICD-10 code ranges ("C00-C43", "E11.2", "B20") checked against coded conditions
+  // before the free-text keywords above
+  coded_exclusions: { donor: ExclusionLists; recipient: ExclusionLists };
+  size_ratio_bounds: Record<OrganType, SizeRatioBounds>;
+  common_points: { blood_compatibility: number; urgency_max: number };
+  organ_points: Record<OrganType, OrganPointWeights>;
+  // Waiting time counts from the listing date, or from dialysis start for kidney
+  // candidates when that is earlier and use_dialysis_start_for_kidney is set
+  waiting_time: { points_per_year: number; max_points: number; use_dialysis_start_for_kidney: boolean };
+  // Kidney ranking stage: candidates at or below max_epts are ranked first for
+  // kidneys at or below max_kdpi
+  longevity_matching: { enabled: boolean; max_kdpi: number; max_epts: number };
+  // Transport time: ground travel up to ground_max_km, flights beyond; overhead
+  // covers retrieval, handover and airport transfers
+  transport: { ground_max_km: number; ground_speed_kmh: number; ground_overhead_hours: number; air_speed_kmh: number; air_overhead_hours: number };
+  // Proximity points: full up to full_points_km, falling linearly to zero at zero_points_km
+  proximity_points: { max_points: number; full_points_km: number; zero_points_km: number };
+  // Kidney paired donation: longest exchange cycle and chain (in transplants) searched
+  paired_donation: { max_cycle_length: number; max_chain_length: number };
+  // Donor serology: positive HIV / HBsAg rule the donor out; pending HIV, HBsAg or
+  // HCV results hold the donor back when block_pending_results is set
+  serology: { exclude_hiv_positive: boolean; exclude_hbsag_positive: boolean; block_pending_results: boolean };
+  // Risk points added for a seropositive donor to a seronegative recipient (D+/R-)
+  viral_mismatch_penalties: { cmv: number; ebv: number };
+  // Candidates under 18 at listing earn priority_points for donors younger than
+  // priority_max_donor_age; size_bounds replace the PHM and GRWR models for their hearts and livers
+  pediatric: {
+    priority_max_donor_age: number;
+    priority_points: number;
+    size_bounds: Record<'heart' | 'liver', PediatricSizeBounds>;
+  };
+  // Graded size models per organ. A split-eligible liver too large as a whole graft is scored
+  // as a segment of split_segment_fraction of its volume; incomplete_credit is the share of
+  // size points when height, weight or sex is missing
+  size_models: {
+    heart: { phm_ratio: SizeScoreBand };
+    liver: { grwr_percent: SizeScoreBand; split_segment_fraction: number };
+    kidney: { bsa_ratio: SizeScoreBand };
+    incomplete_credit: number;
+  };
+  // Kidney-only ABO pathways. Titers (reciprocal dilutions) must be measured within
+  // max_titer_age_days; risk_penalty is added to the match risk when a pathway is used
+  abo_pathways: {
+    a2_to_b: { enabled: boolean; max_anti_a_titer: number; max_titer_age_days: number; risk_penalty: number };
+    abo_incompatible_living: { enabled: boolean; max_baseline_titer: number; max_titer_age_days: number; risk_penalty: number };
+  };
+  // Model behind risk_percentage and risk_level
+  risk_model: RiskModelId;
+  // Points (raw_score) a match must exceed
+  min_match_score: number;
+}
+
+export interface AllocationPolicy {
+  id: string;
+  version: number;
+  name: string;
+  notes: string | null;
+  document: AllocationPolicyDocument;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  activated_at: string | null;
+}
+
+// The policy MatchingService scores with; id/version are null for the built-in default
+export interface ActiveAllocationPolicy {
+  id: string | null;
+  version: number | null;
+  document: AllocationPolicyDocument;
+}
+
+export interface PolicyDiffEntry {
+  path: string; // dotted path into the document, e.g. organ_points.kidney.hla
+  before: unknown;
+  after: unknown;
 }
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Unacceptable HLA antigens per recipient, used for the virtual crossmatch and cPRA
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS unacceptable_antigens text[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,29 @@
+-- Versioned allocation policy documents. Exactly one version is active at a time;
+-- MatchingService falls back to its built-in default when none is.
+CREATE TABLE IF NOT EXISTS public.allocation_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer NOT NULL UNIQUE CHECK (version > 0),
+  name text NOT NULL,
+  notes text,
+  document jsonb NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES public.admin_users(id),
+  created_at timestamptz DEFAULT now(),
+  activated_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_allocation_policies_single_active
+  ON public.allocation_policies(is_active) WHERE is_active;
+
+ALTER TABLE public.allocation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage allocation policies"
+  ON public.allocation_policies
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Policy version each allocation was scored under
+ALTER TABLE public.allocations
+ADD COLUMN IF NOT EXISTS policy_version_id uuid REFERENCES public.allocation_policies(id);
@@ -0,0 +1,17 @@
+-- Restore waiting time: the date a candidate was listed and, for kidney
+-- candidates, the date dialysis started. Existing rows are listed as of creation.
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS listing_date date;
+
+UPDATE public.recipients
+SET listing_date = created_at::date
+WHERE listing_date IS NULL;
+
+ALTER TABLE public.recipients
+ALTER COLUMN listing_date SET DEFAULT CURRENT_DATE,
+ALTER COLUMN listing_date SET NOT NULL;
+
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS dialysis_start_date date;
+
+CREATE INDEX IF NOT EXISTS idx_recipients_listing_date ON public.recipients(listing_date);
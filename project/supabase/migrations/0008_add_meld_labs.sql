@@ -0,0 +1,3 @@
+-- Lab history behind each liver candidate's MELD-Na; meld_score keeps the latest computed value
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS meld_labs jsonb NOT NULL DEFAULT '[]';
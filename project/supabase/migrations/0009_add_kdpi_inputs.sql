@@ -0,0 +1,8 @@
+-- Donor inputs of the Kidney Donor Profile Index (KDRI/KDPI)
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS ethnicity text CHECK (ethnicity IN ('african_american', 'white', 'hispanic', 'asian', 'other')),
+ADD COLUMN IF NOT EXISTS hypertension boolean,
+ADD COLUMN IF NOT EXISTS diabetes boolean,
+ADD COLUMN IF NOT EXISTS creatinine_mg_dl numeric,
+ADD COLUMN IF NOT EXISTS hcv_positive boolean,
+ADD COLUMN IF NOT EXISTS dcd boolean NOT NULL DEFAULT false;
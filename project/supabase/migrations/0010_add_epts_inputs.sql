@@ -0,0 +1,4 @@
+-- Recipient inputs of the Estimated Post-Transplant Survival (EPTS) score
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS diabetes boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS prior_transplant boolean NOT NULL DEFAULT false;
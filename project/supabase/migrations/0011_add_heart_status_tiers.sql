@@ -0,0 +1,33 @@
+-- Adult heart allocation tiers (Status 1-6) replace the old UNOS 1A/1B/2/7 codes for hearts
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS heart_status text CHECK (heart_status IN ('1', '2', '3', '4', '5', '6')),
+ADD COLUMN IF NOT EXISTS heart_status_criterion text,
+ADD COLUMN IF NOT EXISTS heart_status_justification text,
+ADD COLUMN IF NOT EXISTS heart_status_expires_at date;
+
+-- Closest tiers for existing heart candidates; criteria must be re-justified within
+-- the tier's usual validity (14 days for Status 2, 90 for Status 4, 180 for Status 6)
+UPDATE public.recipients
+SET heart_status = CASE unos_status
+    WHEN '1A' THEN '2'
+    WHEN '1B' THEN '4'
+    ELSE '6'
+  END,
+  heart_status_justification = 'Migrated from UNOS status ' || COALESCE(unos_status, 'none'),
+  heart_status_expires_at = CURRENT_DATE + CASE unos_status
+    WHEN '1A' THEN 14
+    WHEN '1B' THEN 90
+    ELSE 180
+  END
+WHERE organ_needed = 'heart' AND heart_status IS NULL;
+
+-- unos_status is now only used for liver Status 1A/1B
+UPDATE public.recipients
+SET unos_status = NULL
+WHERE organ_needed = 'heart' OR unos_status NOT IN ('1A', '1B');
+
+ALTER TABLE public.recipients DROP CONSTRAINT IF EXISTS recipients_unos_status_check;
+ALTER TABLE public.recipients
+ADD CONSTRAINT recipients_unos_status_check CHECK (unos_status IN ('1A', '1B'));
+
+CREATE INDEX IF NOT EXISTS idx_recipients_heart_status ON public.recipients (heart_status);
@@ -0,0 +1,10 @@
+-- Transplant center (from the bundled center directory) that each location resolves to;
+-- location stays as the display text
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS center_id text;
+
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS center_id text;
+
+CREATE INDEX IF NOT EXISTS idx_donors_center_id ON public.donors (center_id);
+CREATE INDEX IF NOT EXISTS idx_recipients_center_id ON public.recipients (center_id);
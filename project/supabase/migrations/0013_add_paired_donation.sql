@@ -0,0 +1,46 @@
+-- Kidney paired donation (KPD): incompatible living donor-recipient pairs and the
+-- exchanges (cycles, or chains started by a non-directed donor) locked between them.
+-- A non-directed donor is registered as a pair without a recipient.
+CREATE TABLE IF NOT EXISTS public.kpd_pairs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES public.donors(id) ON DELETE CASCADE,
+  recipient_id uuid REFERENCES public.recipients(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'locked', 'matched', 'withdrawn')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kpd_pairs_donor ON public.kpd_pairs(donor_id);
+
+CREATE TABLE IF NOT EXISTS public.kpd_exchanges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('cycle', 'chain')),
+  pair_ids uuid[] NOT NULL, -- in donation order: each pair's donor gives to the next pair's recipient
+  total_score numeric NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'locked' CHECK (status IN ('locked', 'allocated', 'released')),
+  locked_by uuid REFERENCES public.admin_users(id),
+  locked_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.kpd_pairs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.kpd_exchanges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage KPD pairs"
+  ON public.kpd_pairs
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admins can manage KPD exchanges"
+  ON public.kpd_exchanges
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Exchange an allocation was created from
+ALTER TABLE public.allocations
+ADD COLUMN IF NOT EXISTS exchange_id uuid REFERENCES public.kpd_exchanges(id);
@@ -0,0 +1,15 @@
+-- Donor type: living donors, or deceased donors after brain death (DBD) or circulatory death (DCD).
+-- Replaces the dcd flag; living donors carry an intended recipient, a work-up checklist
+-- (completed item codes) and a planned surgery date instead of a cause of death.
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS donor_type text NOT NULL DEFAULT 'deceased_dbd'
+  CHECK (donor_type IN ('living', 'deceased_dbd', 'deceased_dcd')),
+ADD COLUMN IF NOT EXISTS intended_recipient_id uuid REFERENCES public.recipients(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS evaluation_checklist jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS planned_surgery_date date;
+
+UPDATE public.donors SET donor_type = 'deceased_dcd' WHERE dcd;
+
+ALTER TABLE public.donors DROP COLUMN IF EXISTS dcd;
+
+CREATE INDEX IF NOT EXISTS idx_donors_donor_type ON public.donors (donor_type);
@@ -0,0 +1,18 @@
+-- Structured donor serology (positive / negative / pending per marker), replacing
+-- keyword matches on the free-text history and the single hcv_positive flag
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS serology jsonb NOT NULL DEFAULT '{
+  "hiv": "pending", "hbsag": "pending", "anti_hbc": "pending", "hcv_ab": "pending",
+  "hcv_nat": "pending", "cmv": "pending", "ebv": "pending", "syphilis": "pending"
+}'::jsonb;
+
+UPDATE public.donors
+SET serology = jsonb_set(serology, '{hcv_ab}', to_jsonb(CASE WHEN hcv_positive THEN 'positive' ELSE 'negative' END))
+WHERE hcv_positive IS NOT NULL;
+
+ALTER TABLE public.donors DROP COLUMN IF EXISTS hcv_positive;
+
+-- Recipient consent to organs from HCV-positive or anti-HBc-positive donors
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS accepts_hcv_positive boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS accepts_hbcab_positive boolean NOT NULL DEFAULT false;
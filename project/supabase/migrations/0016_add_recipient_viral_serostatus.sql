@@ -0,0 +1,4 @@
+-- Recipient CMV / EBV IgG serostatus, compared with the donor's serology to flag D+/R- mismatches
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS cmv_serostatus text NOT NULL DEFAULT 'pending' CHECK (cmv_serostatus IN ('positive', 'negative', 'pending')),
+ADD COLUMN IF NOT EXISTS ebv_serostatus text NOT NULL DEFAULT 'pending' CHECK (ebv_serostatus IN ('positive', 'negative', 'pending'));
@@ -0,0 +1,7 @@
+-- ICD-10-CM coded conditions ([{ "code": "E11.22", "label": "..." }]) alongside the
+-- free-text medical history, which is kept as notes
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS conditions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS conditions jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,9 @@
+-- A1/A2 subtype of blood group A and AB donors, for A2/A2B-to-B kidney allocation
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS abo_subtype text CHECK (abo_subtype IN ('A1', 'A2', 'A1B', 'A2B'));
+
+-- Anti-A / anti-B titers ([{ "antibody": "anti_a", "titer": 8, "measured_at": "2025-01-31" }])
+-- and enrolment in a desensitization protocol for ABO-incompatible living donation
+ALTER TABLE public.recipients
+ADD COLUMN IF NOT EXISTS abo_titers jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS accepts_abo_incompatible boolean NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- Donor livers that may be split into a pediatric and an adult graft
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS split_liver_eligible boolean NOT NULL DEFAULT false;
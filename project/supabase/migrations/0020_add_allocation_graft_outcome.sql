@@ -0,0 +1,5 @@
+-- Graft follow-up for validating risk predictions: whether the graft failed, and the
+-- date of failure or of the last follow-up with a functioning graft
+ALTER TABLE public.allocations
+ADD COLUMN IF NOT EXISTS graft_outcome text CHECK (graft_outcome IN ('functioning', 'failed')),
+ADD COLUMN IF NOT EXISTS graft_outcome_date date;
@@ -0,0 +1,46 @@
+-- Allocates every transplant of a locked paired-donation exchange in one transaction, so a
+-- failure on one leg leaves none of the cycle or chain allocated. p_allocations holds one
+-- allocation row per transplant; exchange_id and allocated_at are set here.
+CREATE OR REPLACE FUNCTION public.allocate_kpd_exchange(p_exchange_id uuid, p_allocations jsonb, p_allocated_at timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_exchange public.kpd_exchanges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_exchange FROM public.kpd_exchanges WHERE id = p_exchange_id FOR UPDATE;
+  IF NOT FOUND OR v_exchange.status <> 'locked' THEN
+    RAISE EXCEPTION 'Exchange % is not locked', p_exchange_id;
+  END IF;
+
+  INSERT INTO public.allocations (
+    donor_id, recipient_id, organ_type, match_score, risk_level, risk_percentage, urgency_level,
+    compatibility_factors, allocated_at, transplant_scheduled, status, notes, allocated_by,
+    policy_version_id, exchange_id
+  )
+  SELECT
+    a.donor_id, a.recipient_id, a.organ_type, a.match_score, a.risk_level, a.risk_percentage, a.urgency_level,
+    a.compatibility_factors, p_allocated_at, a.transplant_scheduled, COALESCE(a.status, 'pending'), a.notes, a.allocated_by,
+    a.policy_version_id, p_exchange_id
+  FROM jsonb_populate_recordset(NULL::public.allocations, p_allocations) AS a;
+
+  -- Same status changes as a single allocation: donors once every organ is allocated
+  UPDATE public.donors d
+  SET status = 'allocated'
+  WHERE d.id IN (SELECT (e->>'donor_id')::uuid FROM jsonb_array_elements(p_allocations) AS e)
+    AND (SELECT count(*) FROM public.allocations al WHERE al.donor_id = d.id AND al.status <> 'cancelled')
+      >= COALESCE(array_length(d.organs_available, 1), 0);
+
+  UPDATE public.recipients
+  SET status = 'transplanted'
+  WHERE id IN (SELECT (e->>'recipient_id')::uuid FROM jsonb_array_elements(p_allocations) AS e);
+
+  UPDATE public.kpd_exchanges
+  SET status = 'allocated'
+  WHERE id = p_exchange_id;
+
+  UPDATE public.kpd_pairs
+  SET status = 'matched', updated_at = p_allocated_at
+  WHERE id = ANY (v_exchange.pair_ids);
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Switches the active allocation policy in one transaction, so a failure part way never
+-- leaves zero or two versions active
+CREATE OR REPLACE FUNCTION public.activate_allocation_policy(p_policy_id uuid)
+RETURNS public.allocation_policies
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_policy public.allocation_policies%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.allocation_policies WHERE id = p_policy_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Allocation policy % does not exist', p_policy_id;
+  END IF;
+
+  UPDATE public.allocation_policies
+  SET is_active = false
+  WHERE is_active AND id <> p_policy_id;
+
+  UPDATE public.allocation_policies
+  SET is_active = true, activated_at = now()
+  WHERE id = p_policy_id
+  RETURNING * INTO v_policy;
+
+  RETURN v_policy;
+END;
+$$;